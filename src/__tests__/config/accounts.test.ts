@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from "vitest";
+import { AccountManager, parseAccountIndexes } from "../../config/accounts.js";
+
+function createConfig() {
+    let state: any = { network: { id: "regtest", network: "regtest", explorerUrl: "" } };
+    return {
+        getState: () => state,
+        setState: vi.fn((partial: any) => {
+            state = { ...state, ...partial };
+        }),
+    } as any;
+}
+
+function createConnector(index: number) {
+    return {
+        id: `key-pair-${index}`,
+        connect: vi.fn(async ({ purposes }: { purposes: string[] }) => purposes.map(purpose => ({
+            address: `bcrt1-${purpose}-${index}`,
+            publicKey: `pub-${index}`,
+            purpose,
+            addressType: purpose === "ordinals" ? "p2tr" : "p2wpkh",
+        }))),
+    } as any;
+}
+
+describe("parseAccountIndexes", () => {
+    it("defaults to account 0", () => {
+        expect(parseAccountIndexes(undefined)).toEqual([0]);
+        expect(parseAccountIndexes(" ")).toEqual([0]);
+    });
+
+    it("parses lists and ranges", () => {
+        expect(parseAccountIndexes("3, 0-2, 1")).toEqual([0, 1, 2, 3]);
+    });
+
+    it("rejects invalid entries", () => {
+        expect(() => parseAccountIndexes("a")).toThrow("Invalid account index");
+        expect(() => parseAccountIndexes("3-1")).toThrow("Invalid account index range");
+    });
+});
+
+describe("AccountManager", () => {
+    const purposes = ["ordinals", "payment"] as any;
+
+    it("connects every index and activates the first", async () => {
+        const config = createConfig();
+        const manager = await AccountManager.connect(config, createConnector, { indexes: [0, 1], purposes });
+
+        expect(manager.getIndexes()).toEqual([0, 1]);
+        expect(manager.getActiveIndex()).toBe(0);
+        expect(config.getState().accounts[0].address).toBe("bcrt1-ordinals-0");
+        expect(manager.getAllAccounts()).toHaveLength(4);
+    });
+
+    it("switches the config connection and accounts on select", async () => {
+        const config = createConfig();
+        const manager = await AccountManager.connect(config, createConnector, { indexes: [0, 1], purposes, activeIndex: 1 });
+        expect(config.getState().connection.id).toBe("key-pair-1");
+
+        manager.select(0);
+        expect(manager.getActiveIndex()).toBe(0);
+        expect(config.getState().connection.id).toBe("key-pair-0");
+        expect(config.getState().accounts.map((a: any) => a.address)).toEqual(["bcrt1-ordinals-0", "bcrt1-payment-0"]);
+    });
+
+    it("rejects unknown indexes", async () => {
+        const config = createConfig();
+        const manager = await AccountManager.connect(config, createConnector, { indexes: [0], purposes });
+        expect(() => manager.select(5)).toThrow("Account index 5 is not configured. Available: 0");
+        expect(manager.getActiveIndex()).toBe(0);
+    });
+
+    it("describes accounts with derivation paths and EVM addresses", async () => {
+        const config = createConfig();
+        const manager = await AccountManager.connect(config, createConnector, {
+            indexes: [2],
+            purposes,
+            evmAddressOf: account => `0xevm-${account.publicKey}`,
+        });
+
+        expect(manager.describe()).toEqual([
+            {
+                index: 2,
+                active: true,
+                purpose: "ordinals",
+                addressType: "p2tr",
+                address: "bcrt1-ordinals-2",
+                publicKey: "pub-2",
+                derivationPath: "m/86'/1'/2'/0/0",
+                evmAddress: "0xevm-pub-2",
+            },
+            {
+                index: 2,
+                active: true,
+                purpose: "payment",
+                addressType: "p2wpkh",
+                address: "bcrt1-payment-2",
+                publicKey: "pub-2",
+                derivationPath: "m/84'/1'/2'/0/0",
+                evmAddress: "0xevm-pub-2",
+            },
+        ]);
+    });
+
+    it("omits derivation paths for externally supplied accounts", () => {
+        const config = createConfig();
+        config.setState({ connection: { id: "server-connector" }, accounts: [{ address: "tb1p", publicKey: "pk", purpose: "ordinals", addressType: "p2tr" }] });
+
+        const [account] = AccountManager.fromConfig(config).describe();
+        expect(account!.derivationPath).toBeUndefined();
+        expect(account!.evmAddress).toBeUndefined();
+    });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AuditLog, redactSecrets } from "../../config/audit-log.js";
+
+describe("AuditLog", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), "midl-audit-"));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should redact secret-looking keys recursively", () => {
+        expect(redactSecrets({ mnemonic: "word word", nested: [{ privateKey: "abc", amount: 1n }], to: "tb1q" }))
+            .toEqual({ mnemonic: "[REDACTED]", nested: [{ privateKey: "[REDACTED]", amount: "1" }], to: "tb1q" });
+    });
+
+    it("should append JSONL entries and read them back", () => {
+        const path = join(dir, "logs", "audit.jsonl");
+        const log = new AuditLog(path);
+
+        log.record({ tool: "prepare-btc-transfer", arguments: { recipients: [{ address: "tb1qalice", amount: 1000 }] }, txId: "aa" });
+        log.record({ tool: "request-psbt-signature", arguments: { psbt: "cHNidP8=" }, elicitation: "declined", error: "declined" });
+
+        expect(readFileSync(path, "utf8").trim().split("\n")).toHaveLength(2);
+        expect(new AuditLog(path).query().map(e => e.tool)).toEqual(["prepare-btc-transfer", "request-psbt-signature"]);
+    });
+
+    it("should filter by tool, address and time range", () => {
+        const log = new AuditLog();
+        log.record({ tool: "broadcast-transaction", arguments: { txHex: "00" }, txId: "t1" });
+        log.record({ tool: "call-contract", arguments: { contractAddress: "0xABC" }, evmTxHash: "0x1" });
+
+        expect(log.query({ tool: "call-contract" })).toHaveLength(1);
+        expect(log.query({ address: "0xabc" })[0]!.tool).toBe("call-contract");
+        expect(log.query({ until: "2000-01-01T00:00:00Z" })).toHaveLength(0);
+        expect(log.query({ since: "2000-01-01T00:00:00Z", limit: 1 })[0]!.tool).toBe("call-contract");
+    });
+
+    it("should keep entries in memory when MIDL_AUDIT_LOG=memory", () => {
+        const log = AuditLog.fromEnv({ MIDL_AUDIT_LOG: "memory" });
+        expect(log.getFilePath()).toBeNull();
+    });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Transaction, address as btcAddress, networks } from "bitcoinjs-lib";
+import { getContractAddress, keccak256, serializeTransaction } from "viem";
+import { FakeChain } from "../../config/fake-chain.js";
+
+const network = { id: "regtest", network: "regtest", explorerUrl: "fake-chain://tx/" } as const;
+const alice = "bcrt1qqyqszqgpqyqszqgpqyqszqgpqyqszqgpvxat9t";
+const bob = "bcrt1qqgpqyqszqgpqyqszqgpqyqszqgpqyqszazmwwa";
+
+function spend(txid: string, vout: number, outputs: { address: string; value: number }[]) {
+    const tx = new Transaction();
+    tx.version = 2;
+    tx.addInput(Buffer.from(txid, "hex").reverse(), vout);
+    tx.setWitness(0, [Buffer.alloc(64, 1)]);
+    for (const output of outputs) {
+        tx.addOutput(btcAddress.toOutputScript(output.address, networks.regtest), BigInt(output.value));
+    }
+    return tx;
+}
+
+describe("FakeChain", () => {
+    let chain: FakeChain;
+
+    beforeEach(() => {
+        chain = new FakeChain({ network, blockHeight: 100 });
+    });
+
+    it("should fund addresses deterministically", async () => {
+        const txid = chain.fund(alice, 50_000);
+        const other = new FakeChain({ network, blockHeight: 100 }).fund(alice, 50_000);
+
+        expect(txid).toBe(other);
+        expect(await chain.getUTXOs(network, alice)).toEqual([
+            { txid, vout: 0, value: 50_000, status: { confirmed: true, block_height: 100 } },
+        ]);
+        expect(Transaction.fromHex(await chain.getTransactionHex(network, txid)).getId()).toBe(txid);
+    });
+
+    it("should apply broadcasts to the UTXO set and mempool", async () => {
+        const funding = chain.fund(alice, 50_000);
+        const tx = spend(funding, 0, [{ address: bob, value: 20_000 }, { address: alice, value: 29_000 }]);
+
+        const txid = await chain.broadcastTransaction(network, tx.toHex());
+
+        expect(txid).toBe(tx.getId());
+        expect(chain.getMempool()).toEqual([txid]);
+        expect(await chain.getUTXOs(network, bob)).toEqual([
+            { txid, vout: 0, value: 20_000, status: { confirmed: false, block_height: 0 } },
+        ]);
+        expect((await chain.getUTXOs(network, alice)).map(u => u.txid)).toEqual([txid]);
+
+        expect(chain.mineBlocks()).toBe(101);
+        expect(chain.getMempool()).toEqual([]);
+        expect(await chain.getTransactionStatus(network, txid)).toEqual({ confirmed: true, block_height: 101 });
+    });
+
+    it("should reject double-spends and outputs exceeding inputs", async () => {
+        const funding = chain.fund(alice, 50_000);
+        await chain.broadcastTransaction(network, spend(funding, 0, [{ address: bob, value: 10_000 }]).toHex());
+
+        await expect(chain.broadcastTransaction(network, spend(funding, 0, [{ address: bob, value: 9_000 }]).toHex()))
+            .rejects.toThrow("bad-txns-inputs-missingorspent");
+
+        const other = chain.fund(alice, 1_000);
+        await expect(chain.broadcastTransaction(network, spend(other, 0, [{ address: bob, value: 2_000 }]).toHex()))
+            .rejects.toThrow("bad-txns-in-belowout");
+    });
+
+    it("should answer Esplora outspend, status and address history requests", async () => {
+        const funding = chain.fund(alice, 50_000);
+        const tx = spend(funding, 0, [{ address: bob, value: 20_000 }, { address: alice, value: 29_000 }]);
+        const txid = await chain.broadcastTransaction(network, tx.toHex());
+
+        expect(chain.apiRequest(`/api/tx/${funding}/outspend/0`)).toEqual({
+            status: 200,
+            body: { spent: true, txid, vin: 0, status: { confirmed: false } },
+        });
+        expect(chain.apiRequest(`/api/tx/${txid}/outspend/1`).body).toEqual({ spent: false });
+        expect(chain.apiRequest(`/api/tx/${"00".repeat(32)}/status`).status).toBe(404);
+
+        chain.mineBlocks();
+        expect(chain.apiRequest(`/api/tx/${txid}/status`).body).toMatchObject({ confirmed: true, block_height: 101 });
+
+        const history = chain.apiRequest(`/api/address/${alice}/txs`).body as any[];
+        expect(history.map(t => t.txid)).toEqual([txid, funding]);
+        expect(history[0]).toMatchObject({
+            fee: 1_000,
+            vin: [{ txid: funding, vout: 0, prevout: { scriptpubkey_address: alice, value: 50_000 } }],
+            vout: [{ scriptpubkey_address: bob, value: 20_000 }, { scriptpubkey_address: alice, value: 29_000 }],
+        });
+        expect((chain.apiRequest(`/api/address/${alice}/txs?after_txid=${txid}`).body as any[]).map(t => t.txid)).toEqual([funding]);
+    });
+
+    it("should serve the API on loopback with no inscribed outputs", async () => {
+        const url = await chain.listen();
+        try {
+            expect(url).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+            const res = await fetch(`${url}/outputs/${alice}?type=inscribed`);
+            expect(await res.json()).toEqual([]);
+            expect((await fetch(`${url}/blockscout/api/v2/smart-contracts`)).status).toBe(404);
+        } finally {
+            await chain.close();
+        }
+    });
+
+    it("should report configured fee rates", async () => {
+        chain.setFeeRates({ hourFee: 7 });
+        expect((await chain.getFeeRate(network)).hourFee).toBe(7);
+    });
+
+    it("should record EVM receipts for MIDL transactions", async () => {
+        const publicKey = `0x${"ab".repeat(32)}` as const;
+        const evmAddress = "0x1111111111111111111111111111111111111111";
+        chain.registerEvmAccount(publicKey, evmAddress);
+
+        const funding = chain.fund(alice, 50_000);
+        const btcTx = spend(funding, 0, [{ address: bob, value: 10_000 }]);
+        const evmTx = serializeTransaction({
+            type: "btc",
+            chainId: 777,
+            data: "0x6000",
+            publicKey,
+            btcTxHash: `0x${btcTx.getId()}`,
+        } as any);
+
+        const [hash] = await chain.evmRequest("eth_sendBTCTransactions", [[evmTx], btcTx.toHex()]) as string[];
+        const receipt: any = await chain.evmRequest("eth_getTransactionReceipt", [hash]);
+
+        expect(hash).toBe(keccak256(evmTx));
+        expect(receipt.status).toBe("0x1");
+        expect(receipt.contractAddress).toBe(getContractAddress({ from: evmAddress, nonce: 0n }));
+        expect(await chain.evmRequest("eth_getTransactionCount", [evmAddress])).toBe("0x1");
+        expect(await chain.evmRequest("eth_getTransactionByHash", [hash])).toMatchObject({ hash, from: evmAddress, input: "0x6000", nonce: "0x0" });
+        expect(chain.getMempool()).toEqual([btcTx.getId()]);
+    });
+});
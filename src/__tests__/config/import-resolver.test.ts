@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { DEFAULT_IMPORT_RESOLVER_SETTINGS, ImportResolver, parseImports, resolveImportPath } from "../../config/import-resolver.js";
+
+const ERC20 = `pragma solidity ^0.8.20;
+import {IERC20} from "./IERC20.sol";
+import "../../utils/Context.sol";
+contract ERC20 is IERC20, Context {}
+`;
+
+describe("parseImports", () => {
+    it("finds every import form and ignores comments", () => {
+        const source = `
+import "./A.sol";
+import "./B.sol" as B;
+import * as C from "./C.sol";
+import {D, E as F} from '@lib/D.sol';
+import {
+    G
+} from "./G.sol";
+// import "./Commented.sol";
+/* import "./Block.sol"; */
+uint256 constant importantValue = 1;
+`;
+        expect(parseImports(source)).toEqual(["./A.sol", "./B.sol", "./C.sol", "@lib/D.sol", "./G.sol"]);
+    });
+});
+
+describe("resolveImportPath", () => {
+    it("joins relative imports to the importing file and applies remappings", () => {
+        expect(resolveImportPath("./IERC20.sol", "@openzeppelin/contracts/token/ERC20/ERC20.sol"))
+            .toBe("@openzeppelin/contracts/token/ERC20/IERC20.sol");
+        expect(resolveImportPath("../../utils/Context.sol", "@openzeppelin/contracts/token/ERC20/ERC20.sol"))
+            .toBe("@openzeppelin/contracts/utils/Context.sol");
+        expect(resolveImportPath("./Base.sol", "Contract.sol")).toBe("Base.sol");
+        expect(resolveImportPath("@lib/utils/Math.sol", "Contract.sol", ["@lib/=vendor/", "@lib/utils/=vendor/math/"]))
+            .toBe("vendor/math/Math.sol");
+        expect(resolveImportPath("@lib/Math.sol", "Contract.sol", ["other:@lib/=vendor/"])).toBe("@lib/Math.sol");
+    });
+});
+
+describe("ImportResolver", () => {
+    let dir: string;
+    const fetchMock = vi.fn(async (url: string) => ({
+        ok: true,
+        text: async () => url.endsWith("ERC20.sol")
+            ? ERC20
+            : url.endsWith("IERC20.sol") ? "interface IERC20 {}" : "abstract contract Context {}",
+    }));
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), "midl-imports-"));
+        fetchMock.mockClear();
+        vi.stubGlobal("fetch", fetchMock);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    const settings = () => ({ ...DEFAULT_IMPORT_RESOLVER_SETTINGS, cacheDir: join(dir, "cache") });
+    const CONTRACT = `import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";\ncontract Token is ERC20 {}\n`;
+
+    it("fetches pinned versions transitively and serves repeat builds from the disk cache", async () => {
+        const { sources, unresolved } = await new ImportResolver(settings()).resolve({ "Contract.sol": CONTRACT });
+
+        expect(unresolved).toEqual([]);
+        expect(Object.keys(sources)).toEqual([
+            "Contract.sol",
+            "@openzeppelin/contracts/token/ERC20/ERC20.sol",
+            "@openzeppelin/contracts/token/ERC20/IERC20.sol",
+            "@openzeppelin/contracts/utils/Context.sol",
+        ]);
+        expect(fetchMock).toHaveBeenCalledWith("https://cdn.jsdelivr.net/npm/@openzeppelin/contracts@5.1.0/token/ERC20/ERC20.sol");
+        expect(readFileSync(join(dir, "cache", "@openzeppelin/contracts@5.1.0/token/ERC20/ERC20.sol"), "utf8")).toBe(ERC20);
+
+        // A new resolver (e.g. after a restart) works offline
+        fetchMock.mockRejectedValue(new Error("offline"));
+        const again = await new ImportResolver(settings()).resolve({ "Contract.sol": CONTRACT });
+        expect(again.sources).toEqual(sources);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("prefers local node_modules or vendored directories", async () => {
+        const vendored = join(dir, "vendor", "@openzeppelin/contracts/token/ERC20/ERC20.sol");
+        mkdirSync(dirname(vendored), { recursive: true });
+        writeFileSync(vendored, "contract ERC20 {}");
+
+        const resolver = new ImportResolver({ ...settings(), searchPaths: [join(dir, "node_modules"), join(dir, "vendor")] });
+        const { sources } = await resolver.resolve({ "Contract.sol": CONTRACT });
+
+        expect(sources["@openzeppelin/contracts/token/ERC20/ERC20.sol"]).toBe("contract ERC20 {}");
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("reports imports it cannot resolve instead of skipping them", async () => {
+        fetchMock.mockResolvedValueOnce({ ok: false, status: 404, statusText: "Not Found" } as any);
+        const source = [
+            `import "@openzeppelin/contracts/Missing.sol";`,
+            `import "solmate/tokens/ERC20.sol";`,
+            `import "./Local.sol";`,
+            `import "../../etc/passwd";`,
+        ].join("\n");
+
+        const { unresolved } = await new ImportResolver(settings()).resolve({ "Contract.sol": source });
+
+        expect(unresolved).toEqual([
+            { path: "@openzeppelin/contracts/Missing.sol", importedBy: "Contract.sol", reason: "@openzeppelin/contracts@5.1.0/Missing.sol not available (404 Not Found)" },
+            { path: "solmate/tokens/ERC20.sol", importedBy: "Contract.sol", reason: `not found in the sources or search paths, and no version of "solmate" is pinned` },
+            { path: "./Local.sol", importedBy: "Contract.sol", reason: `not found in the sources or search paths, and no version of "Local.sol" is pinned` },
+            { path: "../../etc/passwd", importedBy: "Contract.sol", reason: "path is outside the source tree" },
+        ]);
+    });
+
+    it("reads pins, search paths and the cache directory from the environment", () => {
+        const settings = ImportResolver.fromEnv({
+            MIDL_SOLIDITY_LIBRARIES: "@openzeppelin/contracts@4.9.6, solmate@6.2.0",
+            MIDL_SOLIDITY_PATHS: "node_modules,/opt/vendor",
+            MIDL_SOLIDITY_CACHE_DIR: "memory",
+        }, "/work").getSettings();
+
+        expect(settings.libraries).toEqual({
+            "@openzeppelin/contracts": "4.9.6",
+            "@openzeppelin/contracts-upgradeable": "5.1.0",
+            "solmate": "6.2.0",
+        });
+        expect(settings.searchPaths).toEqual(["/work/node_modules", "/opt/vendor"]);
+        expect(settings.cacheDir).toBeNull();
+        expect(() => ImportResolver.fromEnv({ MIDL_SOLIDITY_LIBRARIES: "solmate" })).toThrow("expected package@version");
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MultisigStore } from "../../config/multisig.js";
+import type { MultisigWallet } from "../../utils/multisig.js";
+
+function wallet(overrides: Partial<MultisigWallet> = {}): MultisigWallet {
+    return {
+        name: "treasury",
+        type: "p2wsh",
+        threshold: 2,
+        publicKeys: ["02aa", "02bb", "02cc"],
+        network: "regtest",
+        address: "bcrt1qtreasury",
+        descriptor: "wsh(sortedmulti(2,02aa,02bb,02cc))#checksum",
+        script: "52ae",
+        ...overrides,
+    };
+}
+
+describe("MultisigStore", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), "midl-multisig-"));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("persists wallets across instances", () => {
+        const file = join(dir, "nested", "multisig.json");
+        MultisigStore.fromEnv({ MIDL_MULTISIG_FILE: file }).add(wallet());
+
+        const reloaded = MultisigStore.fromEnv({ MIDL_MULTISIG_FILE: file });
+        expect(reloaded.get("treasury")).toEqual(wallet());
+        expect(reloaded.findByAddress("bcrt1qtreasury")?.name).toBe("treasury");
+    });
+
+    it("filters by network and rejects duplicate names", () => {
+        const store = new MultisigStore();
+        store.add(wallet());
+        store.add(wallet({ name: "cold", network: "testnet", address: "tb1qcold" }));
+
+        expect(store.list("testnet").map(w => w.name)).toEqual(["cold"]);
+        expect(() => store.add(wallet())).toThrow('A multisig wallet named "treasury" already exists.');
+        expect(() => store.get("hot")).toThrow('Unknown multisig wallet "hot". Available: treasury, cold');
+    });
+});
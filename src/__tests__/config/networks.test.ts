@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { NetworkProfiles } from "../../config/networks.js";
+import { AccountManager } from "../../config/accounts.js";
+import { MidlConfigWrapper } from "../../config/midl-config.js";
+
+describe("NetworkProfiles", () => {
+    let dir: string;
+    const createProvider = (profile: any) => ({ url: profile.mempoolUrl }) as any;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), "midl-networks-"));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("uses the built-in profile named by MIDL_NETWORK", () => {
+        const profiles = NetworkProfiles.fromEnv({ MIDL_NETWORK: "testnet4", MIDL_NETWORKS_FILE: "" }, createProvider);
+        expect(profiles.getActive()).toMatchObject({
+            id: "testnet4",
+            network: "testnet",
+            mempoolUrl: "https://mempool.space/testnet4",
+            explorerUrl: "https://mempool.space/testnet4/tx/",
+        });
+        expect(profiles.canSwitch()).toBe(true);
+    });
+
+    it("loads profiles from the file and overrides the mempool URL with MIDL_RPC_URL", () => {
+        const file = join(dir, "networks.json");
+        writeFileSync(file, JSON.stringify({
+            default: "local",
+            profiles: {
+                local: { id: "regtest", mempoolUrl: "http://localhost:8080", evmRpcUrl: "http://localhost:8545" },
+                regtest: { blockscoutUrl: "https://blockscout.example" },
+            },
+        }));
+
+        const profiles = NetworkProfiles.fromEnv({ MIDL_NETWORKS_FILE: file, MIDL_RPC_URL: "http://esplora:3000" }, createProvider);
+        expect(profiles.getActive()).toEqual({
+            name: "local",
+            id: "regtest",
+            network: "regtest",
+            mempoolUrl: "http://esplora:3000",
+            evmRpcUrl: "http://localhost:8545",
+            blockscoutUrl: "https://blockscout.regtest.midl.xyz",
+            explorerUrl: "https://mempool.regtest.midl.xyz/tx/",
+        });
+        expect(profiles.get("regtest").blockscoutUrl).toBe("https://blockscout.example");
+    });
+
+    it("sets the active profile's ord server from MIDL_ORD_URL", () => {
+        const profiles = NetworkProfiles.fromEnv({ MIDL_NETWORK: "mainnet", MIDL_NETWORKS_FILE: "", MIDL_ORD_URL: "http://ord:80" }, createProvider);
+        expect(profiles.getActive()).toMatchObject({ name: "mainnet", mempoolUrl: "https://mempool.space", ordUrl: "http://ord:80" });
+        expect(profiles.get("testnet").ordUrl).toBeUndefined();
+    });
+
+    it("rejects profiles without a known id and unknown names", () => {
+        const file = join(dir, "networks.json");
+        writeFileSync(file, JSON.stringify({ profiles: { custom: { mempoolUrl: "http://x" } } }));
+
+        expect(() => NetworkProfiles.fromEnv({ MIDL_NETWORKS_FILE: file }, createProvider)).toThrow('Network profile "custom" needs an "id"');
+        expect(() => NetworkProfiles.fromEnv({ MIDL_NETWORK: "nope", MIDL_NETWORKS_FILE: "" }, createProvider)).toThrow('Unknown network profile "nope"');
+    });
+});
+
+describe("MidlConfigWrapper.switchNetwork", () => {
+    function setup() {
+        let state: any = {
+            network: { id: "regtest", network: "regtest", explorerUrl: "" },
+            networks: [],
+            provider: { url: "old" },
+        };
+        const config = {
+            getState: () => state,
+            setState: vi.fn((partial: any) => {
+                state = { ...state, ...partial };
+            }),
+        } as any;
+        const connector = {
+            id: "key-pair",
+            connect: vi.fn(async ({ purposes, network }: any) => purposes.map((purpose: string) => ({
+                address: `${network.id}-${purpose}`,
+                publicKey: "pk",
+                purpose,
+                addressType: "p2wpkh",
+            }))),
+        } as any;
+        return { config, connector };
+    }
+
+    it("swaps the network, provider and accounts", async () => {
+        const { config, connector } = setup();
+        const accounts = await AccountManager.connect(config, () => connector, { indexes: [0], purposes: ["payment"] as any });
+        const networks = NetworkProfiles.fromEnv({ MIDL_NETWORK: "regtest", MIDL_NETWORKS_FILE: "" }, profile => ({ url: profile.mempoolUrl }) as any);
+        const midl = new MidlConfigWrapper(config, { accounts, networks });
+
+        const profile = await midl.switchNetwork("testnet4");
+
+        expect(profile.id).toBe("testnet4");
+        expect(midl.getNetworkProfile().name).toBe("testnet4");
+        expect(config.getState().network).toEqual({ id: "testnet4", network: "testnet", explorerUrl: "https://mempool.space/testnet4/tx/" });
+        expect(config.getState().provider).toEqual({ url: "https://mempool.space/testnet4" });
+        expect(config.getState().accounts[0].address).toBe("testnet4-payment");
+    });
+
+    it("refuses mainnet and leaves the config untouched", async () => {
+        const { config, connector } = setup();
+        const accounts = await AccountManager.connect(config, () => connector, { indexes: [0], purposes: ["payment"] as any });
+        const networks = NetworkProfiles.fromEnv({ MIDL_NETWORK: "regtest", MIDL_NETWORKS_FILE: "" }, profile => ({ url: profile.mempoolUrl }) as any);
+        const midl = new MidlConfigWrapper(config, { accounts, networks });
+
+        await expect(midl.switchNetwork("mainnet")).rejects.toThrow("restricted to testnet/regtest");
+        expect(config.getState().network.id).toBe("regtest");
+        expect(midl.getNetworkProfile().name).toBe("regtest");
+    });
+
+    it("restores the previous network when accounts cannot be re-derived", async () => {
+        const { config, connector } = setup();
+        const accounts = await AccountManager.connect(config, () => connector, { indexes: [0], purposes: ["payment"] as any });
+        const networks = NetworkProfiles.fromEnv({ MIDL_NETWORK: "regtest", MIDL_NETWORKS_FILE: "" }, profile => ({ url: profile.mempoolUrl }) as any);
+        const midl = new MidlConfigWrapper(config, { accounts, networks });
+
+        connector.connect.mockRejectedValueOnce(new Error("derivation failed"));
+        await expect(midl.switchNetwork("testnet")).rejects.toThrow("derivation failed");
+        expect(config.getState().network.id).toBe("regtest");
+        expect(config.getState().provider).toEqual({ url: "old" });
+        expect(config.getState().accounts[0].address).toBe("regtest-payment");
+    });
+
+    it("is unavailable without network profiles", async () => {
+        const { config, connector } = setup();
+        const accounts = await AccountManager.connect(config, () => connector, { indexes: [0], purposes: ["payment"] as any });
+        const midl = new MidlConfigWrapper(config, { accounts });
+
+        await expect(midl.switchNetwork("testnet")).rejects.toThrow('Unknown network profile "testnet"');
+    });
+});
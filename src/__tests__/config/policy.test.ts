@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_BROADCAST_LIMITS, SpendingPolicy, broadcastLimitsFromEnv, policyViolationResponse } from "../../config/policy.js";
+
+describe("SpendingPolicy", () => {
+    const recipient = "tb1qrecipient";
+
+    it("should allow everything when no rules are configured", () => {
+        const policy = new SpendingPolicy();
+        expect(policy.check({ recipients: [{ address: recipient, amount: 10_000_000 }], feeRate: 500, fee: 100_000 })).toBeNull();
+        expect(policy.requiresFee()).toBe(false);
+    });
+
+    it("should enforce the per-transaction cap", () => {
+        const policy = new SpendingPolicy({ maxTransactionSats: 50_000 });
+        expect(policy.check({ recipients: [{ address: recipient, amount: 50_000 }] })).toBeNull();
+        expect(policy.check({ recipients: [{ address: recipient, amount: 30_000 }, { address: "tb1qother", amount: 30_000 }] })?.rule)
+            .toBe("maxTransactionSats");
+    });
+
+    it("should enforce the rolling daily cap", () => {
+        let now = 0;
+        const policy = new SpendingPolicy({ dailyCapSats: 100_000 }, () => now);
+
+        policy.recordSpend(80_000);
+        expect(policy.check({ recipients: [{ address: recipient, amount: 30_000 }] })?.rule).toBe("dailyCapSats");
+
+        now = 24 * 60 * 60 * 1000 + 1;
+        expect(policy.getSpentToday()).toBe(0);
+        expect(policy.check({ recipients: [{ address: recipient, amount: 30_000 }] })).toBeNull();
+    });
+
+    it("should release a recorded spend", () => {
+        const policy = new SpendingPolicy({ dailyCapSats: 100_000 });
+        policy.recordSpend(30_000);
+        const release = policy.recordSpend(50_000);
+        expect(policy.getSpentToday()).toBe(80_000);
+
+        release();
+        expect(policy.getSpentToday()).toBe(30_000);
+    });
+
+    it("should enforce allow and deny lists case-insensitively", () => {
+        const allow = new SpendingPolicy({ allowedRecipients: ["0xAbC0000000000000000000000000000000000001"] });
+        expect(allow.check({ recipients: [{ address: "0xabc0000000000000000000000000000000000001", amount: 1 }] })).toBeNull();
+        expect(allow.check({ recipients: [{ address: recipient, amount: 1 }] })?.rule).toBe("allowedRecipients");
+
+        const deny = new SpendingPolicy({ deniedRecipients: [recipient] });
+        expect(deny.check({ recipients: [{ address: recipient, amount: 1 }] })?.rule).toBe("deniedRecipients");
+    });
+
+    it("should enforce fee limits", () => {
+        const policy = new SpendingPolicy({ maxFeeRate: 20, maxFeeSats: 5_000 });
+        expect(policy.requiresFee()).toBe(true);
+        expect(policy.check({ recipients: [], feeRate: 21 })?.rule).toBe("maxFeeRate");
+        expect(policy.check({ recipients: [], feeRate: 10, fee: 5_001 })?.rule).toBe("maxFeeSats");
+        expect(policy.check({ recipients: [], feeRate: 10, fee: 5_000 })).toBeNull();
+    });
+
+    it("should parse rules from the environment", () => {
+        const policy = SpendingPolicy.fromEnv({
+            MIDL_POLICY_MAX_TX_SATS: "1000",
+            MIDL_POLICY_DENIED_RECIPIENTS: "tb1qa, tb1qb",
+        });
+        expect(policy.getRules()).toEqual({ maxTransactionSats: 1000, deniedRecipients: ["tb1qa", "tb1qb"] });
+        expect(() => SpendingPolicy.fromEnv({ MIDL_POLICY_MAX_FEE_RATE: "abc" })).toThrow();
+    });
+
+    it("should format violations as error responses", () => {
+        const response = policyViolationResponse({ rule: "maxFeeRate", message: "too high" });
+        expect(response.isError).toBe(true);
+        expect(response.content[0]!.text).toContain("maxFeeRate");
+    });
+});
+
+describe("broadcastLimitsFromEnv", () => {
+    it("should default to the built-in limits and accept overrides", () => {
+        expect(broadcastLimitsFromEnv({})).toEqual(DEFAULT_BROADCAST_LIMITS);
+        expect(broadcastLimitsFromEnv({ MIDL_MAX_BROADCAST_FEE_SATS: "50000", MIDL_MAX_FEE_RATE_MULTIPLE: "0" }))
+            .toEqual({ maxFeeSats: 50_000, maxFeeRateMultiple: 0 });
+        expect(() => broadcastLimitsFromEnv({ MIDL_MAX_FEE_RATE_MULTIPLE: "-1" })).toThrow();
+    });
+});
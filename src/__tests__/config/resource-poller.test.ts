@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { DEFAULT_POLLER_SETTINGS, ResourcePoller, pollerSettingsFromEnv } from "../../config/resource-poller.js";
+
+const URI = "midl://balance/bcrt1qme";
+
+describe("ResourcePoller", () => {
+    const poller = new ResourcePoller();
+
+    afterEach(() => {
+        poller.stop();
+    });
+
+    it("notifies every listener when the snapshot changes, once per fetch", async () => {
+        let balance = 1_000;
+        const snapshot = vi.fn(async () => String(balance));
+        const first = vi.fn();
+        const second = vi.fn();
+
+        poller.watch(URI, { snapshot, intervalMs: 60_000 }, first);
+        poller.watch(URI, { snapshot, intervalMs: 60_000 }, second);
+        await vi.waitFor(() => expect(snapshot).toHaveBeenCalledTimes(1)); // baseline
+
+        expect(await poller.check(URI)).toBe(false);
+        balance = 2_500;
+        expect(await poller.check(URI)).toBe(true);
+
+        expect(snapshot).toHaveBeenCalledTimes(3);
+        expect(first).toHaveBeenCalledTimes(1);
+        expect(second).toHaveBeenCalledTimes(1);
+        expect(poller.list()).toEqual([{ uri: URI, listeners: 2, intervalMs: 60_000 }]);
+    });
+
+    it("stops polling a URI when its last listener goes away", async () => {
+        const snapshot = vi.fn(async () => "1");
+        const stopFirst = poller.watch(URI, { snapshot, intervalMs: 60_000 }, vi.fn());
+        const stopSecond = poller.watch(URI, { snapshot, intervalMs: 60_000 }, vi.fn());
+
+        stopFirst();
+        expect(poller.list()[0]!.listeners).toBe(1);
+        stopSecond();
+        expect(poller.list()).toEqual([]);
+        expect(await poller.check(URI)).toBe(false);
+    });
+
+    it("keeps the last snapshot when a fetch fails", async () => {
+        const snapshot = vi.fn<() => Promise<string>>().mockResolvedValueOnce("1").mockRejectedValueOnce(new Error("timeout")).mockResolvedValue("1");
+        const listener = vi.fn();
+        poller.watch(URI, { snapshot, intervalMs: 60_000 }, listener);
+        await vi.waitFor(() => expect(snapshot).toHaveBeenCalledTimes(1));
+
+        expect(await poller.check(URI)).toBe(false);
+        expect(await poller.check(URI)).toBe(false);
+        expect(listener).not.toHaveBeenCalled();
+    });
+});
+
+describe("pollerSettingsFromEnv", () => {
+    it("reads the polling intervals", () => {
+        expect(pollerSettingsFromEnv({})).toEqual(DEFAULT_POLLER_SETTINGS);
+        expect(pollerSettingsFromEnv({ MIDL_POLL_INTERVAL_MS: "10000", MIDL_POLL_BLOCK_INTERVAL_MS: "5000" }))
+            .toEqual({ addressIntervalMs: 10_000, blockIntervalMs: 5_000 });
+        expect(() => pollerSettingsFromEnv({ MIDL_POLL_INTERVAL_MS: "10" })).toThrow("must be at least 1000 ms");
+    });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from "vitest";
+import { DEFAULT_TRACKER_SETTINGS, TransactionTracker, trackedUri, trackerSettingsFromEnv, type TrackerObservation } from "../../config/tracker.js";
+
+const TXID = "a".repeat(64);
+const HASH = `0x${"b".repeat(64)}`;
+const SETTINGS = { intervalMs: 0, confirmations: 2, maxMisses: 2 };
+
+// A check that replays the given observations, repeating the last one
+function sequence(...observations: TrackerObservation[]) {
+    let i = 0;
+    return vi.fn(async () => observations[Math.min(i++, observations.length - 1)]!);
+}
+
+describe("TransactionTracker", () => {
+    it("moves from pending through confirming to confirmed and notifies each change", async () => {
+        const tracker = new TransactionTracker(SETTINGS);
+        const updates: string[] = [];
+        tracker.onUpdate(tx => updates.push(`${tx.status}:${tx.confirmations}`));
+
+        const check = sequence(
+            { found: true, confirmations: 0 },
+            { found: true, confirmations: 0 },
+            { found: true, confirmations: 1, blockNumber: 100 },
+            { found: true, confirmations: 2, blockNumber: 100 },
+        );
+        expect(tracker.track({ id: TXID.toUpperCase(), kind: "btc", check, label: "payment" })).toMatchObject({
+            id: TXID, status: "pending", targetConfirmations: 2, label: "payment",
+        });
+
+        for (let i = 0; i < 5; i++) await tracker.poll();
+
+        expect(updates).toEqual(["confirming:1", "confirmed:2"]);
+        expect(tracker.get(TXID)).toMatchObject({ status: "confirmed", confirmations: 2, blockNumber: 100 });
+        expect(check).toHaveBeenCalledTimes(4); // final statuses are no longer checked
+    });
+
+    it("reports a transaction as dropped after repeated misses", async () => {
+        const tracker = new TransactionTracker(SETTINGS);
+        tracker.track({ id: TXID, kind: "btc", check: sequence({ found: true, confirmations: 0 }, { found: false }) });
+
+        await tracker.poll();
+        await tracker.poll();
+        expect(tracker.get(TXID)!.status).toBe("pending");
+        await tracker.poll();
+        expect(tracker.get(TXID)).toMatchObject({ status: "dropped", message: "No longer in the mempool or a block." });
+    });
+
+    it("reports replacements and drops EVM transactions whose anchor was replaced", async () => {
+        const tracker = new TransactionTracker(SETTINGS);
+        const replacement = "c".repeat(64);
+        tracker.track({ id: TXID, kind: "btc", check: sequence({ found: false, replacedBy: replacement }) });
+        const evmCheck = sequence({ found: true, confirmations: 0 });
+        tracker.track({ id: HASH, kind: "evm", check: evmCheck, anchorTxId: TXID });
+
+        await tracker.poll();
+
+        expect(tracker.get(TXID)).toMatchObject({ status: "replaced", replacedBy: replacement });
+        expect(tracker.get(HASH)).toMatchObject({ status: "dropped", message: `Anchor transaction ${TXID} was replaced.` });
+        expect(evmCheck).not.toHaveBeenCalled();
+    });
+
+    it("marks reverted EVM transactions as failed and retries after check errors", async () => {
+        const tracker = new TransactionTracker(SETTINGS);
+        const check = vi.fn<() => Promise<TrackerObservation>>()
+            .mockRejectedValueOnce(new Error("rpc down"))
+            .mockResolvedValue({ found: true, confirmations: 3, blockNumber: 7, failed: true });
+        tracker.track({ id: HASH, kind: "evm", check, confirmations: 1 });
+
+        await tracker.poll();
+        expect(tracker.get(HASH)!.status).toBe("pending");
+        await tracker.poll();
+        expect(tracker.get(HASH)).toMatchObject({ status: "failed", blockNumber: 7, message: "The transaction reverted." });
+        expect(tracker.list()).toHaveLength(1);
+    });
+});
+
+describe("trackerSettingsFromEnv", () => {
+    it("reads the interval and confirmation depth", () => {
+        expect(trackerSettingsFromEnv({})).toEqual(DEFAULT_TRACKER_SETTINGS);
+        expect(trackerSettingsFromEnv({ MIDL_TRACK_INTERVAL_MS: "5000", MIDL_TRACK_CONFIRMATIONS: "3" }))
+            .toEqual({ ...DEFAULT_TRACKER_SETTINGS, intervalMs: 5000, confirmations: 3 });
+        expect(() => trackerSettingsFromEnv({ MIDL_TRACK_CONFIRMATIONS: "0" })).toThrow("Invalid MIDL_TRACK_CONFIRMATIONS");
+        expect(() => trackerSettingsFromEnv({ MIDL_TRACK_INTERVAL_MS: "soon" })).toThrow("Invalid MIDL_TRACK_INTERVAL_MS");
+    });
+
+    it("builds resource URIs", () => {
+        expect(trackedUri(TXID)).toBe(`midl://tracked/${TXID}`);
+    });
+});
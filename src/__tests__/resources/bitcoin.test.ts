@@ -1,6 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { registerResources } from "../../resources/bitcoin.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { registerResources, registerResourceSubscriptions } from "../../resources/bitcoin.js";
 import { MidlConfigWrapper } from "../../config/midl-config.js";
+import { ResourcePoller } from "../../config/resource-poller.js";
 import * as midlCore from "@midl/core";
 
 vi.mock("@midl/core", () => ({
@@ -28,8 +33,8 @@ describe("Bitcoin Resources", () => {
     });
 
     it("should register bitcoin-balance, bitcoin-utxos, and bitcoin-block-height", () => {
-        expect(mockServer.resource).toHaveBeenCalledWith("bitcoin-balance", expect.any(String), expect.any(Object), expect.any(Function));
-        expect(mockServer.resource).toHaveBeenCalledWith("bitcoin-utxos", expect.any(String), expect.any(Object), expect.any(Function));
+        expect(mockServer.resource).toHaveBeenCalledWith("bitcoin-balance", expect.any(ResourceTemplate), expect.any(Object), expect.any(Function));
+        expect(mockServer.resource).toHaveBeenCalledWith("bitcoin-utxos", expect.any(ResourceTemplate), expect.any(Object), expect.any(Function));
         expect(mockServer.resource).toHaveBeenCalledWith("bitcoin-block-height", expect.any(String), expect.any(Object), expect.any(Function));
     });
 
@@ -40,7 +45,7 @@ describe("Bitcoin Resources", () => {
 
         const handler = handlers["bitcoin-balance"];
         const uri = new URL(`midl://balance/${address}`);
-        const result = await handler(uri, {});
+        const result = await handler(uri, { address });
 
         expect(midlCore.getBalance).toHaveBeenCalledWith(expect.anything(), address);
         expect(result.contents[0].text).toContain("0.01000000 BTC");
@@ -54,7 +59,7 @@ describe("Bitcoin Resources", () => {
 
         const handler = handlers["bitcoin-utxos"];
         const uri = new URL(`midl://utxos/${address}`);
-        const result = await handler(uri, {});
+        const result = await handler(uri, { address });
 
         expect(midlCore.getUTXOs).toHaveBeenCalledWith(expect.anything(), address);
         expect(JSON.parse(result.contents[0].text)).toEqual(mockUtxos);
@@ -72,3 +77,103 @@ describe("Bitcoin Resources", () => {
         expect(result.contents[0].text).toContain(blockHeight.toString());
     });
 });
+
+describe("Bitcoin Resource Templates", () => {
+    const account = "tb1qaccount";
+    const multisig = "tb1qmultisig";
+
+    async function connect() {
+        const server = new McpServer({ name: "test", version: "1.0.0" });
+        registerResources(server, {
+            getConfig: () => ({}),
+            getNetworkName: () => "testnet",
+            getAccountManager: () => ({ getAllAccounts: () => [{ address: account, purpose: "payment", addressType: "p2wpkh" }] }),
+            getMultisigStore: () => ({ list: () => [{ address: multisig }] }),
+            getOwnAddresses: () => new Set([account, multisig]),
+        } as unknown as MidlConfigWrapper);
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        const client = new Client({ name: "test-client", version: "1.0.0" });
+        await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+        return client;
+    }
+
+    it("lists templates and the accounts' concrete URIs", async () => {
+        const client = await connect();
+
+        const { resourceTemplates } = await client.listResourceTemplates();
+        expect(resourceTemplates.map(t => t.uriTemplate)).toEqual(expect.arrayContaining([
+            "midl://balance/{address}",
+            "midl://utxos/{address}",
+            "midl://tx/{txid}",
+        ]));
+
+        const { resources } = await client.listResources();
+        expect(resources.map(r => r.uri)).toEqual(expect.arrayContaining([`midl://balance/${account}`, `midl://utxos/${account}`]));
+        await client.close();
+    });
+
+    it("reads a templated URI and completes addresses", async () => {
+        const client = await connect();
+        vi.mocked(midlCore.getBalance).mockResolvedValue(2_000);
+
+        const result = await client.readResource({ uri: `midl://balance/${account}` });
+        expect(midlCore.getBalance).toHaveBeenCalledWith(expect.anything(), account);
+        expect((result.contents[0] as { text: string }).text).toContain(account);
+
+        const completion = await client.complete({
+            ref: { type: "ref/resource", uri: "midl://balance/{address}" },
+            argument: { name: "address", value: "TB1QM" },
+        });
+        expect(completion.completion.values).toEqual([multisig]);
+        await client.close();
+    });
+});
+
+describe("Bitcoin Resource Subscriptions", () => {
+    const address = "tb1qtestaddress";
+    const uri = `midl://balance/${address}`;
+
+    async function connect(poller: ResourcePoller) {
+        const server = new McpServer({ name: "test", version: "1.0.0" });
+        registerResourceSubscriptions(server, { getConfig: () => ({}), getResourcePoller: () => poller } as unknown as MidlConfigWrapper);
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        const client = new Client({ name: "test-client", version: "1.0.0" });
+        await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+        return client;
+    }
+
+    it("polls subscribed balances and notifies when they change", async () => {
+        const poller = new ResourcePoller();
+        const client = await connect(poller);
+        const updated: string[] = [];
+        client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+            updated.push(notification.params.uri);
+        });
+
+        vi.mocked(midlCore.getBalance).mockResolvedValue(1_000);
+        await client.subscribeResource({ uri });
+        await client.subscribeResource({ uri: "midl://fee-rates" });
+        expect(poller.list()).toEqual([{ uri, listeners: 1, intervalMs: 30_000 }]);
+        await vi.waitFor(() => expect(midlCore.getBalance).toHaveBeenCalledWith(expect.anything(), address));
+
+        vi.mocked(midlCore.getBalance).mockResolvedValue(5_000);
+        await poller.check(uri);
+        await vi.waitFor(() => expect(updated).toEqual([uri]));
+
+        await client.unsubscribeResource({ uri });
+        expect(poller.list()).toEqual([]);
+        await client.close();
+    });
+
+    it("stops polling when the session closes", async () => {
+        const poller = new ResourcePoller();
+        const client = await connect(poller);
+        vi.mocked(midlCore.getBlockNumber).mockResolvedValue(100);
+
+        await client.subscribeResource({ uri: "midl://block-height" });
+        expect(poller.list()).toEqual([{ uri: "midl://block-height", listeners: 1, intervalMs: 15_000 }]);
+
+        await client.close();
+        await vi.waitFor(() => expect(poller.list()).toEqual([]));
+    });
+});
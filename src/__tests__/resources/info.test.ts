@@ -1,4 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
 import { registerExtraResources } from "../../resources/info.js";
 import { MidlConfigWrapper } from "../../config/midl-config.js";
 import * as midlCore from "@midl/core";
@@ -8,6 +11,7 @@ vi.mock("@midl/core", () => ({
     getDefaultAccount: vi.fn(),
     getRune: vi.fn(),
     getRuneBalance: vi.fn(),
+    getRunes: vi.fn(),
 }));
 
 describe("Extra Resources", () => {
@@ -36,7 +40,7 @@ describe("Extra Resources", () => {
 
         const handler = handlers["rune-info"];
         const uri = new URL(`midl://rune/${runeId}`);
-        const result = await handler(uri);
+        const result = await handler(uri, { runeId });
 
         expect(midlCore.getRune).toHaveBeenCalledWith(expect.anything(), runeId);
         expect(JSON.parse(result.contents[0].text)).toEqual(mockRune);
@@ -50,9 +54,45 @@ describe("Extra Resources", () => {
 
         const handler = handlers["rune-balance"];
         const uri = new URL(`midl://rune-balance/${address}/${runeId}`);
-        const result = await handler(uri);
+        const result = await handler(uri, { address, runeId });
 
         expect(midlCore.getRuneBalance).toHaveBeenCalledWith(expect.anything(), { address, runeId });
         expect(result.contents[0].text).toContain(balance);
     });
+
+    it("lists held runes and completes rune IDs for the chosen address", async () => {
+        const holder = "tb1qholder";
+        const other = "tb1qother";
+        vi.mocked(midlCore.getRunes).mockImplementation(async (_config: unknown, { address }: { address: string }) => {
+            if (address === other) throw new Error("indexer unavailable");
+            return { results: [{ rune: { id: "840000:3", spaced_name: "DOG•GO•TO•THE•MOON" } }] };
+        });
+
+        const server = new McpServer({ name: "test", version: "1.0.0" });
+        registerExtraResources(server, {
+            getConfig: () => ({}),
+            getNetworkName: () => "testnet",
+            getAccountManager: () => ({ getAllAccounts: () => [{ address: holder }, { address: other }] }),
+            getMultisigStore: () => ({ list: () => [] }),
+        } as unknown as MidlConfigWrapper);
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        const client = new Client({ name: "test-client", version: "1.0.0" });
+        await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+        const { resources } = await client.listResources();
+        expect(resources.map(r => r.uri)).toEqual(expect.arrayContaining([
+            "midl://rune/840000:3",
+            `midl://rune-balance/${holder}/840000:3`,
+        ]));
+        expect(resources.map(r => r.uri)).not.toContain(`midl://rune-balance/${other}/840000:3`);
+
+        const completion = await client.complete({
+            ref: { type: "ref/resource", uri: "midl://rune-balance/{address}/{runeId}" },
+            argument: { name: "runeId", value: "840" },
+            context: { arguments: { address: holder } },
+        });
+        expect(completion.completion.values).toEqual(["840000:3"]);
+        expect(midlCore.getRunes).toHaveBeenLastCalledWith(expect.anything(), { address: holder, limit: 50 });
+        await client.close();
+    });
 });
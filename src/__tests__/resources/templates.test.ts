@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { completeFrom, getKnownAddresses, getTemplateVariable } from "../../resources/templates.js";
+import { MidlConfigWrapper } from "../../config/midl-config.js";
+import { AccountManager } from "../../config/accounts.js";
+import { MultisigStore } from "../../config/multisig.js";
+import type { MultisigWallet } from "../../utils/multisig.js";
+
+describe("Resource Template Helpers", () => {
+    it("reads and decodes template variables", () => {
+        expect(getTemplateVariable({ runeId: "840000%3A3" }, "runeId")).toBe("840000:3");
+        expect(getTemplateVariable({ address: ["tb1qfirst", "tb1qsecond"] }, "address")).toBe("tb1qfirst");
+        expect(() => getTemplateVariable({}, "address")).toThrow("Missing address");
+    });
+
+    it("completes by case-insensitive prefix without duplicates", () => {
+        expect(completeFrom(["tb1qAbc", "tb1qabd", "bc1qxyz", "tb1qAbc"], "TB1QAB")).toEqual(["tb1qAbc", "tb1qabd"]);
+        expect(completeFrom(Array.from({ length: 150 }, (_, i) => `id${i}`), "")).toHaveLength(100);
+    });
+
+    it("knows account and multisig addresses for the active network", () => {
+        const state = { network: { id: "regtest", network: "regtest" }, connection: "keyPair" };
+        const config = { getState: () => state, setState: (update: object) => Object.assign(state, update) };
+        const accounts = new AccountManager(config as any, [
+            { index: 0, connection: {} as any, accounts: [{ address: "bcrt1qaccount" }] as any, derived: true },
+            { index: 1, connection: {} as any, accounts: [{ address: "bcrt1qsubaccount" }] as any, derived: true },
+        ]);
+        const multisig = new MultisigStore();
+        multisig.add({ name: "vault", network: "regtest", address: "bcrt1qmultisig" } as MultisigWallet);
+        multisig.add({ name: "other", network: "testnet", address: "tb1qmultisig" } as MultisigWallet);
+        const midl = new MidlConfigWrapper(config as any, { accounts, multisig });
+
+        expect([...midl.getOwnAddresses()]).toEqual(["bcrt1qaccount", "bcrt1qsubaccount", "bcrt1qmultisig"]);
+        expect(getKnownAddresses(midl)).toEqual(["bcrt1qaccount", "bcrt1qsubaccount", "bcrt1qmultisig"]);
+    });
+});
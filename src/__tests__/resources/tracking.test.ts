@@ -0,0 +1,66 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { registerTrackingResources } from "../../resources/tracking.js";
+import { TransactionTracker, type TrackerObservation } from "../../config/tracker.js";
+import { MidlConfigWrapper } from "../../config/midl-config.js";
+
+const TXID = "a".repeat(64);
+
+describe("Tracking Resources", () => {
+    let client: Client;
+
+    afterEach(async () => {
+        await client?.close();
+    });
+
+    async function connect(tracker: TransactionTracker) {
+        const server = new McpServer({ name: "test", version: "1.0.0" });
+        registerTrackingResources(server, { getTracker: () => tracker } as unknown as MidlConfigWrapper);
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        client = new Client({ name: "test-client", version: "1.0.0" });
+        await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+        return server;
+    }
+
+    it("lists and reads tracked transactions", async () => {
+        const tracker = new TransactionTracker({ intervalMs: 0, confirmations: 1, maxMisses: 3 });
+        tracker.track({ id: TXID, kind: "btc", check: async () => ({ found: true, confirmations: 0 }), label: "payment" });
+        await connect(tracker);
+
+        const { resources } = await client.listResources();
+        expect(resources).toContainEqual(expect.objectContaining({ uri: `midl://tracked/${TXID}`, name: "payment" }));
+
+        const result = await client.readResource({ uri: `midl://tracked/${TXID}` });
+        expect(JSON.parse((result.contents[0] as { text: string }).text)).toMatchObject({ id: TXID, status: "pending" });
+        await expect(client.readResource({ uri: `midl://tracked/${"f".repeat(64)}` })).rejects.toThrow("is not tracked");
+
+        const completion = await client.complete({
+            ref: { type: "ref/resource", uri: "midl://tracked/{id}" },
+            argument: { name: "id", value: "aaa" },
+        });
+        expect(completion.completion.values).toEqual([TXID]);
+    });
+
+    it("notifies subscribed sessions when the status changes", async () => {
+        const tracker = new TransactionTracker({ intervalMs: 0, confirmations: 1, maxMisses: 3 });
+        let observation: TrackerObservation = { found: true, confirmations: 0 };
+        tracker.track({ id: TXID, kind: "btc", check: async () => observation });
+        await connect(tracker);
+
+        const updated: string[] = [];
+        client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+            updated.push(notification.params.uri);
+        });
+        expect(client.getServerCapabilities()?.resources?.subscribe).toBe(true);
+        await client.subscribeResource({ uri: `midl://tracked/${TXID}` });
+
+        observation = { found: true, confirmations: 1, blockNumber: 5 };
+        await tracker.poll();
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        expect(updated).toEqual([`midl://tracked/${TXID}`]);
+    });
+});
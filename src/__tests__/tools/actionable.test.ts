@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import ecc from "@bitcoinerlab/secp256k1";
+import { Transaction, address as btcAddress, networks } from "bitcoinjs-lib";
+import { registerActionableTools } from "../../tools/actionable.js";
+import { MidlConfigWrapper } from "../../config/midl-config.js";
+import { DEFAULT_BROADCAST_LIMITS, SpendingPolicy } from "../../config/policy.js";
+import { AuditLog } from "../../config/audit-log.js";
+import { TransactionTracker } from "../../config/tracker.js";
+import { createMultisigWallet } from "../../utils/multisig.js";
+import * as midlCore from "@midl/core";
+
+vi.mock("@midl/core", () => ({
+    broadcastTransaction: vi.fn(),
+    getFeeRate: vi.fn(),
+    transferBTC: vi.fn(),
+    signPSBT: vi.fn(),
+    getDefaultAccount: vi.fn(),
+    getUTXOs: vi.fn(),
+    SignMessageProtocol: { Bip322: "bip322" },
+}));
+
+vi.mock("@midl/executor", () => ({
+    addTxIntention: vi.fn(),
+    finalizeBTCTransaction: vi.fn(),
+    getEVMFromBitcoinNetwork: vi.fn(),
+    getEVMAddress: vi.fn(),
+    signIntention: vi.fn(),
+}));
+
+const network = networks.regtest;
+const OWN = "bcrt1qqyqszqgpqyqszqgpqyqszqgpqyqszqgpvxat9t";
+const EXTERNAL = "bcrt1qqgpqyqszqgpqyqszqgpqyqszqgpqyqszazmwwa";
+
+const publicKeys = [1, 2, 3].map(n => Buffer.from(ecc.pointFromScalar(Buffer.alloc(32, n), true)!).toString("hex"));
+const wallet = createMultisigWallet({ name: "vault", type: "p2wsh", threshold: 2, publicKeys }, network, "regtest");
+
+// Funding transaction paying the multisig, and a signed spend sending 30k out with the change back to it
+const funding = new Transaction();
+funding.addInput(Buffer.alloc(32, 9), 0);
+funding.addOutput(btcAddress.toOutputScript(wallet.address, network), 100_000n);
+
+function buildSpend(): string {
+    const spend = new Transaction();
+    spend.addInput(Buffer.from(funding.getId(), "hex").reverse(), 0, 0xfffffffd);
+    spend.addOutput(btcAddress.toOutputScript(EXTERNAL, network), 30_000n);
+    spend.addOutput(btcAddress.toOutputScript(wallet.address, network), 69_000n);
+    spend.setWitness(0, [Buffer.alloc(0), Buffer.alloc(71, 1), Buffer.alloc(71, 2), Buffer.from(wallet.script, "hex")]);
+    return spend.toHex();
+}
+
+describe("Broadcast Tools", () => {
+    const tools: Record<string, Function> = {};
+    let policy: SpendingPolicy;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        policy = new SpendingPolicy({ allowedRecipients: [EXTERNAL], maxTransactionSats: 50_000, dailyCapSats: 60_000 });
+        const config = {
+            getState: () => ({
+                network: { id: "regtest", network: "regtest", explorerUrl: "https://mempool.regtest.midl.xyz/tx/" },
+                accounts: [{ address: OWN, purpose: "payment" }],
+                provider: { getTransactionHex: vi.fn(async () => funding.toHex()) },
+            }),
+        };
+        const mockServer = {
+            registerTool: vi.fn().mockImplementation((name, _config, handler) => {
+                tools[name] = handler;
+            }),
+            server: { registerCapabilities: vi.fn(), setRequestHandler: vi.fn() },
+            isConnected: () => false,
+        };
+        const midl = {
+            getConfig: () => config,
+            getPolicy: () => policy,
+            getAuditLog: () => new AuditLog(),
+            getNetworkName: () => "regtest",
+            getNetworkProfile: () => ({ name: "regtest", mempoolUrl: "https://mempool.regtest.midl.xyz" }),
+            getBroadcastLimits: () => DEFAULT_BROADCAST_LIMITS,
+            getAccountManager: () => ({ getAllAccounts: () => [{ address: OWN }] }),
+            getMultisigStore: () => ({ list: (name?: string) => (name === "regtest" ? [wallet] : []) }),
+            getOwnAddresses: () => new Set([OWN, wallet.address]),
+            getPendingIntentions: () => ({ get: () => [] }),
+            getTracker: () => new TransactionTracker({ intervalMs: 0, confirmations: 1, maxMisses: 3 }),
+        } as unknown as MidlConfigWrapper;
+        registerActionableTools(mockServer as any, midl);
+
+        vi.mocked(midlCore.getFeeRate).mockResolvedValue({ fastestFee: 10 } as any);
+        vi.mocked(midlCore.broadcastTransaction).mockImplementation(async (_config: unknown, hex: string) => Transaction.fromHex(hex).getId());
+        vi.stubGlobal("fetch", vi.fn(async () => ({ ok: true, json: async () => ({ spent: false }) })));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("treats multisig change as owned when checking an allow-list policy", async () => {
+        const result = await tools["broadcast-transaction"]!({ txHex: buildSpend() });
+
+        expect(result.isError).toBeUndefined();
+        expect(midlCore.broadcastTransaction).toHaveBeenCalled();
+        // Only the 30k payment counts towards the daily cap, not the 69k change
+        expect(policy.check({ recipients: [{ address: EXTERNAL, amount: 30_000 }] })).toBeNull();
+        expect(policy.check({ recipients: [{ address: EXTERNAL, amount: 30_001 }] })?.rule).toBe("dailyCapSats");
+    });
+
+    it("broadcasts an approved multisig spend under an allow-list policy", async () => {
+        const sendRequest = vi.fn(async () => ({ action: "accept", content: { confirm: true } }));
+        const result = await tools["request-transaction-broadcast"]!({ txHex: buildSpend() }, { sendRequest });
+
+        expect(result.isError).toBeUndefined();
+        expect(result.structuredContent.txId).toBe(Transaction.fromHex(buildSpend()).getId());
+    });
+
+    it("re-checks the daily cap after approval so concurrent broadcasts cannot exceed it", async () => {
+        policy.recordSpend(20_000);
+        // Hold both approvals until both requests have passed the initial policy check
+        let approve!: () => void;
+        const approved = new Promise<void>(resolve => { approve = resolve; });
+        const sendRequest = vi.fn(async () => {
+            if (sendRequest.mock.calls.length === 2) approve();
+            await approved;
+            return { action: "accept", content: { confirm: true } };
+        });
+
+        const results = await Promise.all([
+            tools["request-transaction-broadcast"]!({ txHex: buildSpend() }, { sendRequest }),
+            tools["request-transaction-broadcast"]!({ txHex: buildSpend() }, { sendRequest }),
+        ]);
+
+        expect(sendRequest).toHaveBeenCalledTimes(2);
+        expect(results.filter(r => r.isError)).toHaveLength(1);
+        expect(results.find(r => r.isError).content[0].text).toContain("dailyCapSats");
+        expect(midlCore.broadcastTransaction).toHaveBeenCalledTimes(1);
+        expect(policy.getSpentToday()).toBe(50_000);
+    });
+
+    it("releases the reserved spend when the broadcast fails", async () => {
+        vi.mocked(midlCore.broadcastTransaction).mockRejectedValueOnce(new Error("bad-txns-inputs-missingorspent"));
+        const result = await tools["broadcast-transaction"]!({ txHex: buildSpend() });
+
+        expect(result.isError).toBe(true);
+        expect(policy.getSpentToday()).toBe(0);
+    });
+});
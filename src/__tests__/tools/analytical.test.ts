@@ -1,6 +1,7 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { registerTools } from "../../tools/analytical.js";
 import { MidlConfigWrapper } from "../../config/midl-config.js";
+import { ImportResolver } from "../../config/import-resolver.js";
 import * as midlCore from "@midl/core";
 import coinSelect from "bitcoinselect";
 
@@ -14,6 +15,14 @@ vi.mock("bitcoinselect", () => ({
     default: vi.fn(),
 }));
 
+const OWN = "bcrt1qqyqszqgpqyqszqgpqyqszqgpqyqszqgpvxat9t";
+const EXTERNAL = "bcrt1qqgpqyqszqgpqyqszqgpqyqszqgpqyqszazmwwa";
+
+const noRunes = {
+    getRunes: vi.fn(async () => ({ total: 0, results: [] })),
+    getRuneUTXOs: vi.fn(async () => []),
+};
+
 describe("Analytical Tools", () => {
     let mockServer: any;
     let mockMidl: MidlConfigWrapper;
@@ -21,33 +30,153 @@ describe("Analytical Tools", () => {
 
     beforeEach(() => {
         mockServer = {
-            tool: vi.fn().mockImplementation((name, description, schema, handler) => {
+            registerTool: vi.fn().mockImplementation((name, config, handler) => {
                 tools[name] = handler;
             }),
         };
         mockMidl = {
             getConfig: vi.fn().mockReturnValue({
-                getState: vi.fn().mockReturnValue({ accounts: [{ address: "addr1" }] }),
+                getState: vi.fn().mockReturnValue({
+                    network: { id: "regtest", network: "regtest" },
+                    accounts: [{ address: OWN, purpose: "payment" }],
+                    runesProvider: noRunes,
+                }),
             }),
+            getNetworkName: vi.fn().mockReturnValue("regtest"),
+            getNetworkProfile: vi.fn().mockReturnValue({ name: "regtest", mempoolUrl: "https://mempool.regtest.midl.xyz", ordUrl: "http://ord.local" }),
+            getMultisigStore: vi.fn().mockReturnValue({ findByAddress: vi.fn() }),
+            getOwnAddresses: vi.fn().mockReturnValue(new Set([OWN])),
+            getImportResolver: vi.fn().mockReturnValue(new ImportResolver()),
         } as any;
         registerTools(mockServer, mockMidl);
+        // The ord server knows no inscribed outputs
+        vi.stubGlobal("fetch", vi.fn(async () => ({ ok: true, json: async () => [] })));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
     });
 
     it("should register analytical tools", () => {
-        expect(mockServer.tool).toHaveBeenCalledWith("estimate-btc-transfer-fee", expect.any(String), expect.any(Object), expect.any(Function));
-        expect(mockServer.tool).toHaveBeenCalledWith("decode-psbt", expect.any(String), expect.any(Object), expect.any(Function));
+        expect(mockServer.registerTool).toHaveBeenCalledWith("estimate-btc-transfer-fee", expect.objectContaining({ outputSchema: expect.any(Object) }), expect.any(Function));
+        expect(mockServer.registerTool).toHaveBeenCalledWith("decode-psbt", expect.objectContaining({ outputSchema: expect.any(Object) }), expect.any(Function));
     });
 
     it("should handle estimate-btc-transfer-fee", async () => {
-        const mockAccount = { address: "addr1" };
+        const mockAccount = { address: OWN };
         vi.mocked(midlCore.getFeeRate).mockResolvedValue({ hourFee: 10 } as any);
         vi.mocked(midlCore.getUTXOs).mockResolvedValue([]);
         vi.mocked(midlCore.getDefaultAccount).mockReturnValue(mockAccount as any);
         vi.mocked(coinSelect).mockReturnValue({ fee: 500, inputs: [{}], outputs: [{}] } as any);
 
         const handler = tools["estimate-btc-transfer-fee"];
-        const result = await handler({ recipients: [{ address: "addr2", amount: 1000 }] });
+        const result = await handler({ recipients: [{ address: EXTERNAL, amount: 1000 }] });
 
         expect(result.content[0].text).toContain("500 satoshis");
+        expect(result.structuredContent).toEqual({ fee: 500, feeRate: 10, inputCount: 1, outputCount: 1 });
+    });
+
+    it("estimates a sendMax transfer with coin control", async () => {
+        vi.mocked(midlCore.getDefaultAccount).mockReturnValue({ address: OWN } as any);
+        vi.mocked(midlCore.getUTXOs).mockResolvedValue([
+            { txid: "a".repeat(64), vout: 0, value: 40_000 },
+            { txid: "b".repeat(64), vout: 1, value: 10_000 },
+        ] as any);
+
+        const result = await tools["estimate-btc-transfer-fee"]!({
+            recipients: [{ address: EXTERNAL }],
+            feeRate: 2,
+            sendMax: true,
+            exclude: [`${"b".repeat(64)}:1`],
+        });
+
+        expect(result.structuredContent).toMatchObject({ feeRate: 2, inputCount: 1, outputCount: 1, inputs: [`${"a".repeat(64)}:0`] });
+        expect(result.structuredContent.maxAmount).toBe(40_000 - result.structuredContent.fee);
+        expect(coinSelect).not.toHaveBeenCalledWith(expect.anything(), expect.anything(), 2);
+    });
+
+    it("leaves rune UTXOs out of estimate-btc-transfer-fee selection", async () => {
+        const runeOutpoint = `${"a".repeat(64)}:0`;
+        vi.mocked(mockMidl.getConfig().getState).mockReturnValue({
+            network: { id: "regtest", network: "regtest" },
+            accounts: [{ address: OWN, purpose: "payment" }],
+            runesProvider: {
+                getRunes: vi.fn(async () => ({ total: 1, results: [{ rune: { id: "1:1", spaced_name: "TEST•RUNE" } }] })),
+                getRuneUTXOs: vi.fn(async () => [{ txid: "a".repeat(64), vout: 0, runes: [{ runeid: "1:1", amount: 5n }] }]),
+            },
+        } as any);
+        vi.mocked(midlCore.getDefaultAccount).mockReturnValue({ address: OWN } as any);
+        vi.mocked(midlCore.getUTXOs).mockResolvedValue([
+            { txid: "a".repeat(64), vout: 0, value: 40_000 },
+            { txid: "b".repeat(64), vout: 1, value: 10_000 },
+        ] as any);
+
+        const result = await tools["estimate-btc-transfer-fee"]!({ recipients: [{ address: EXTERNAL, amount: 5_000 }], feeRate: 2 });
+        expect(result.structuredContent.inputs).toEqual([`${"b".repeat(64)}:1`]);
+        expect(result.content[0].text).toContain("Excluded 1 rune/inscription UTXO(s)");
+
+        const included = await tools["estimate-btc-transfer-fee"]!({ recipients: [{ address: EXTERNAL, amount: 5_000 }], include: [runeOutpoint] });
+        expect(included.isError).toBe(true);
+        expect(included.content[0].text).toContain("carries 5 TEST•RUNE; set allowAssetUtxos to spend it.");
+    });
+
+    it("refuses estimate-btc-transfer-fee when an asset indexer is down unless allowAssetUtxos is set", async () => {
+        vi.stubGlobal("fetch", vi.fn(async () => { throw new TypeError("fetch failed"); }));
+        vi.mocked(midlCore.getDefaultAccount).mockReturnValue({ address: OWN } as any);
+        vi.mocked(midlCore.getUTXOs).mockResolvedValue([{ txid: "a".repeat(64), vout: 0, value: 40_000 }] as any);
+
+        const refused = await tools["estimate-btc-transfer-fee"]!({ recipients: [{ address: EXTERNAL, amount: 5_000 }], feeRate: 2, strategy: "largest-first" });
+        expect(refused.isError).toBe(true);
+        expect(refused.content[0].text).toContain(`Could not check ${OWN} for inscriptions: fetch failed`);
+
+        const allowed = await tools["estimate-btc-transfer-fee"]!({ recipients: [{ address: EXTERNAL, amount: 5_000 }], feeRate: 2, strategy: "largest-first", allowAssetUtxos: true });
+        expect(allowed.isError).toBeUndefined();
+    });
+
+    it("rejects estimate-btc-transfer-fee recipients from another network", async () => {
+        vi.mocked(midlCore.getDefaultAccount).mockReturnValue({ address: OWN } as any);
+
+        const result = await tools["estimate-btc-transfer-fee"]!({ recipients: [{ address: "bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq", amount: 1000 }] });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toBe("Error: Invalid recipient: bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq is a mainnet address, but the server is on regtest.");
+    });
+
+    it("classifies addresses with validate-bitcoin-address", async () => {
+        const handler = tools["validate-bitcoin-address"]!;
+
+        const own = await handler({ address: OWN });
+        expect(own.structuredContent).toMatchObject({ valid: true, type: "p2wpkh", owned: true, owner: "payment account" });
+
+        const taproot = await handler({ address: "bcrt1pqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqs7r922v" });
+        expect(taproot.structuredContent).toMatchObject({ valid: true, type: "p2tr", owned: false });
+
+        const invalid = await handler({ address: "not-an-address" });
+        expect(invalid.isError).toBe(true);
+        expect(invalid.content[0].text).toBe("Invalid address: not-an-address is not a valid Bitcoin address.");
+    });
+
+    it("reports compile-contract results without preparing a transaction", async () => {
+        const handler = tools["compile-contract"]!;
+
+        const ok = await handler({
+            sources: { "Store.sol": "// SPDX-License-Identifier: MIT\npragma solidity ^0.8.0;\ncontract Store { uint256 public value; }\n" },
+            evmVersion: "paris",
+            viaIR: true,
+        });
+        expect(ok.isError).toBeUndefined();
+        expect(ok.content[0].text).toContain("(optimizer off, EVM paris, via IR)");
+        expect(ok.structuredContent).toMatchObject({
+            success: true,
+            settings: { evmVersion: "paris", viaIR: true },
+            contracts: [expect.objectContaining({ file: "Store.sol", name: "Store" })],
+        });
+
+        const failed = await handler({ sources: { "Bad.sol": "pragma solidity ^0.8.0;\ncontract Bad { function f() public { x = 1; } }\n" } });
+        expect(failed.structuredContent).toMatchObject({ success: false, contracts: [] });
+        expect(failed.content[0].text).toContain("- Bad.sol:2:38: DeclarationError: Undeclared identifier.");
+
+        const empty = await handler({ sources: {} });
+        expect(empty.isError).toBe(true);
     });
 });
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import ecc from "@bitcoinerlab/secp256k1";
+import { Psbt, Transaction, networks, payments } from "bitcoinjs-lib";
+import { serializeTransaction, toHex } from "viem";
+import { registerActionableTools } from "../../tools/actionable.js";
+import { registerTools } from "../../tools/analytical.js";
+import { MidlConfigWrapper } from "../../config/midl-config.js";
+import { FakeChain, FakeRunesProvider, fakeChainProfile } from "../../config/fake-chain.js";
+import { NetworkProfiles } from "../../config/networks.js";
+import { TransactionTracker } from "../../config/tracker.js";
+import { SpendingPolicy } from "../../config/policy.js";
+import { finalizePsbtInputs } from "../../utils/psbt.js";
+import * as midlCore from "@midl/core";
+import * as midlExecutor from "@midl/executor";
+
+// MIDL.js actions delegate to the provider in the config, here the fake chain
+vi.mock("@midl/core", () => {
+    const state = (config: any) => config.getState();
+    return {
+        getUTXOs: vi.fn((config: any, address: string) => state(config).provider.getUTXOs(state(config).network, address)),
+        getFeeRate: vi.fn((config: any) => state(config).provider.getFeeRate(state(config).network)),
+        broadcastTransaction: vi.fn((config: any, hex: string) => state(config).provider.broadcastTransaction(state(config).network, hex)),
+        getDefaultAccount: vi.fn((config: any) => state(config).accounts[0]),
+        signPSBT: vi.fn(),
+        transferBTC: vi.fn(),
+        SignMessageProtocol: { Bip322: "bip322" },
+    };
+});
+
+vi.mock("@midl/executor", () => ({
+    addTxIntention: vi.fn(async (_config: unknown, intention: unknown) => intention),
+    finalizeBTCTransaction: vi.fn(),
+    getEVMFromBitcoinNetwork: vi.fn(() => ({
+        id: 777,
+        name: "MIDL fake chain",
+        nativeCurrency: { name: "Bitcoin", symbol: "BTC", decimals: 18 },
+        rpcUrls: { default: { http: [] } },
+    })),
+    getEVMAddress: vi.fn(),
+    signIntention: vi.fn(),
+}));
+
+const network = { id: "regtest", network: "regtest", explorerUrl: "fake-chain://tx/" } as const;
+const privateKey = Buffer.alloc(32, 7);
+const publicKey = Buffer.from(ecc.pointFromScalar(privateKey, true)!);
+const ADDRESS = payments.p2wpkh({ pubkey: publicKey, network: networks.regtest }).address!;
+const EVM_ADDRESS = "0x1111111111111111111111111111111111111111";
+const CONTRACT = "0x2222222222222222222222222222222222222222";
+const EXTERNAL = "bcrt1qqgpqyqszqgpqyqszqgpqyqszqgpqyqszazmwwa";
+const signer = { publicKey, sign: (hash: Uint8Array) => Buffer.from(ecc.sign(hash, privateKey)) };
+
+// Approves every elicitation, whatever field it asks for
+const sendRequest = vi.fn(async (request: any) => ({
+    action: "accept",
+    content: { [request.params.requestedSchema.required[0]]: true },
+}));
+
+describe("Fake chain end-to-end", () => {
+    const tools: Record<string, Function> = {};
+    let chain: FakeChain;
+    let apiUrl: string;
+    let tracker: TransactionTracker;
+    let policy: SpendingPolicy;
+    let fetchSpy: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(async () => {
+        chain = new FakeChain({ network });
+        chain.fund(ADDRESS, 800_000);
+        chain.fund(ADDRESS, 200_000);
+        chain.registerEvmAccount(toHex(publicKey), EVM_ADDRESS);
+        apiUrl = await chain.listen();
+        fetchSpy = vi.spyOn(globalThis, "fetch");
+
+        const state: any = {
+            network,
+            networks: [network],
+            provider: chain,
+            runesProvider: new FakeRunesProvider(),
+            connection: "fake",
+            accounts: [{ address: ADDRESS, publicKey: publicKey.toString("hex"), purpose: "payment", addressType: "p2wpkh" }],
+        };
+        const config = {
+            getState: () => state,
+            setState: (update: object) => Object.assign(state, update),
+        };
+        tracker = new TransactionTracker({ intervalMs: 0, confirmations: 1, maxMisses: 3 });
+        policy = new SpendingPolicy({ dailyCapSats: 150_000 });
+        const midl = new MidlConfigWrapper(config as any, {
+            evmTransport: chain.evmTransport(),
+            networks: new NetworkProfiles([fakeChainProfile(network, apiUrl)], network.id),
+            tracker,
+            policy,
+        });
+        const mockServer = {
+            registerTool: vi.fn().mockImplementation((name, _config, handler) => {
+                tools[name] = handler;
+            }),
+            server: { registerCapabilities: vi.fn(), setRequestHandler: vi.fn() },
+            isConnected: () => false,
+        };
+        registerTools(mockServer as any, midl);
+        registerActionableTools(mockServer as any, midl);
+
+        vi.mocked(midlCore.signPSBT).mockImplementation(async (_config: unknown, params: any) => {
+            const psbt = Psbt.fromBase64(params.psbt, { network: networks.regtest });
+            for (const index of params.signInputs[ADDRESS]) psbt.signInput(index, signer);
+            return { psbt: psbt.toBase64() } as any;
+        });
+        // The anchor transaction spends the account's largest UTXO back to it
+        vi.mocked(midlExecutor.finalizeBTCTransaction).mockImplementation(async () => {
+            const [utxo] = (await chain.getUTXOs(network, ADDRESS)).sort((a, b) => b.value - a.value);
+            const psbt = new Psbt({ network: networks.regtest });
+            psbt.addInput({
+                hash: utxo!.txid,
+                index: utxo!.vout,
+                witnessUtxo: { script: payments.p2wpkh({ pubkey: publicKey, network: networks.regtest }).output!, value: BigInt(utxo!.value) },
+            });
+            psbt.addOutput({ address: ADDRESS, value: BigInt(utxo!.value - 500) });
+            psbt.signInput(0, signer);
+            finalizePsbtInputs(psbt);
+            const tx = psbt.extractTransaction();
+            return { tx: { id: tx.getId(), hex: tx.toHex() } } as any;
+        });
+        vi.mocked(midlExecutor.signIntention).mockImplementation(async (_config: unknown, _client: unknown, intention: any, _all: unknown, options: any) =>
+            serializeTransaction({
+                type: "btc",
+                chainId: 777,
+                to: intention.evmTransaction.to,
+                data: intention.evmTransaction.data,
+                publicKey: toHex(publicKey),
+                btcTxHash: `0x${options.txId}`,
+            } as any) as any
+        );
+    });
+
+    afterEach(async () => {
+        fetchSpy.mockRestore();
+        tracker.stop();
+        await chain.close();
+    });
+
+    it("prepares, signs, broadcasts and calls a contract without leaving the process", async () => {
+        const prepared = await tools["prepare-btc-transfer"]!({
+            recipients: [{ address: EXTERNAL, amount: 100_000 }],
+            strategy: "largest-first",
+        }, {});
+        expect(prepared.isError).toBeUndefined();
+
+        const signed = await tools["request-psbt-signature"]!({ psbt: prepared.structuredContent.psbt }, { sendRequest });
+        expect(signed.structuredContent.signedInputs).toEqual([0]);
+
+        const finalized = await tools["finalize-psbt"]!({ psbt: signed.structuredContent.psbt }, {});
+        const extracted = await tools["extract-transaction"]!({ psbt: finalized.structuredContent.psbt }, {});
+        const broadcast = await tools["request-transaction-broadcast"]!({ txHex: extracted.structuredContent.txHex }, { sendRequest });
+        expect(broadcast.isError).toBeUndefined();
+        const txId = broadcast.structuredContent.txId;
+        expect(chain.getMempool()).toEqual([txId]);
+        // Preflight asked the fake chain whether the inputs were already spent
+        expect(broadcast.structuredContent.preflight).toMatchObject({ doubleSpendsChecked: true, warnings: [] });
+
+        chain.mineBlocks();
+        await tracker.poll();
+        expect(tracker.get(txId)?.status).toBe("confirmed");
+
+        const details = await tools["get-transaction"]!({ txid: txId });
+        expect(details.structuredContent).toMatchObject({ confirmed: true, blockHeight: 101, fee: prepared.structuredContent.fee });
+        expect(details.structuredContent.blockHash).toMatch(/^[0-9a-f]{64}$/);
+
+        const history = await tools["get-address-transactions"]!({ address: ADDRESS, limit: 10 });
+        expect(history.structuredContent.transactions[0]).toMatchObject({ txid: txId, direction: "outgoing", net: -100_000 - prepared.structuredContent.fee });
+
+        const call = await tools["call-contract"]!({
+            contractAddress: CONTRACT,
+            abi: [{ type: "function", name: "ping", inputs: [], outputs: [], stateMutability: "nonpayable" }],
+            functionName: "ping",
+        }, {});
+        expect(call.isError).toBeUndefined();
+        expect(call.structuredContent.blockNumber).toBe(1);
+        expect(chain.getMempool()).toEqual([call.structuredContent.btcTxId]);
+
+        expect(fetchSpy).toHaveBeenCalled();
+        for (const [url] of fetchSpy.mock.calls) {
+            expect(String(url).startsWith(apiUrl)).toBe(true);
+        }
+    });
+
+    const ping = {
+        contractAddress: CONTRACT,
+        abi: [{ type: "function", name: "ping", inputs: [], outputs: [], stateMutability: "payable" }],
+        functionName: "ping",
+        value: 40_000,
+    };
+
+    it("reserves the daily cap before sending so concurrent contract calls cannot exceed it", async () => {
+        policy.recordSpend(100_000);
+        // Hold both anchor transactions until both calls have passed the initial policy check
+        const finalize = vi.mocked(midlExecutor.finalizeBTCTransaction).getMockImplementation()!;
+        let release!: () => void;
+        const bothStarted = new Promise<void>(resolve => { release = resolve; });
+        vi.mocked(midlExecutor.finalizeBTCTransaction).mockImplementation(async (...args) => {
+            if (vi.mocked(midlExecutor.finalizeBTCTransaction).mock.calls.length === 2) release();
+            await bothStarted;
+            return finalize(...args);
+        });
+
+        const results = await Promise.all([tools["call-contract"]!(ping, {}), tools["call-contract"]!(ping, {})]);
+
+        expect(results.filter(r => r.isError)).toHaveLength(1);
+        expect(results.find(r => r.isError).content[0].text).toContain("dailyCapSats");
+        expect(chain.getMempool()).toHaveLength(1);
+        expect(policy.getSpentToday()).toBe(140_000);
+    });
+
+    it("releases the reserved spend when sending the contract call fails", async () => {
+        const evmRequest = chain.evmRequest.bind(chain);
+        vi.spyOn(chain, "evmRequest").mockImplementation(async (method, params) => {
+            if (method === "eth_sendBTCTransactions") throw new Error("nonce too low");
+            return evmRequest(method, params);
+        });
+
+        const result = await tools["call-contract"]!(ping, {});
+
+        expect(result.isError).toBe(true);
+        expect(policy.getSpentToday()).toBe(0);
+    });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import type { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createHttpApp, startHttpTransport, type HttpTransportHandle } from "../../transport/http.js";
+
+describe("HTTP Transport", () => {
+    let handle: HttpTransportHandle;
+    let baseUrl: string;
+    const authToken = "test-token";
+
+    const initializeBody = {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+            protocolVersion: "2025-03-26",
+            capabilities: {},
+            clientInfo: { name: "test-client", version: "1.0.0" },
+        },
+    };
+
+    const post = (body: unknown, headers: Record<string, string> = {}) =>
+        fetch(`${baseUrl}/mcp`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                Accept: "application/json, text/event-stream",
+                Authorization: `Bearer ${authToken}`,
+                ...headers,
+            },
+            body: JSON.stringify(body),
+        });
+
+    beforeAll(async () => {
+        handle = await startHttpTransport(
+            () => new McpServer({ name: "test", version: "1.0.0" }),
+            { port: 0, authToken, allowedOrigins: ["http://allowed.example"] }
+        );
+        const { port } = handle.httpServer.address() as AddressInfo;
+        baseUrl = `http://127.0.0.1:${port}`;
+    });
+
+    afterAll(async () => {
+        await handle.close();
+    });
+
+    it("should reject requests without a valid bearer token", async () => {
+        const res = await post(initializeBody, { Authorization: "Bearer wrong" });
+        expect(res.status).toBe(401);
+    });
+
+    it("should reject requests from origins that are not allowlisted", async () => {
+        const res = await post(initializeBody, { Origin: "http://evil.example" });
+        expect(res.status).toBe(403);
+    });
+
+    it("should reject non-initialize requests without a session", async () => {
+        const res = await post({ jsonrpc: "2.0", id: 2, method: "tools/list" });
+        expect(res.status).toBe(400);
+    });
+
+    it("should initialize a session and accept follow-up requests", async () => {
+        const res = await post(initializeBody, { Origin: "http://allowed.example" });
+        expect(res.status).toBe(200);
+        const sessionId = res.headers.get("mcp-session-id");
+        expect(sessionId).toBeTruthy();
+        await res.text();
+
+        const unknown = await post({ jsonrpc: "2.0", id: 3, method: "ping" }, { "mcp-session-id": "unknown" });
+        expect(unknown.status).toBe(404);
+
+        const ping = await post({ jsonrpc: "2.0", id: 3, method: "ping" }, {
+            "mcp-session-id": sessionId!,
+            "mcp-protocol-version": "2025-03-26",
+        });
+        expect(ping.status).toBe(200);
+        expect(await ping.text()).toContain('"id":3');
+    });
+});
+
+describe("HTTP Transport sessions and binding", () => {
+    const createServer = () => new McpServer({ name: "test", version: "1.0.0" });
+
+    it("should refuse a non-loopback host without a token unless unauthenticated access is allowed", async () => {
+        expect(() => createHttpApp(createServer, { port: 0, host: "0.0.0.0" })).toThrow("Refusing to serve 0.0.0.0 without authentication");
+
+        const withToken = createHttpApp(createServer, { port: 0, host: "0.0.0.0", authToken: "secret" });
+        const optedIn = createHttpApp(createServer, { port: 0, host: "0.0.0.0", allowUnauthenticated: true });
+        await withToken.closeSessions();
+        await optedIn.closeSessions();
+    });
+
+    it("should close sessions that have been idle for the timeout", async () => {
+        const { app, sessions, expireIdleSessions, closeSessions } = createHttpApp(createServer, { port: 0, sessionIdleTimeoutMs: 60_000 });
+        const listener = app.listen(0, "127.0.0.1");
+        await new Promise(resolve => listener.once("listening", resolve));
+        const { port } = listener.address() as AddressInfo;
+        const post = (body: unknown, headers: Record<string, string> = {}) =>
+            fetch(`http://127.0.0.1:${port}/mcp`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+                body: JSON.stringify(body),
+            });
+
+        try {
+            const init = await post({
+                jsonrpc: "2.0",
+                id: 1,
+                method: "initialize",
+                params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test-client", version: "1.0.0" } },
+            });
+            const sessionId = init.headers.get("mcp-session-id")!;
+            await init.text();
+            const ping = () => post({ jsonrpc: "2.0", id: 2, method: "ping" }, { "mcp-session-id": sessionId, "mcp-protocol-version": "2025-03-26" });
+
+            await expireIdleSessions(Date.now() + 59_000);
+            const active = await ping();
+            expect(active.status).toBe(200);
+            await active.text();
+
+            await expireIdleSessions(Date.now() + 60_000);
+            expect(sessions.size).toBe(0);
+            expect((await ping()).status).toBe(404);
+        } finally {
+            await closeSessions();
+            await new Promise(resolve => listener.close(resolve));
+        }
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { classifyAssetUtxos, describeAssets, getProtectedOutpoints } from "../../utils/assets.js";
+
+const ADDRESS = "bcrt1pqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqs7r922v";
+const ORD = "http://ord.local";
+const RUNE_TXID = "a".repeat(64);
+const INSCRIBED_TXID = "b".repeat(64);
+
+function mockConfig(runesProvider?: object) {
+    return {
+        getState: () => ({ network: { id: "regtest", network: "regtest" }, runesProvider }),
+    } as any;
+}
+
+const runesProvider = {
+    getRunes: vi.fn(async () => ({
+        limit: 50, offset: 0, total: 1,
+        results: [{ rune: { id: "840000:1", name: "UNCOMMONGOODS", spaced_name: "UNCOMMON•GOODS" }, balance: 100n, address: ADDRESS }],
+    })),
+    getRuneUTXOs: vi.fn(async () => [
+        { height: 1, address: ADDRESS, txid: RUNE_TXID, vout: 1, satoshis: 546, runes: [{ runeid: "840000:1", amount: 100n }] },
+    ]),
+};
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe("classifyAssetUtxos", () => {
+    it("collects rune and inscription outputs", async () => {
+        const fetchMock = vi.fn(async () => ({
+            ok: true,
+            json: async () => [{ outpoint: `${INSCRIBED_TXID}:0`, inscriptions: [`${INSCRIBED_TXID}i0`] }, { outpoint: "c:0", inscriptions: [] }],
+        }));
+        vi.stubGlobal("fetch", fetchMock);
+
+        const { assets, warnings } = await classifyAssetUtxos(mockConfig(runesProvider), ADDRESS, { ordUrl: ORD });
+
+        expect(warnings).toEqual([]);
+        expect(fetchMock).toHaveBeenCalledWith(`${ORD}/outputs/${ADDRESS}?type=inscribed`, expect.anything());
+        expect([...assets.keys()]).toEqual([`${RUNE_TXID}:1`, `${INSCRIBED_TXID}:0`]);
+        expect(describeAssets(assets.get(`${RUNE_TXID}:1`)!)).toBe("100 UNCOMMON•GOODS");
+        expect(describeAssets(assets.get(`${INSCRIBED_TXID}:0`)!)).toBe("1 inscription");
+    });
+
+    it("reports unreachable indexers as warnings", async () => {
+        vi.stubGlobal("fetch", vi.fn(async () => ({ ok: false, status: 502, statusText: "Bad Gateway" })));
+        const failing = { getRunes: vi.fn(async () => { throw new Error("timeout"); }), getRuneUTXOs: vi.fn() };
+
+        const { assets, warnings } = await classifyAssetUtxos(mockConfig(failing), ADDRESS, { ordUrl: ORD });
+
+        expect(assets.size).toBe(0);
+        expect(warnings).toEqual([
+            `Could not check ${ADDRESS} for runes: timeout.`,
+            `Could not check ${ADDRESS} for inscriptions: 502 Bad Gateway.`,
+        ]);
+    });
+});
+
+describe("getProtectedOutpoints", () => {
+    it("excludes asset outputs and refuses to include them", async () => {
+        vi.stubGlobal("fetch", vi.fn(async () => ({ ok: true, json: async () => [] })));
+        const config = mockConfig(runesProvider);
+
+        expect((await getProtectedOutpoints(config, ADDRESS, { ordUrl: ORD })).exclude).toEqual([`${RUNE_TXID}:1`]);
+        await expect(getProtectedOutpoints(config, ADDRESS, { ordUrl: ORD, include: [`${RUNE_TXID}:1`] }))
+            .rejects.toThrow(`Outpoint ${RUNE_TXID}:1 carries 100 UNCOMMON•GOODS; set allowAssetUtxos to spend it.`);
+    });
+
+    it("fails closed when an indexer is down or not configured", async () => {
+        vi.stubGlobal("fetch", vi.fn(async () => ({ ok: true, json: async () => [] })));
+        const failing = { getRunes: vi.fn(async () => { throw new Error("timeout"); }), getRuneUTXOs: vi.fn() };
+
+        await expect(getProtectedOutpoints(mockConfig(failing), ADDRESS, { ordUrl: ORD }))
+            .rejects.toThrow(`Could not check ${ADDRESS} for runes: timeout. Set allowAssetUtxos to spend without rune and inscription protection.`);
+        await expect(getProtectedOutpoints(mockConfig(runesProvider), ADDRESS, {}))
+            .rejects.toThrow("No inscription index (ordUrl / MIDL_ORD_URL) is configured");
+    });
+});
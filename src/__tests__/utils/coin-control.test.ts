@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import ecc from "@bitcoinerlab/secp256k1";
+import { networks, payments } from "bitcoinjs-lib";
+import { buildSelectionPsbt, hasCoinControl, selectCoins, type CoinSelectionParams } from "../../utils/coin-control.js";
+
+const OWN = "bcrt1qqyqszqgpqyqszqgpqyqszqgpqyqszqgpvxat9t";
+const EXTERNAL = "bcrt1qqgpqyqszqgpqyqszqgpqyqszqgpqyqszazmwwa";
+const CHANGE = "bcrt1pqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqszqgpqyqs7r922v";
+
+const utxo = (n: number, value: number) => ({ txid: n.toString(16).padStart(64, "0"), vout: 0, value });
+const UTXOS = [utxo(1, 10_000), utxo(2, 50_000), utxo(3, 20_000), utxo(4, 5_000)];
+const outpoint = (n: number) => `${n.toString(16).padStart(64, "0")}:0`;
+
+const params: CoinSelectionParams = { feeRate: 2, inputVsize: 68, changeAddress: OWN, network: networks.regtest };
+
+describe("selectCoins", () => {
+    it("spends the largest UTXOs first by default and returns change", () => {
+        const selection = selectCoins(UTXOS, [{ address: EXTERNAL, amount: 30_000 }], params);
+
+        expect(selection.strategy).toBe("largest-first");
+        expect(selection.inputs.map(u => u.value)).toEqual([50_000]);
+        expect(selection.outputs).toEqual([
+            { address: EXTERNAL, value: 30_000, change: false },
+            { address: OWN, value: selection.change, change: true },
+        ]);
+        expect(selection.fee).toBe(Math.ceil(2 * selection.vsize));
+        expect(selection.fee + selection.change + 30_000).toBe(50_000);
+    });
+
+    it("keeps provider order for accumulative selection", () => {
+        const selection = selectCoins(UTXOS, [{ address: EXTERNAL, amount: 30_000 }], { ...params, strategy: "accumulative" });
+        expect(selection.inputs.map(u => u.value)).toEqual([10_000, 50_000]);
+    });
+
+    it("finds a changeless match with branch-and-bound", () => {
+        // 20k + 10k covers 29.5k plus fees without leaving change worth creating
+        const selection = selectCoins(UTXOS, [{ address: EXTERNAL, amount: 29_500 }], { ...params, strategy: "branch-and-bound" });
+
+        expect(selection.strategy).toBe("branch-and-bound");
+        expect(selection.inputs.map(u => u.value).sort()).toEqual([10_000, 20_000]);
+        expect(selection.change).toBe(0);
+        expect(selection.outputs).toHaveLength(1);
+    });
+
+    it("falls back to largest-first when no changeless match exists", () => {
+        const selection = selectCoins(UTXOS, [{ address: EXTERNAL, amount: 1_000 }], { ...params, strategy: "branch-and-bound" });
+        expect(selection.strategy).toBe("largest-first");
+    });
+
+    it("honours included and excluded outpoints and the change address", () => {
+        const selection = selectCoins(UTXOS, [{ address: EXTERNAL, amount: 12_000 }], {
+            ...params,
+            include: [outpoint(4)],
+            exclude: [outpoint(2)],
+            changeAddress: CHANGE,
+        });
+
+        expect(selection.inputs.map(u => u.value)).toEqual([5_000, 20_000]);
+        expect(selection.outputs.at(-1)).toMatchObject({ address: CHANGE, change: true });
+    });
+
+    it("sends the maximum to the recipient without an amount", () => {
+        const selection = selectCoins(UTXOS, [{ address: EXTERNAL }], { ...params, sendMax: true, exclude: [outpoint(1)] });
+
+        expect(selection.strategy).toBe("send-max");
+        expect(selection.inputs).toHaveLength(3);
+        expect(selection.change).toBe(0);
+        expect(selection.outputs[0]!.value).toBe(75_000 - selection.fee);
+    });
+
+    it("reports bad coin control requests", () => {
+        const recipients = [{ address: EXTERNAL, amount: 1_000 }];
+        expect(() => selectCoins(UTXOS, recipients, { ...params, include: ["abc"] })).toThrow('Invalid outpoint "abc"');
+        expect(() => selectCoins(UTXOS, recipients, { ...params, include: [outpoint(9)] })).toThrow("is not an unspent output of this account");
+        expect(() => selectCoins(UTXOS, recipients, { ...params, include: [outpoint(1)], exclude: [outpoint(1)] })).toThrow("both included and excluded");
+        expect(() => selectCoins(UTXOS, [{ address: EXTERNAL }], params)).toThrow("Every recipient needs an amount");
+        expect(() => selectCoins(UTXOS, recipients, { ...params, sendMax: true })).toThrow("sendMax needs exactly one recipient without an amount");
+        expect(() => selectCoins(UTXOS, [{ address: EXTERNAL, amount: 90_000 }], params))
+            .toThrow("Insufficient funds: 85000 sats available across 4 UTXOs, 90000 sats needed plus fees.");
+    });
+});
+
+describe("hasCoinControl", () => {
+    it("is false when selection is left to MIDL.js", () => {
+        expect(hasCoinControl({})).toBe(false);
+        expect(hasCoinControl({ include: [] })).toBe(false);
+        expect(hasCoinControl({ strategy: "accumulative" })).toBe(true);
+        expect(hasCoinControl({ changeAddress: CHANGE })).toBe(true);
+    });
+});
+
+describe("buildSelectionPsbt", () => {
+    it("signals replace-by-fee on every input", async () => {
+        const publicKey = Buffer.from(ecc.pointFromScalar(Buffer.alloc(32, 1), true)!);
+        const address = payments.p2wpkh({ pubkey: publicKey, network: networks.regtest }).address!;
+        const account = { address, publicKey: publicKey.toString("hex"), addressType: "p2wpkh", purpose: "payment" } as any;
+        const config = { getState: () => ({ network: { network: "regtest" } }) } as any;
+
+        const selection = selectCoins(UTXOS, [{ address: EXTERNAL, amount: 60_000 }], { ...params, changeAddress: address });
+        const psbt = await buildSelectionPsbt(config, account, selection);
+
+        expect(psbt.txInputs.length).toBeGreaterThan(1);
+        expect(psbt.txInputs.map(input => input.sequence)).toEqual(psbt.txInputs.map(() => 0xfffffffd));
+    });
+});
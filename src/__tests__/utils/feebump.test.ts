@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from "vitest";
+import ecc from "@bitcoinerlab/secp256k1";
+import { Transaction, address as btcAddress, networks, payments } from "bitcoinjs-lib";
+import { buildCpfpChild, buildRbfReplacement } from "../../utils/feebump.js";
+import { getTransactionDetails } from "../../utils/transaction.js";
+
+const network = networks.regtest;
+const EXTERNAL = "bcrt1qqgpqyqszqgpqyqszqgpqyqszqgpqyqszazmwwa";
+
+const privateKey = Buffer.alloc(32, 1);
+const publicKey = Buffer.from(ecc.pointFromScalar(privateKey, true)!);
+const signer = { publicKey, sign: (hash: Uint8Array) => Buffer.from(ecc.sign(hash, privateKey)) };
+const OWN = payments.p2wpkh({ pubkey: publicKey, network }).address!;
+const account = { address: OWN, publicKey: publicKey.toString("hex"), addressType: "p2wpkh", purpose: "payment" } as any;
+
+function buildTransactions(sequence = 0xfffffffd) {
+    const prev = new Transaction();
+    prev.addInput(Buffer.alloc(32, 9), 0);
+    prev.addOutput(btcAddress.toOutputScript(OWN, network), 50_000n);
+
+    const tx = new Transaction();
+    tx.addInput(Buffer.from(prev.getHash()), 0, sequence);
+    tx.addOutput(btcAddress.toOutputScript(EXTERNAL, network), 30_000n);
+    tx.addOutput(btcAddress.toOutputScript(OWN, network), 19_000n);
+    return { prev, tx };
+}
+
+function mockConfig(txs: Transaction[], options: { confirmed?: boolean; unspent?: { txid: string; vout: number }[] } = {}) {
+    const byId = new Map(txs.map(t => [t.getId(), t.toHex()]));
+    return {
+        getState: () => ({
+            network: { id: "regtest", network: "regtest" },
+            provider: {
+                getTransactionHex: vi.fn(async (_network: unknown, txid: string) => byId.get(txid)!),
+                getTransactionStatus: vi.fn(async () => ({ confirmed: options.confirmed ?? false, block_height: 100 })),
+                getLatestBlockHeight: vi.fn(async () => 100),
+                getUTXOs: vi.fn(async () => (options.unspent ?? []).map(u => ({ ...u, value: 0, status: { confirmed: false } }))),
+            },
+        }),
+    } as any;
+}
+
+async function details(config: any, tx: Transaction) {
+    return getTransactionDetails(config, tx.getId(), { ownAddresses: new Set([OWN]), intentions: [] });
+}
+
+describe("buildRbfReplacement", () => {
+    it("takes the extra fee from the change output and keeps inputs and sequences", async () => {
+        const { prev, tx } = buildTransactions();
+        const config = mockConfig([prev, tx]);
+        const original = await details(config, tx);
+
+        const bump = await buildRbfReplacement(config, original, [account], 20);
+
+        const fee = Math.ceil(20 * tx.virtualSize());
+        expect(bump).toMatchObject({ fee, originalFee: 1_000, changeIndex: 1, change: 19_000 - (fee - 1_000), raisedToMinimum: false });
+        expect(bump.psbt.txInputs[0]).toMatchObject({ index: 0, sequence: 0xfffffffd });
+        expect(bump.psbt.txOutputs.map(o => o.value)).toEqual([30_000n, BigInt(bump.change)]);
+
+        bump.psbt.signAllInputs(signer).finalizeAllInputs();
+        expect(bump.psbt.extractTransaction().getId()).not.toBe(tx.getId());
+    });
+
+    it("raises a low fee rate to the BIP125 minimum", async () => {
+        const { prev, tx } = buildTransactions();
+        const config = mockConfig([prev, tx]);
+
+        const bump = await buildRbfReplacement(config, await details(config, tx), [account], 1);
+        expect(bump).toMatchObject({ fee: 1_000 + tx.virtualSize(), raisedToMinimum: true });
+    });
+
+    it("refuses transactions that cannot be replaced", async () => {
+        const { prev, tx } = buildTransactions(0xffffffff);
+        const config = mockConfig([prev, tx]);
+        await expect(buildRbfReplacement(config, await details(config, tx), [account], 20))
+            .rejects.toThrow("does not signal replace-by-fee");
+
+        const confirmed = mockConfig([prev, tx], { confirmed: true });
+        await expect(buildRbfReplacement(confirmed, await details(confirmed, tx), [account], 20))
+            .rejects.toThrow("is already confirmed");
+
+        const replaceable = buildTransactions();
+        const foreign = mockConfig([replaceable.prev, replaceable.tx]);
+        await expect(buildRbfReplacement(foreign, await details(foreign, replaceable.tx), [], 20))
+            .rejects.toThrow("is not owned by a connected account");
+    });
+
+    it("refuses to push the change below dust", async () => {
+        const { prev, tx } = buildTransactions();
+        const config = mockConfig([prev, tx]);
+        await expect(buildRbfReplacement(config, await details(config, tx), [account], 200))
+            .rejects.toThrow("dust limit");
+    });
+});
+
+describe("buildCpfpChild", () => {
+    it("spends the change with a fee that lifts the package to the target rate", async () => {
+        const { prev, tx } = buildTransactions();
+        const config = mockConfig([prev, tx], { unspent: [{ txid: tx.getId(), vout: 1 }] });
+        const parent = await details(config, tx);
+
+        const child = await buildCpfpChild(config, parent, [account], { feeRate: 20 });
+
+        expect(child).toMatchObject({ vout: 1, address: OWN, value: 19_000 - child.fee });
+        expect(child.fee).toBe(Math.ceil(20 * (tx.virtualSize() + child.vsize)) - 1_000);
+        expect(child.packageFeeRate).toBeGreaterThanOrEqual(20);
+        expect(child.psbt.txInputs[0]).toMatchObject({ index: 1, sequence: 0xfffffffd });
+
+        child.psbt.signAllInputs(signer).finalizeAllInputs();
+        expect(child.psbt.extractTransaction().virtualSize()).toBeLessThanOrEqual(child.vsize);
+    });
+
+    it("refuses spent outputs and parents already at the target", async () => {
+        const { prev, tx } = buildTransactions();
+        const config = mockConfig([prev, tx]);
+        const parent = await details(config, tx);
+
+        await expect(buildCpfpChild(config, parent, [account], { feeRate: 20 })).rejects.toThrow("has already been spent");
+        await expect(buildCpfpChild(config, parent, [account], { feeRate: 1 })).rejects.toThrow("at or above the target");
+        await expect(buildCpfpChild(config, parent, [account], { feeRate: 20, vout: 0 })).rejects.toThrow("is not owned by a connected account");
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { fetchAddressHistory, summarizeAddressTransaction, type EsploraTransaction } from "../../utils/history.js";
+
+const ME = "tb1qme";
+const OTHER = "tb1qother";
+const API = "https://mempool.space/testnet4/api";
+
+function tx(txid: string, overrides: Partial<EsploraTransaction> = {}): EsploraTransaction {
+    return {
+        txid,
+        fee: 200,
+        vin: [{ prevout: { scriptpubkey_address: OTHER, value: 10_200 } }],
+        vout: [{ scriptpubkey_address: ME, value: 10_000 }],
+        status: { confirmed: true, block_height: 100, block_time: 1_700_000_000 },
+        ...overrides,
+    };
+}
+
+function mockPages(pages: Record<string, EsploraTransaction[]>) {
+    const fetchMock = vi.fn(async (url: string) => {
+        const page = pages[url];
+        if (!page) return { ok: false, status: 404, statusText: "Not Found" };
+        return { ok: true, json: async () => page };
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe("summarizeAddressTransaction", () => {
+    it("reports incoming payments", () => {
+        expect(summarizeAddressTransaction(tx("a"), ME)).toMatchObject({
+            direction: "incoming", received: 10_000, sent: 0, net: 10_000, fee: 200, confirmed: true, blockHeight: 100,
+        });
+    });
+
+    it("nets change out of outgoing payments", () => {
+        const spend = tx("b", {
+            vin: [{ prevout: { scriptpubkey_address: ME, value: 50_000 } }],
+            vout: [{ scriptpubkey_address: OTHER, value: 20_000 }, { scriptpubkey_address: ME, value: 29_800 }],
+        });
+        expect(summarizeAddressTransaction(spend, ME)).toMatchObject({ direction: "outgoing", received: 29_800, sent: 50_000, net: -20_200 });
+    });
+
+    it("recognises transfers to itself", () => {
+        const consolidation = tx("c", {
+            vin: [{ prevout: { scriptpubkey_address: ME, value: 50_000 } }],
+            vout: [{ scriptpubkey_address: ME, value: 49_800 }],
+        });
+        expect(summarizeAddressTransaction(consolidation, ME)).toMatchObject({ direction: "self", net: -200 });
+    });
+});
+
+describe("fetchAddressHistory", () => {
+    const fullPage = (prefix: string) => Array.from({ length: 25 }, (_, i) => tx(`${prefix}${i}`));
+
+    it("pages with after_txid until the limit is reached", async () => {
+        const fetchMock = mockPages({
+            [`${API}/address/${ME}/txs`]: [tx("m0", { status: { confirmed: false } }), ...fullPage("p")],
+            [`${API}/address/${ME}/txs?after_txid=p24`]: fullPage("q"),
+        });
+
+        const history = await fetchAddressHistory(API, ME, { limit: 30 });
+
+        expect(history.transactions).toHaveLength(30);
+        expect(history.transactions[0]).toMatchObject({ txid: "m0", confirmed: false });
+        expect(history.transactions.at(-1)!.txid).toBe("q3");
+        expect(history.nextAfterTxid).toBe("q3");
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("stops at the end of the history", async () => {
+        mockPages({
+            [`${API}/address/${ME}/txs`]: fullPage("p"),
+            [`${API}/address/${ME}/txs?after_txid=x`]: [tx("a"), tx("b")],
+        });
+
+        const history = await fetchAddressHistory(API, ME, { limit: 2, afterTxid: "x" });
+        expect(history.transactions.map(t => t.txid)).toEqual(["a", "b"]);
+        expect(history.nextAfterTxid).toBeUndefined();
+    });
+
+    it("pages through more mempool transactions than the limit into confirmed history", async () => {
+        const mempool = Array.from({ length: 10 }, (_, i) => tx(`m${i}`, { status: { confirmed: false } }));
+        const fetchMock = mockPages({
+            [`${API}/address/${ME}/txs`]: [...mempool, ...fullPage("p")],
+            [`${API}/address/${ME}/txs?after_txid=p24`]: [tx("q0")],
+        });
+
+        const first = await fetchAddressHistory(API, ME, { limit: 5 });
+        expect(first.transactions.map(t => t.txid)).toEqual(["m0", "m1", "m2", "m3", "m4"]);
+        expect(first.nextAfterTxid).toBe("m4");
+
+        const second = await fetchAddressHistory(API, ME, { limit: 7, afterTxid: first.nextAfterTxid! });
+        expect(second.transactions.map(t => t.txid)).toEqual(["m5", "m6", "m7", "m8", "m9", "p0", "p1"]);
+        expect(second.nextAfterTxid).toBe("p1");
+
+        const rest = await fetchAddressHistory(API, ME, { limit: 50, afterTxid: second.nextAfterTxid! });
+        expect(rest.transactions.map(t => t.txid)).toEqual([...fullPage("p").slice(2).map(t => t.txid), "q0"]);
+        expect(rest.nextAfterTxid).toBeUndefined();
+        expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it("filters by direction and status", async () => {
+        const outgoing = tx("out", { vin: [{ prevout: { scriptpubkey_address: ME, value: 5_000 } }], vout: [{ scriptpubkey_address: OTHER, value: 4_800 }] });
+        mockPages({
+            [`${API}/address/${ME}/txs`]: [tx("pending", { status: { confirmed: false } }), outgoing, tx("in")],
+        });
+
+        expect((await fetchAddressHistory(API, ME, { limit: 10, direction: "outgoing" })).transactions.map(t => t.txid)).toEqual(["out"]);
+        expect((await fetchAddressHistory(API, ME, { limit: 10, status: "unconfirmed" })).transactions.map(t => t.txid)).toEqual(["pending"]);
+    });
+
+    it("reports API errors", async () => {
+        mockPages({});
+        await expect(fetchAddressHistory(API, ME, { limit: 10 })).rejects.toThrow("Failed to fetch transactions: 404 Not Found");
+    });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import ecc from "@bitcoinerlab/secp256k1";
+import { Psbt, address as btcAddress, networks, payments } from "bitcoinjs-lib";
+import {
+    buildMultisigSpendPsbt,
+    createMultisigWallet,
+    getDescriptorChecksum,
+    isCosigner,
+    parseMultisigScript,
+} from "../../utils/multisig.js";
+import { finalizePsbtInputs, inspectPsbt } from "../../utils/psbt.js";
+
+const network = networks.regtest;
+const EXTERNAL = "bcrt1qqgpqyqszqgpqyqszqgpqyqszqgpqyqszazmwwa";
+
+const privateKeys = [1, 2, 3].map(n => Buffer.alloc(32, n));
+const signers = privateKeys.map(privateKey => {
+    const publicKey = Buffer.from(ecc.pointFromScalar(privateKey, true)!);
+    return {
+        publicKey,
+        sign: (hash: Uint8Array) => Buffer.from(ecc.sign(hash, privateKey)),
+        signSchnorr: (hash: Uint8Array) => Buffer.from(ecc.signSchnorr(hash, privateKey)),
+    };
+});
+const publicKeys = signers.map(s => s.publicKey.toString("hex"));
+
+describe("getDescriptorChecksum", () => {
+    it("matches the reference implementation", () => {
+        expect(getDescriptorChecksum("raw(deadbeef)")).toBe("89f8spxm");
+        expect(getDescriptorChecksum("addr(mkmZxiEcEd8ZqjQWVZuC6so5dFMKEFpN2j)")).toBe("02wpgw69");
+    });
+});
+
+describe("createMultisigWallet", () => {
+    it("derives a P2WSH sortedmulti wallet independent of key order", () => {
+        const wallet = createMultisigWallet({ name: "treasury", type: "p2wsh", threshold: 2, publicKeys }, network, "regtest");
+        const reversed = createMultisigWallet({ name: "treasury", type: "p2wsh", threshold: 2, publicKeys: [...publicKeys].reverse() }, network, "regtest");
+
+        expect(reversed.address).toBe(wallet.address);
+        expect(wallet.publicKeys).toEqual([...publicKeys].sort());
+        expect(wallet.address).toBe(payments.p2wsh({
+            redeem: payments.p2ms({ m: 2, pubkeys: wallet.publicKeys.map(k => Buffer.from(k, "hex")), network }),
+            network,
+        }).address);
+        expect(wallet.descriptor).toMatch(/^wsh\(sortedmulti\(2,[0-9a-f,]+\)\)#[a-z0-9]{8}$/);
+        expect(parseMultisigScript("p2wsh", Buffer.from(wallet.script, "hex"))).toEqual({ threshold: 2, keys: 3 });
+    });
+
+    it("derives a Taproot script-path wallet with x-only keys", () => {
+        const wallet = createMultisigWallet({ name: "vault", type: "p2tr", threshold: 2, publicKeys }, network, "regtest");
+
+        expect(wallet.address.startsWith("bcrt1p")).toBe(true);
+        expect(wallet.publicKeys.every(k => k.length === 64)).toBe(true);
+        expect(wallet.descriptor.startsWith("tr(50929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0,sortedmulti_a(2,")).toBe(true);
+        expect(parseMultisigScript("p2tr", Buffer.from(wallet.script, "hex"))).toEqual({ threshold: 2, keys: 3 });
+        expect(isCosigner(wallet, publicKeys[0]!)).toBe(true);
+    });
+
+    it("rejects invalid thresholds and keys", () => {
+        expect(() => createMultisigWallet({ name: "w", type: "p2wsh", threshold: 4, publicKeys }, network, "regtest"))
+            .toThrow("Threshold must be between 1 and 3.");
+        expect(() => createMultisigWallet({ name: "w", type: "p2wsh", threshold: 1, publicKeys: [publicKeys[0]!, publicKeys[0]!] }, network, "regtest"))
+            .toThrow("Public keys must be unique.");
+        expect(() => createMultisigWallet({ name: "w", type: "p2wsh", threshold: 1, publicKeys: ["02abcd"] }, network, "regtest"))
+            .toThrow("Public key #1 is not a valid compressed public key");
+    });
+});
+
+describe("buildMultisigSpendPsbt", () => {
+    const utxos = [
+        { txid: "11".repeat(32), vout: 0, value: 30_000 },
+        { txid: "22".repeat(32), vout: 1, value: 80_000 },
+    ];
+
+    it("selects the largest UTXOs first and returns change to the wallet", () => {
+        const wallet = createMultisigWallet({ name: "treasury", type: "p2wsh", threshold: 2, publicKeys }, network, "regtest");
+        const built = buildMultisigSpendPsbt(wallet, utxos, [{ address: EXTERNAL, amount: 50_000 }], 2, network);
+
+        expect(built.inputs).toEqual([utxos[1]]);
+        expect(built.psbt.data.inputs[0]!.witnessScript?.toString()).toBe(Buffer.from(wallet.script, "hex").toString());
+        expect(built.psbt.txOutputs.map(o => btcAddress.fromOutputScript(o.script, network))).toEqual([EXTERNAL, wallet.address]);
+        expect(built.change).toBe(80_000 - 50_000 - built.fee);
+        expect(inspectPsbt(built.psbt, network, new Set()).fee).toBe(built.fee);
+    });
+
+    it("fails when the wallet cannot cover the amount", () => {
+        const wallet = createMultisigWallet({ name: "treasury", type: "p2wsh", threshold: 2, publicKeys }, network, "regtest");
+        expect(() => buildMultisigSpendPsbt(wallet, utxos, [{ address: EXTERNAL, amount: 200_000 }], 2, network))
+            .toThrow("Insufficient funds in treasury: 110000 sats available across 2 UTXOs.");
+    });
+
+    it.each(["p2wsh", "p2tr"] as const)("lets 2 of 3 %s cosigners sign, then finalizes within the estimated size", (type) => {
+        const wallet = createMultisigWallet({ name: "treasury", type, threshold: 2, publicKeys }, network, "regtest");
+        const built = buildMultisigSpendPsbt(wallet, utxos, [{ address: EXTERNAL, amount: 50_000 }], 2, network);
+        const estimate = inspectPsbt(built.psbt, network, new Set()).vsize;
+
+        const first = Psbt.fromBase64(built.psbt.toBase64(), { network }).signInput(0, signers[0]!);
+        const second = Psbt.fromBase64(built.psbt.toBase64(), { network }).signInput(0, signers[2]!);
+        const combined = first.combine(second);
+
+        expect(finalizePsbtInputs(combined).finalizedInputs).toEqual([0]);
+        const tx = combined.extractTransaction();
+        expect(tx.virtualSize()).toBeLessThanOrEqual(estimate);
+        expect(estimate - tx.virtualSize()).toBeLessThanOrEqual(2);
+        if (type === "p2tr") {
+            // One element per key (one empty), the leaf script and the control block
+            expect(tx.ins[0]!.witness).toHaveLength(5);
+        }
+    });
+
+    it.each(["p2wsh", "p2tr"] as const)("does not report a %s input below the threshold as fully signed", (type) => {
+        const wallet = createMultisigWallet({ name: "treasury", type, threshold: 2, publicKeys }, network, "regtest");
+        const psbt = buildMultisigSpendPsbt(wallet, utxos, [{ address: EXTERNAL, amount: 50_000 }], 2, network).psbt;
+
+        psbt.signInput(0, signers[0]!);
+        let inspection = inspectPsbt(psbt, network, new Set());
+        expect(inspection.inputs[0]).toMatchObject({ signatures: 1, requiredSignatures: 2 });
+        expect(inspection.fullySigned).toBe(false);
+
+        psbt.signInput(0, signers[1]!);
+        inspection = inspectPsbt(psbt, network, new Set());
+        expect(inspection.inputs[0]!.signatures).toBe(2);
+        expect(inspection.fullySigned).toBe(true);
+    });
+
+    it("refuses to finalize a Taproot input below the threshold", () => {
+        const wallet = createMultisigWallet({ name: "vault", type: "p2tr", threshold: 2, publicKeys }, network, "regtest");
+        const psbt = buildMultisigSpendPsbt(wallet, utxos, [{ address: EXTERNAL, amount: 50_000 }], 2, network).psbt;
+        psbt.signInput(0, signers[1]!);
+
+        expect(finalizePsbtInputs(psbt).failedInputs).toEqual([
+            { index: 0, reason: "Needs 2 of 3 signatures, has 1." },
+        ]);
+    });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Transaction, address as btcAddress, networks } from "bitcoinjs-lib";
+import { fetchOutspend, formatPreflight, preflightTransaction } from "../../utils/preflight.js";
+
+const network = networks.regtest;
+const OWN = "bcrt1qqyqszqgpqyqszqgpqyqszqgpqyqszqgpvxat9t";
+const EXTERNAL = "bcrt1qqgpqyqszqgpqyqszqgpqyqszqgpqyqszazmwwa";
+const API = "https://mempool.example/api";
+const LIMITS = { maxFeeSats: 100_000, maxFeeRateMultiple: 10 };
+
+function buildTransactions(options: { fee?: number; signed?: boolean } = {}) {
+    const prev = new Transaction();
+    prev.addInput(Buffer.alloc(32, 9), 0);
+    prev.addOutput(btcAddress.toOutputScript(OWN, network), 200_000n);
+
+    const tx = new Transaction();
+    tx.addInput(Buffer.from(prev.getHash()), 0, 0xfffffffd);
+    tx.addOutput(btcAddress.toOutputScript(EXTERNAL, network), BigInt(200_000 - (options.fee ?? 1_000)));
+    if (options.signed ?? true) tx.setWitness(0, [Buffer.alloc(71, 1), Buffer.alloc(33, 2)]);
+    return { prev, tx };
+}
+
+function mockConfig(txs: Transaction[]) {
+    const byId = new Map(txs.map(t => [t.getId(), t.toHex()]));
+    return {
+        getState: () => ({
+            network: { id: "regtest", network: "regtest" },
+            provider: {
+                getTransactionHex: vi.fn(async (_network: unknown, txid: string) => {
+                    const hex = byId.get(txid);
+                    if (!hex) throw new Error("Transaction not found");
+                    return hex;
+                }),
+            },
+        }),
+    } as any;
+}
+
+const stubOutspend = (outspend: object) => {
+    const fetchMock = vi.fn(async () => ({ ok: true, json: async () => outspend }));
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+};
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe("preflightTransaction", () => {
+    it("passes a signed transaction with a sensible fee and unspent inputs", async () => {
+        const { prev, tx } = buildTransactions();
+        const fetchMock = stubOutspend({ spent: false });
+
+        const report = await preflightTransaction(mockConfig([prev]), tx.toHex(), { limits: LIMITS, fastestFeeRate: 5, apiUrl: API });
+
+        expect(fetchMock).toHaveBeenCalledWith(`${API}/tx/${prev.getId()}/outspend/0`, { signal: expect.any(AbortSignal) });
+        expect(report).toMatchObject({ txid: tx.getId(), fee: 1_000, doubleSpendsChecked: true, errors: [], warnings: [] });
+        expect(report.inputs[0]).toMatchObject({ outpoint: `${prev.getId()}:0`, value: 200_000, signed: true });
+        expect(formatPreflight(report, LIMITS)).toContain("- Signatures: 1/1 inputs signed");
+    });
+
+    it("rejects unsigned inputs", async () => {
+        const { prev, tx } = buildTransactions({ signed: false });
+        const report = await preflightTransaction(mockConfig([prev]), tx.toHex(), { limits: LIMITS, fastestFeeRate: 5 });
+        expect(report.errors).toEqual(["Input 0 is not signed."]);
+    });
+
+    it("rejects absurd fees in sats and as a multiple of the fastest rate", async () => {
+        const { prev, tx } = buildTransactions({ fee: 150_000 });
+        const bySats = await preflightTransaction(mockConfig([prev]), tx.toHex(), { limits: LIMITS, fastestFeeRate: 5 });
+        expect(bySats.errors).toEqual(["Absurd fee: 150000 sats exceeds the maximum of 100000 sats."]);
+
+        const { prev: prev2, tx: tx2 } = buildTransactions({ fee: 20_000 });
+        const byRate = await preflightTransaction(mockConfig([prev2]), tx2.toHex(), { limits: LIMITS, fastestFeeRate: 5 });
+        expect(byRate.errors[0]).toMatch(/^Absurd fee rate: .* sat\/vB is more than 10x the current fastest rate \(5 sat\/vB\)\.$/);
+
+        const disabled = await preflightTransaction(mockConfig([prev2]), tx2.toHex(), { limits: { maxFeeSats: 0, maxFeeRateMultiple: 0 }, fastestFeeRate: 5 });
+        expect(disabled.errors).toEqual([]);
+    });
+
+    it("rejects inputs already spent by a non-replaceable mempool transaction", async () => {
+        const { prev, tx } = buildTransactions();
+        const conflict = new Transaction();
+        conflict.addInput(Buffer.from(prev.getHash()), 0);
+        conflict.addOutput(btcAddress.toOutputScript(OWN, network), 199_000n);
+        stubOutspend({ spent: true, txid: conflict.getId(), vin: 0, status: { confirmed: false } });
+
+        const report = await preflightTransaction(mockConfig([prev, conflict]), tx.toHex(), { limits: LIMITS, fastestFeeRate: 5, apiUrl: API });
+
+        expect(report.inputs[0]!.conflict).toEqual({ txid: conflict.getId(), confirmed: false, replaceable: false });
+        expect(report.errors).toEqual([
+            `Double-spend: input 0 (${prev.getId()}:0) is already spent by mempool transaction ${conflict.getId()}, which does not signal RBF.`,
+        ]);
+    });
+
+    it("warns instead when the conflicting transaction can be replaced", async () => {
+        const { prev, tx } = buildTransactions();
+        const conflict = new Transaction();
+        conflict.addInput(Buffer.from(prev.getHash()), 0, 0xfffffffd);
+        conflict.addOutput(btcAddress.toOutputScript(OWN, network), 199_500n);
+        stubOutspend({ spent: true, txid: conflict.getId(), vin: 0, status: { confirmed: false } });
+
+        const report = await preflightTransaction(mockConfig([prev, conflict]), tx.toHex(), { limits: LIMITS, fastestFeeRate: 5, apiUrl: API });
+
+        expect(report.errors).toEqual([]);
+        expect(report.warnings[0]).toContain("which signals RBF");
+    });
+
+    it("reports lookups that could not be made", async () => {
+        const { tx } = buildTransactions();
+        vi.stubGlobal("fetch", vi.fn(async () => ({ ok: false, status: 503, statusText: "Service Unavailable" })));
+
+        const report = await preflightTransaction(mockConfig([]), tx.toHex(), { limits: LIMITS, apiUrl: API });
+
+        expect(report).toMatchObject({ fee: null, doubleSpendsChecked: false, errors: [] });
+        expect(report.warnings).toEqual([
+            "The fee could not be checked because some previous outputs could not be looked up.",
+            "The current fee rate could not be fetched, so the fee rate was not compared against it.",
+            "Could not check the inputs for double-spends: 503 Service Unavailable",
+        ]);
+        expect(formatPreflight(report, LIMITS)).toContain("- Double-spends: not checked");
+    });
+
+    it("gives up on double-spend lookups that time out and only warns", async () => {
+        // Never answers until the request is aborted
+        vi.stubGlobal("fetch", vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+            init.signal!.addEventListener("abort", () => reject(init.signal!.reason));
+        })));
+        await expect(fetchOutspend(API, "a".repeat(64), 0, 10)).rejects.toThrow("timed out after 10 ms");
+
+        const { prev, tx } = buildTransactions();
+        vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new DOMException("The operation was aborted due to timeout", "TimeoutError")));
+        const report = await preflightTransaction(mockConfig([prev]), tx.toHex(), { limits: LIMITS, fastestFeeRate: 5, apiUrl: API });
+
+        expect(report).toMatchObject({ fee: 1_000, doubleSpendsChecked: false, errors: [] });
+        expect(report.warnings).toEqual(["Could not check the inputs for double-spends: timed out after 10000 ms"]);
+    });
+
+    it("rejects malformed hex", async () => {
+        await expect(preflightTransaction(mockConfig([]), "zz", { limits: LIMITS })).rejects.toThrow("Invalid transaction hex");
+    });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect } from "vitest";
+import { Psbt, Transaction, address as btcAddress, networks, payments } from "bitcoinjs-lib";
+import { combinePsbts, decodeOpReturn, finalizePsbtInputs, getScriptType, getSighashName, getSignInputs, inspectPsbt, parseSighashName } from "../../utils/psbt.js";
+
+const network = networks.regtest;
+const OWN = "bcrt1qqyqszqgpqyqszqgpqyqszqgpqyqszqgpvxat9t";
+const EXTERNAL = "bcrt1qqgpqyqszqgpqyqszqgpqyqszqgpqyqszazmwwa";
+const PREV_TXID = "11".repeat(32);
+
+function buildPsbt() {
+    const psbt = new Psbt({ network });
+    psbt.addInput({
+        hash: PREV_TXID,
+        index: 0,
+        sequence: 0xfffffffd,
+        witnessUtxo: { script: btcAddress.toOutputScript(OWN, network), value: 60_000n },
+    });
+    psbt.addInput({
+        hash: PREV_TXID,
+        index: 1,
+        witnessUtxo: { script: btcAddress.toOutputScript(OWN, network), value: 40_000n },
+    });
+    psbt.addOutput({ address: EXTERNAL, value: 70_000n });
+    psbt.addOutput({ address: OWN, value: 29_000n });
+    psbt.addOutput({ script: payments.embed({ data: [Buffer.from("hello midl")] }).output!, value: 0n });
+    return psbt;
+}
+
+describe("getScriptType", () => {
+    it("classifies standard scripts", () => {
+        expect(getScriptType(btcAddress.toOutputScript(OWN, network))).toBe("p2wpkh");
+        expect(getScriptType(Buffer.from(`5120${"ab".repeat(32)}`, "hex"))).toBe("p2tr");
+        expect(getScriptType(Buffer.from(`0020${"ab".repeat(32)}`, "hex"))).toBe("p2wsh");
+        expect(getScriptType(Buffer.from(`76a914${"ab".repeat(20)}88ac`, "hex"))).toBe("p2pkh");
+        expect(getScriptType(Buffer.from("6a0100", "hex"))).toBe("op_return");
+        expect(getScriptType(Buffer.from("51", "hex"))).toBe("nonstandard");
+    });
+
+    it("detects nested segwit from the redeem script", () => {
+        const p2sh = Buffer.from(`a914${"ab".repeat(20)}87`, "hex");
+        expect(getScriptType(p2sh)).toBe("p2sh");
+        expect(getScriptType(p2sh, btcAddress.toOutputScript(OWN, network))).toBe("p2sh-p2wpkh");
+    });
+});
+
+describe("decodeOpReturn", () => {
+    it("renders printable payloads as text", () => {
+        const script = payments.embed({ data: [Buffer.from("hi")] }).output!;
+        expect(decodeOpReturn(script)).toEqual({ hex: "6869", utf8: "hi" });
+    });
+
+    it("keeps binary payloads as hex only", () => {
+        const script = payments.embed({ data: [Buffer.from([0x00, 0xff])] }).output!;
+        expect(decodeOpReturn(script)).toEqual({ hex: "00ff" });
+    });
+});
+
+describe("getSighashName", () => {
+    it("names standard and unknown flags", () => {
+        expect(getSighashName(Transaction.SIGHASH_ALL)).toBe("ALL");
+        expect(getSighashName(Transaction.SIGHASH_SINGLE | Transaction.SIGHASH_ANYONECANPAY)).toBe("SINGLE|ANYONECANPAY");
+        expect(getSighashName(0x04)).toBe("0x04");
+    });
+
+    it("round-trips through parseSighashName", () => {
+        expect(parseSighashName("ALL|ANYONECANPAY")).toBe(Transaction.SIGHASH_ALL | Transaction.SIGHASH_ANYONECANPAY);
+        expect(parseSighashName("DEFAULT")).toBe(Transaction.SIGHASH_DEFAULT);
+    });
+});
+
+describe("inspectPsbt", () => {
+    it("reports values, fee, ownership and OP_RETURN data of an unsigned PSBT", () => {
+        const result = inspectPsbt(buildPsbt(), network, new Set([OWN]));
+
+        expect(result.inputs[0]).toMatchObject({
+            txid: PREV_TXID,
+            vout: 0,
+            sequence: 0xfffffffd,
+            value: 60_000,
+            address: OWN,
+            scriptType: "p2wpkh",
+            owned: true,
+            signatures: 0,
+            finalized: false,
+        });
+        expect(result.outputs.map(o => o.owned)).toEqual([false, true, false]);
+        expect(result.outputs[2]).toMatchObject({ scriptType: "op_return", opReturn: { utf8: "hello midl" } });
+        expect(result.inputTotal).toBe(100_000);
+        expect(result.outputTotal).toBe(99_000);
+        expect(result.fee).toBe(1_000);
+        expect(result.vsizeExact).toBe(false);
+        expect(result.vsize).toBeGreaterThan(150);
+        expect(result.feeRate).toBe(Number((1_000 / result.vsize).toFixed(2)));
+        expect(result.fullySigned).toBe(false);
+    });
+
+    it("reports null fee when an input value is unknown", () => {
+        const psbt = new Psbt({ network });
+        psbt.addInput({ hash: PREV_TXID, index: 0 });
+        psbt.addOutput({ address: EXTERNAL, value: 1_000n });
+
+        const result = inspectPsbt(psbt, network, new Set());
+        expect(result.inputs[0]!.value).toBeNull();
+        expect(result.fee).toBeNull();
+        expect(result.feeRate).toBeNull();
+    });
+
+    it("tracks signatures, sighash types and finalization", () => {
+        const psbt = buildPsbt();
+        psbt.updateInput(0, {
+            partialSig: [{ pubkey: Buffer.from(`02${"ab".repeat(32)}`, "hex"), signature: Buffer.from(`3006020101020101${"83"}`, "hex") }],
+        });
+        psbt.updateInput(1, { finalScriptWitness: Buffer.from("00", "hex") });
+
+        const result = inspectPsbt(psbt, network, new Set([OWN]));
+        expect(result.inputs[0]).toMatchObject({ signatures: 1, finalized: false, sighashType: "SINGLE|ANYONECANPAY" });
+        expect(result.inputs[1]).toMatchObject({ finalized: true });
+        expect(result.fullySigned).toBe(true);
+        expect(result.fullyFinalized).toBe(false);
+    });
+});
+
+describe("getSignInputs", () => {
+    function buildMixedPsbt() {
+        const psbt = buildPsbt();
+        psbt.addInput({
+            hash: PREV_TXID,
+            index: 2,
+            witnessUtxo: { script: btcAddress.toOutputScript(EXTERNAL, network), value: 10_000n },
+        });
+        return psbt;
+    }
+
+    it("selects every owned input", () => {
+        const psbt = buildMixedPsbt();
+        const own = new Set([OWN]);
+        expect(getSignInputs(inspectPsbt(psbt, network, own), own)).toEqual({ [OWN]: [0, 1] });
+    });
+
+    it("groups owned inputs by address", () => {
+        const psbt = buildMixedPsbt();
+        const own = new Set([OWN, EXTERNAL]);
+        expect(getSignInputs(inspectPsbt(psbt, network, own), own)).toEqual({ [OWN]: [0, 1], [EXTERNAL]: [2] });
+    });
+
+    it("skips finalized inputs", () => {
+        const psbt = buildMixedPsbt();
+        psbt.updateInput(0, { finalScriptWitness: Buffer.from("00", "hex") });
+        const own = new Set([OWN]);
+        expect(getSignInputs(inspectPsbt(psbt, network, own), own)).toEqual({ [OWN]: [1] });
+    });
+
+    it("validates explicit indexes", () => {
+        const psbt = buildMixedPsbt();
+        const own = new Set([OWN]);
+        const inspection = inspectPsbt(psbt, network, own);
+
+        expect(getSignInputs(inspection, own, [1])).toEqual({ [OWN]: [1] });
+        expect(() => getSignInputs(inspection, own, [2])).toThrow(`Input 2 does not belong to a connected account (${EXTERNAL})`);
+        expect(() => getSignInputs(inspection, own, [7])).toThrow("Input 7 does not exist (the PSBT has 3 inputs)");
+    });
+});
+
+describe("combinePsbts", () => {
+    const signature = (pubkeyByte: string) => ({
+        pubkey: Buffer.from(`02${pubkeyByte.repeat(32)}`, "hex"),
+        signature: Buffer.from("300602010102010101", "hex"),
+    });
+
+    it("merges signatures from every party", () => {
+        const alice = buildPsbt();
+        alice.updateInput(0, { partialSig: [signature("aa")] });
+        const bob = buildPsbt();
+        bob.updateInput(0, { partialSig: [signature("bb")] });
+        bob.updateInput(1, { partialSig: [signature("bb")] });
+
+        const combined = inspectPsbt(combinePsbts([alice, bob]), network, new Set());
+        expect(combined.inputs.map(i => i.signatures)).toEqual([2, 1]);
+    });
+
+    it("rejects PSBTs for a different transaction", () => {
+        const other = buildPsbt();
+        other.addOutput({ address: EXTERNAL, value: 500n });
+        expect(() => combinePsbts([buildPsbt(), other])).toThrow("PSBT #2 describes a different unsigned transaction");
+    });
+});
+
+describe("finalizePsbtInputs", () => {
+    const pubkey = Buffer.from(`02${"ab".repeat(32)}`, "hex");
+    const signer = payments.p2wpkh({ pubkey, network }).address!;
+
+    function buildSignablePsbt() {
+        const psbt = new Psbt({ network });
+        for (const index of [0, 1, 2]) {
+            psbt.addInput({
+                hash: PREV_TXID,
+                index,
+                witnessUtxo: { script: btcAddress.toOutputScript(index === 2 ? OWN : signer, network), value: 10_000n },
+            });
+        }
+        psbt.addOutput({ address: EXTERNAL, value: 29_000n });
+        return psbt;
+    }
+
+    it("finalizes signed inputs and explains the others", () => {
+        const psbt = buildSignablePsbt();
+        const partialSig = [{ pubkey, signature: Buffer.from("300602010102010101", "hex") }];
+        psbt.updateInput(0, { partialSig });
+        psbt.updateInput(2, { partialSig });
+
+        const result = finalizePsbtInputs(psbt);
+        expect(result.finalizedInputs).toEqual([0]);
+        expect(result.failedInputs.map(f => f.index)).toEqual([1, 2]);
+        expect(result.failedInputs[0]!.reason).toBe("Input has no signatures.");
+        expect(inspectPsbt(psbt, network, new Set()).inputs[0]!.finalized).toBe(true);
+    });
+
+    it("skips inputs that were already finalized", () => {
+        const psbt = buildSignablePsbt();
+        psbt.updateInput(0, { finalScriptWitness: Buffer.from("00", "hex") });
+        expect(finalizePsbtInputs(psbt).alreadyFinalized).toEqual([0]);
+    });
+});
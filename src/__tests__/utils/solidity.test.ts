@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { compileSolidity, formatDiagnostics, getCompilerVersion } from "../../utils/solidity.js";
+
+const COUNTER = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "./Base.sol";
+
+contract Counter is Base {
+    uint256 public count;
+
+    function increment() external {
+        count += step;
+    }
+}
+`;
+
+const BASE = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+contract Base {
+    uint256 internal step = 1;
+}
+`;
+
+describe("compileSolidity", () => {
+    it("compiles multiple sources with every artifact", () => {
+        const result = compileSolidity({ "contracts/Counter.sol": COUNTER, "contracts/Base.sol": BASE }, { optimizer: true, runs: 1000 });
+
+        expect(result.errors).toEqual([]);
+        expect(result.compilerVersion).toBe(getCompilerVersion());
+        expect(result.settings).toEqual({ optimizer: true, runs: 1000, evmVersion: "cancun", viaIR: false, remappings: [] });
+        expect(result.contracts.map(c => `${c.file}:${c.name}`).sort()).toEqual(["contracts/Base.sol:Base", "contracts/Counter.sol:Counter"]);
+
+        const counter = result.contracts.find(c => c.name === "Counter")!;
+        expect(counter.abi.map((item: { name?: string }) => item.name)).toEqual(expect.arrayContaining(["count", "increment"]));
+        expect(counter.bytecode).toMatch(/^[0-9a-f]+$/);
+        expect(counter.deployedBytecode.length).toBeGreaterThan(0);
+        expect(counter.deployedBytecode.length).toBeLessThan(counter.bytecode.length);
+        expect(JSON.parse(counter.metadata).settings.optimizer).toEqual({ enabled: true, runs: 1000 });
+        expect(counter.storageLayout).toMatchObject({
+            storage: [expect.objectContaining({ label: "step" }), expect.objectContaining({ label: "count" })],
+        });
+    });
+
+    it("applies remappings", () => {
+        const source = COUNTER.replace(`"./Base.sol"`, `"@lib/Base.sol"`);
+        const result = compileSolidity({ "Counter.sol": source, "vendor/Base.sol": BASE }, { remappings: ["@lib/=vendor/"] });
+
+        expect(result.errors).toEqual([]);
+        expect(result.contracts.map(c => c.name)).toContain("Counter");
+    });
+
+    it("returns every error and warning with its line and column", () => {
+        const broken = `pragma solidity ^0.8.0;
+
+contract Broken {
+    function a() public pure returns (uint256) {
+        return missing;
+    }
+
+    function b() public {
+        uint256 unused = 1;
+        undefinedCall();
+    }
+}
+`;
+        const result = compileSolidity({ "Broken.sol": broken });
+
+        expect(result.contracts).toEqual([]);
+        expect(result.errors).toHaveLength(2);
+        expect(result.errors[0]).toMatchObject({
+            severity: "error",
+            type: "DeclarationError",
+            location: { file: "Broken.sol", line: 5, column: 16 },
+        });
+        expect(result.errors[1]!.location).toMatchObject({ line: 10, column: 9 });
+        expect(result.warnings.some(w => w.message.includes("SPDX"))).toBe(true);
+        expect(formatDiagnostics(result.errors)).toContain("- Broken.sol:5:16: DeclarationError: Undeclared identifier.");
+    });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { buildApprovalSummary, type ApprovalSummaryInput } from "../../utils/summary.js";
+
+function input(overrides: Partial<ApprovalSummaryInput> = {}): ApprovalSummaryInput {
+    return {
+        action: "sign",
+        txId: "ab".repeat(32),
+        foreignInputs: 0,
+        outputs: [
+            { index: 0, value: 70_000, address: "tb1qrecipient", scriptType: "p2wpkh", owned: false },
+            { index: 1, value: 29_000, address: "tb1qchange", scriptType: "p2wpkh", owned: true },
+        ],
+        fee: 1_000,
+        feeRate: 5,
+        vsize: 200,
+        vsizeExact: false,
+        intentions: [],
+        fastestFeeRate: 10,
+        isKnownRecipient: () => true,
+        ...overrides,
+    };
+}
+
+describe("buildApprovalSummary", () => {
+    it("lists recipients, change and fee without warnings for an ordinary transfer", () => {
+        const summary = buildApprovalSummary(input());
+
+        expect(summary.warnings).toEqual([]);
+        expect(summary.text).toContain("You are about to SIGN a Bitcoin transaction.");
+        expect(summary.text).toContain("- tb1qrecipient: 0.00070000 BTC (70,000 sats)");
+        expect(summary.text).toContain("Change (back to your accounts):\n- tb1qchange: 0.00029000 BTC (29,000 sats)");
+        expect(summary.text).toContain("Fee: 0.00001000 BTC (1,000 sats) at 5 sat/vB (~200 vB)");
+    });
+
+    it("warns about high fees, unknown recipients and foreign inputs", () => {
+        const summary = buildApprovalSummary(input({
+            fee: 30_000,
+            feeRate: 150,
+            foreignInputs: 1,
+            isKnownRecipient: () => false,
+        }));
+
+        expect(summary.warnings).toEqual([
+            "Fee rate 150 sat/vB is more than 2x the current fastest rate (10 sat/vB).",
+            "The fee (30000 sats) is 43% of the amount sent.",
+            "tb1qrecipient has not been paid before and is not on the allow list.",
+            "1 input(s) do not belong to your accounts.",
+        ]);
+        expect(summary.text).toContain("⚠️ Warnings:");
+    });
+
+    it("warns when the fee is unknown", () => {
+        const summary = buildApprovalSummary(input({ fee: null, feeRate: null }));
+        expect(summary.warnings).toEqual(["The fee could not be determined because some input values are unknown."]);
+        expect(summary.text).toContain("Fee: unknown (~200 vB)");
+    });
+
+    it("shows OP_RETURN data and MIDL EVM intentions for anchor transactions", () => {
+        const summary = buildApprovalSummary(input({
+            action: "broadcast",
+            vsizeExact: true,
+            outputs: [
+                { index: 0, value: 0, scriptType: "op_return", owned: false, opReturn: { hex: "6869", utf8: "hi" } },
+            ],
+            intentions: [
+                { kind: "deploy", from: "0xdeployer", contractAddress: "0xcontract", dataBytes: 1234 },
+                { kind: "call", contractAddress: "0xtoken", functionName: "transfer" },
+            ],
+        }));
+
+        expect(summary.text).toContain("CRITICAL: You are about to BROADCAST");
+        expect(summary.text).toContain("- (none, only your own accounts)");
+        expect(summary.text).toContain('Embedded data (OP_RETURN):\n- "hi"');
+        expect(summary.text).toContain("- Deploy contract at 0xcontract from 0xdeployer, 1234 bytes");
+        expect(summary.text).toContain("- Call transfer() on 0xtoken");
+        expect(summary.text).toContain("(200 vB)");
+    });
+});
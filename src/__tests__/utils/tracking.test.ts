@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Transaction, address as btcAddress, networks } from "bitcoinjs-lib";
+import { createBtcCheck, createEvmCheck } from "../../utils/tracking.js";
+
+const network = networks.regtest;
+const OWN = "bcrt1qqyqszqgpqyqszqgpqyqszqgpqyqszqgpvxat9t";
+const API = "https://mempool.example/api";
+
+function buildTransaction() {
+    const tx = new Transaction();
+    tx.addInput(Buffer.alloc(32, 9), 1, 0xfffffffd);
+    tx.addOutput(btcAddress.toOutputScript(OWN, network), 10_000n);
+    return tx;
+}
+
+function mockConfig(provider: object) {
+    return { getState: () => ({ network: { id: "regtest", network: "regtest" }, provider }) } as any;
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe("createBtcCheck", () => {
+    it("reports confirmations from the block height", async () => {
+        const tx = buildTransaction();
+        const check = createBtcCheck(mockConfig({
+            getTransactionHex: vi.fn(async () => tx.toHex()),
+            getTransactionStatus: vi.fn(async () => ({ confirmed: true, block_height: 100 })),
+            getLatestBlockHeight: vi.fn(async () => 102),
+        }), tx.getId(), API);
+
+        expect(await check()).toEqual({ found: true, confirmations: 3, blockNumber: 100 });
+    });
+
+    it("finds the replacement once the transaction disappears", async () => {
+        const tx = buildTransaction();
+        const replacement = "d".repeat(64);
+        const getTransactionHex = vi.fn().mockResolvedValueOnce(tx.toHex()).mockRejectedValue(new Error("Transaction not found"));
+        const check = createBtcCheck(mockConfig({
+            getTransactionHex,
+            getTransactionStatus: vi.fn(async () => ({ confirmed: false, block_height: 0 })),
+        }), tx.getId(), API);
+        const fetchMock = vi.fn(async () => ({ ok: true, json: async () => ({ spent: true, txid: replacement, status: { confirmed: false } }) }));
+        vi.stubGlobal("fetch", fetchMock);
+
+        expect(await check()).toEqual({ found: true, confirmations: 0 });
+        expect(await check()).toEqual({ found: false, replacedBy: replacement });
+        expect(fetchMock).toHaveBeenCalledWith(`${API}/tx/${"09".repeat(32)}/outspend/1`, { signal: expect.any(AbortSignal) });
+    });
+
+    it("throws provider outages instead of reporting the transaction missing", async () => {
+        const tx = buildTransaction();
+        const check = createBtcCheck(mockConfig({
+            getTransactionHex: vi.fn().mockRejectedValue(new TypeError("fetch failed")),
+        }), tx.getId(), API);
+        vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("fetch failed")));
+        await expect(check()).rejects.toThrow("fetch failed");
+
+        const serverError = createBtcCheck(mockConfig({
+            getTransactionHex: vi.fn().mockRejectedValue(new Error("Failed to fetch transaction hex: Service Unavailable")),
+        }), tx.getId(), API);
+        vi.stubGlobal("fetch", vi.fn(async () => ({ ok: false, status: 503 })));
+        await expect(serverError()).rejects.toThrow("Service Unavailable");
+    });
+
+    it("reports a transaction missing when the provider or Esplora says it does not exist", async () => {
+        const tx = buildTransaction();
+        const check = createBtcCheck(mockConfig({
+            getTransactionHex: vi.fn().mockRejectedValue(new Error("Failed to fetch transaction hex: ")),
+        }), tx.getId(), API);
+        const fetchMock = vi.fn(async () => ({ ok: false, status: 404 }));
+        vi.stubGlobal("fetch", fetchMock);
+
+        expect(await check()).toEqual({ found: false });
+        expect(fetchMock).toHaveBeenCalledWith(`${API}/tx/${tx.getId()}/status`);
+    });
+
+    it("keeps polling the network it was tracked on after the network is switched", async () => {
+        const tx = buildTransaction();
+        const regtest = {
+            getTransactionHex: vi.fn(async () => tx.toHex()),
+            getTransactionStatus: vi.fn(async () => ({ confirmed: true, block_height: 100 })),
+            getLatestBlockHeight: vi.fn(async () => 100),
+        };
+        const testnet = { getTransactionHex: vi.fn().mockRejectedValue(new Error("Transaction not found")) };
+        let state = { network: { id: "regtest", network: "regtest" }, provider: regtest as object };
+        const check = createBtcCheck({ getState: () => state } as any, tx.getId(), API);
+
+        state = { network: { id: "testnet4", network: "testnet" }, provider: testnet };
+
+        expect(await check()).toEqual({ found: true, confirmations: 1, blockNumber: 100 });
+        expect(regtest.getTransactionHex).toHaveBeenCalledWith({ id: "regtest", network: "regtest" }, tx.getId());
+        expect(testnet.getTransactionHex).not.toHaveBeenCalled();
+    });
+});
+
+describe("createEvmCheck", () => {
+    const HASH = `0x${"b".repeat(64)}` as const;
+
+    it("treats a missing receipt as pending", async () => {
+        const notFound = Object.assign(new Error("not found"), { name: "TransactionReceiptNotFoundError" });
+        const check = createEvmCheck({ getTransactionReceipt: vi.fn().mockRejectedValue(notFound), getBlockNumber: vi.fn() }, HASH);
+        expect(await check()).toEqual({ found: true, confirmations: 0 });
+    });
+
+    it("reports confirmations and reverts", async () => {
+        const check = createEvmCheck({
+            getTransactionReceipt: vi.fn(async () => ({ blockNumber: 10n, status: "reverted" as const })),
+            getBlockNumber: vi.fn(async () => 14n),
+        }, HASH);
+        expect(await check()).toEqual({ found: true, confirmations: 5, blockNumber: 10, failed: true });
+    });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Transaction, address as btcAddress, networks, payments } from "bitcoinjs-lib";
+import { formatTransactionDetails, getTransactionDetails } from "../../utils/transaction.js";
+
+const network = networks.regtest;
+const OWN = "bcrt1qqyqszqgpqyqszqgpqyqszqgpqyqszqgpvxat9t";
+const EXTERNAL = "bcrt1qqgpqyqszqgpqyqszqgpqyqszqgpqyqszazmwwa";
+
+function buildTransactions() {
+    const prev = new Transaction();
+    prev.addInput(Buffer.alloc(32, 9), 0);
+    prev.addOutput(btcAddress.toOutputScript(OWN, network), 50_000n);
+
+    const tx = new Transaction();
+    tx.addInput(Buffer.from(prev.getHash()), 0, 0xfffffffd);
+    tx.addOutput(btcAddress.toOutputScript(EXTERNAL, network), 30_000n);
+    tx.addOutput(btcAddress.toOutputScript(OWN, network), 19_000n);
+    tx.addOutput(payments.embed({ data: [Buffer.from("midl")] }).output!, 0n);
+    return { prev, tx };
+}
+
+function mockConfig(txs: Transaction[], status: { confirmed: boolean; block_height: number }) {
+    const byId = new Map(txs.map(t => [t.getId(), t.toHex()]));
+    return {
+        getState: () => ({
+            network: { id: "regtest", network: "regtest" },
+            provider: {
+                getTransactionHex: vi.fn(async (_network: unknown, txid: string) => {
+                    const hex = byId.get(txid);
+                    if (!hex) throw new Error("Transaction not found");
+                    return hex;
+                }),
+                getTransactionStatus: vi.fn(async () => status),
+                getLatestBlockHeight: vi.fn(async () => 105),
+            },
+        }),
+    } as any;
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe("getTransactionDetails", () => {
+    it("reports prevouts, fee, RBF, confirmations and block time", async () => {
+        const { prev, tx } = buildTransactions();
+        vi.stubGlobal("fetch", vi.fn(async () => ({ ok: true, json: async () => ({ block_hash: "00ab", block_time: 1_700_000_000 }) })));
+
+        const details = await getTransactionDetails(mockConfig([prev, tx], { confirmed: true, block_height: 100 }), tx.getId(), {
+            ownAddresses: new Set([OWN]),
+            intentions: [{ kind: "call", contractAddress: "0xtoken", functionName: "transfer" }],
+            apiUrl: "https://mempool.example/api",
+        });
+
+        expect(details.inputs[0]).toMatchObject({ txid: prev.getId(), vout: 0, value: 50_000, address: OWN, scriptType: "p2wpkh", owned: true });
+        expect(details.outputs.map(o => o.owned)).toEqual([false, true, false]);
+        expect(details).toMatchObject({
+            fee: 1_000,
+            feeRate: Number((1_000 / tx.virtualSize()).toFixed(2)),
+            rbf: true,
+            confirmed: true,
+            confirmations: 6,
+            blockHeight: 100,
+            blockHash: "00ab",
+            blockTime: 1_700_000_000,
+        });
+
+        const text = formatTransactionDetails(details);
+        expect(text).toContain("Confirmed (6 confirmations, block 100, 2023-11-14T22:13:20.000Z)");
+        expect(text).toContain("Replace-by-fee: signalled");
+        expect(text).toContain("- Call transfer() 0xtoken");
+    });
+
+    it("leaves the fee unknown when a prevout cannot be fetched", async () => {
+        const { tx } = buildTransactions();
+
+        const details = await getTransactionDetails(mockConfig([tx], { confirmed: false, block_height: 0 }), tx.getId(), {
+            ownAddresses: new Set(),
+            intentions: [],
+        });
+
+        expect(details.inputs[0]!.value).toBeNull();
+        expect(details).toMatchObject({ fee: null, feeRate: null, confirmed: false, confirmations: 0 });
+        expect(details.blockHeight).toBeUndefined();
+    });
+
+    it("reports unknown transactions", async () => {
+        await expect(getTransactionDetails(mockConfig([], { confirmed: false, block_height: 0 }), "ff".repeat(32), { ownAddresses: new Set(), intentions: [] }))
+            .rejects.toThrow(`Transaction ${"ff".repeat(32)} not found: Transaction not found`);
+    });
+});
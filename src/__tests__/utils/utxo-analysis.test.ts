@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { analyzeUtxos, formatUtxoAnalysis, pickConsolidationInputs } from "../../utils/utxo-analysis.js";
+
+const utxo = (n: number, value: number, confirmed = true) => ({ txid: n.toString(16).padStart(64, "0"), vout: 0, value, status: { confirmed } });
+const UTXOS = [utxo(1, 300), utxo(2, 900), utxo(3, 5_000), utxo(4, 250_000, false), utxo(5, 40_000)];
+
+describe("analyzeUtxos", () => {
+    it("reports the distribution, dust and cost to spend everything", () => {
+        // 10 sat/vB * 68 vB = 680 sats per P2WPKH input
+        const analysis = analyzeUtxos(UTXOS, 10, 68);
+
+        expect(analysis).toMatchObject({
+            count: 5,
+            total: 296_200,
+            unconfirmed: 1,
+            spendCost: 680,
+            dust: { count: 1, value: 300 },
+            costToSpendAll: Math.ceil(10 * (10.5 + 43 + 5 * 68)),
+            smallest: 300,
+            largest: 250_000,
+            median: 5_000,
+        });
+        expect(analysis.distribution.map(b => b.count)).toEqual([2, 1, 1, 1, 0, 0]);
+
+        const text = formatUtxoAnalysis("bcrt1qme", analysis);
+        expect(text).toContain("UTXOs for bcrt1qme: 5 (296200 sats, 1 unconfirmed)");
+        expect(text).toContain("- < 1k sats: 2 (1200 sats)");
+        expect(text).toContain("Dust (worth no more than its spend cost): 1 UTXOs, 300 sats");
+    });
+
+    it("handles an empty wallet", () => {
+        expect(analyzeUtxos([], 5, 68)).toMatchObject({ count: 0, costToSpendAll: 0, smallest: null, median: null });
+    });
+});
+
+describe("pickConsolidationInputs", () => {
+    it("merges the smallest economical UTXOs first", () => {
+        expect(pickConsolidationInputs(UTXOS, 10, 68, { maxInputs: 3 }).map(u => u.value)).toEqual([900, 5_000, 40_000]);
+        expect(pickConsolidationInputs(UTXOS, 10, 68, { maxInputs: 2, includeDust: true }).map(u => u.value)).toEqual([300, 900]);
+        expect(pickConsolidationInputs(UTXOS, 10, 68, { maxInputs: 2, exclude: [`${"2".padStart(64, "0")}:0`] }).map(u => u.value))
+            .toEqual([5_000, 40_000]);
+    });
+
+    it("needs at least two UTXOs", () => {
+        expect(() => pickConsolidationInputs(UTXOS, 1_000, 68, { maxInputs: 10 })).toThrow("Nothing to consolidate: 1 UTXO worth spending at 1000 sat/vB.");
+    });
+});
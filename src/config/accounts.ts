@@ -0,0 +1,202 @@
+import type { Account, AddressPurpose, BitcoinNetwork, Config, Connector } from "@midl/core";
+
+/**
+ * The accounts one connector instance derives for a single account index.
+ */
+export interface SubAccount {
+    index: number;
+    connection: Connector;
+    accounts: Account[];
+    /** Whether the accounts were derived from the seed (false for externally supplied addresses). */
+    derived: boolean;
+}
+
+/**
+ * One row of `list-accounts` / `midl://accounts`.
+ */
+export interface AccountSummary {
+    index: number;
+    active: boolean;
+    purpose: string;
+    addressType: string;
+    address: string;
+    publicKey: string;
+    derivationPath?: string;
+    evmAddress?: string;
+}
+
+/**
+ * Derives the MIDL EVM address of a Bitcoin account (the executor's `getEVMAddress`).
+ */
+export type EvmAddressResolver = (account: Account, network: BitcoinNetwork) => string;
+
+/**
+ * Options for an AccountManager.
+ */
+export interface AccountManagerOptions {
+    /** Index to select initially. Defaults to the first sub-account. */
+    activeIndex?: number;
+    /** Used to show each account's EVM address. Without it, EVM addresses are omitted. */
+    evmAddressOf?: EvmAddressResolver;
+}
+
+const BIP_PURPOSE: Record<string, number> = {
+    p2sh_p2wpkh: 49,
+    p2wpkh: 84,
+    p2tr: 86,
+};
+
+/**
+ * Parses MIDL_ACCOUNT_INDEXES: a comma-separated list of indexes and ranges, e.g. "0,2,5-7".
+ */
+export function parseAccountIndexes(value: string | undefined): number[] {
+    if (!value?.trim()) return [0];
+
+    const indexes = new Set<number>();
+    for (const part of value.split(",").map(s => s.trim()).filter(Boolean)) {
+        const match = /^(\d+)(?:-(\d+))?$/.exec(part);
+        if (!match) {
+            throw new Error(`Invalid account index: ${part}`);
+        }
+        const start = Number(match[1]);
+        const end = match[2] !== undefined ? Number(match[2]) : start;
+        if (end < start) {
+            throw new Error(`Invalid account index range: ${part}`);
+        }
+        for (let i = start; i <= end; i++) indexes.add(i);
+    }
+    return [...indexes].sort((a, b) => a - b);
+}
+
+/**
+ * BIP44-style derivation path of the first receive address for an account index.
+ */
+export function getDerivationPath(account: Account, network: BitcoinNetwork, index: number): string | undefined {
+    const purpose = BIP_PURPOSE[account.addressType];
+    if (purpose === undefined) return undefined;
+    const coinType = network.network === "bitcoin" ? 0 : 1;
+    return `m/${purpose}'/${coinType}'/${index}'/0/0`;
+}
+
+/**
+ * Sub-accounts derived from one seed, with a runtime-switchable active account.
+ *
+ * Selecting an account swaps the config's connection and accounts, so every tool that resolves
+ * `getDefaultAccount(config)` and every signature follows the selection.
+ */
+export class AccountManager {
+    private readonly config: Config;
+    private readonly subAccounts: SubAccount[];
+    private readonly evmAddressOf: EvmAddressResolver | undefined;
+    private activeIndex: number;
+
+    constructor(config: Config, subAccounts: SubAccount[], options: AccountManagerOptions = {}) {
+        if (subAccounts.length === 0) {
+            throw new Error("At least one account is required.");
+        }
+        this.config = config;
+        this.subAccounts = subAccounts;
+        this.evmAddressOf = options.evmAddressOf;
+        this.activeIndex = subAccounts[0]!.index;
+        this.select(options.activeIndex ?? this.activeIndex);
+    }
+
+    /**
+     * Connects one connector per account index and selects `activeIndex` (default: the first).
+     */
+    static async connect(
+        config: Config,
+        createConnector: (index: number) => Connector,
+        { indexes, purposes, ...options }: { indexes: number[]; purposes: AddressPurpose[] } & AccountManagerOptions
+    ): Promise<AccountManager> {
+        const network = config.getState().network;
+        const subAccounts: SubAccount[] = [];
+        for (const index of indexes) {
+            const connection = createConnector(index);
+            const accounts = await connection.connect({ purposes, network });
+            subAccounts.push({ index, connection, accounts, derived: true });
+        }
+        return new AccountManager(config, subAccounts, options);
+    }
+
+    /**
+     * Wraps an already connected config as a single, non-switchable account.
+     */
+    static fromConfig(config: Config, options: AccountManagerOptions = {}): AccountManager {
+        const { connection, accounts } = config.getState();
+        if (!connection) {
+            throw new Error("MIDL MCP Server requires a pre-connected wallet configuration.");
+        }
+        return new AccountManager(config, [{ index: 0, connection, accounts: accounts || [], derived: false }], options);
+    }
+
+    getIndexes(): number[] {
+        return this.subAccounts.map(sub => sub.index);
+    }
+
+    getActiveIndex(): number {
+        return this.activeIndex;
+    }
+
+    /**
+     * Every account of every sub-account.
+     */
+    getAllAccounts(): Account[] {
+        return this.subAccounts.flatMap(sub => sub.accounts);
+    }
+
+    /**
+     * Makes the given account index active. Throws when the index was not configured.
+     */
+    select(index: number): Account[] {
+        const sub = this.subAccounts.find(s => s.index === index);
+        if (!sub) {
+            throw new Error(`Account index ${index} is not configured. Available: ${this.getIndexes().join(", ")}`);
+        }
+        this.config.setState({ connection: sub.connection, accounts: sub.accounts });
+        this.activeIndex = index;
+        return sub.accounts;
+    }
+
+    /**
+     * Re-derives every sub-account for another network and re-selects the active one.
+     * Nothing changes if any connector fails.
+     */
+    async reconnect(network: BitcoinNetwork): Promise<void> {
+        const reconnected: Account[][] = [];
+        for (const sub of this.subAccounts) {
+            const purposes = [...new Set(sub.accounts.map(a => a.purpose))];
+            reconnected.push(await sub.connection.connect({ purposes, network }));
+        }
+        this.subAccounts.forEach((sub, i) => {
+            sub.accounts = reconnected[i]!;
+        });
+        this.select(this.activeIndex);
+    }
+
+    /**
+     * Lists every configured account with its derivation path and MIDL EVM address.
+     */
+    describe(): AccountSummary[] {
+        const network = this.config.getState().network;
+        return this.subAccounts.flatMap(sub => sub.accounts.map(account => {
+            const derivationPath = sub.derived ? getDerivationPath(account, network, sub.index) : undefined;
+            let evmAddress: string | undefined;
+            try {
+                evmAddress = this.evmAddressOf?.(account, network);
+            } catch {
+                evmAddress = undefined; // Accounts without a usable public key have no EVM address
+            }
+            return {
+                index: sub.index,
+                active: sub.index === this.activeIndex,
+                purpose: account.purpose,
+                addressType: account.addressType,
+                address: account.address,
+                publicKey: account.publicKey,
+                ...(derivationPath ? { derivationPath } : {}),
+                ...(evmAddress ? { evmAddress } : {}),
+            };
+        }));
+    }
+}
@@ -0,0 +1,142 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+/**
+ * Outcome of the human confirmation step, when a tool has one.
+ */
+export type ElicitationOutcome = "approved" | "declined" | "unsupported";
+
+/**
+ * Details a tool handler reports about what it did.
+ */
+export interface AuditDetails {
+    elicitation?: ElicitationOutcome;
+    psbt?: string;
+    txId?: string;
+    evmTxHash?: string;
+    contractAddress?: string;
+    /** External recipients of a broadcast transaction. */
+    recipients?: string[];
+}
+
+/**
+ * One line of the audit log.
+ */
+export interface AuditEntry extends AuditDetails {
+    timestamp: string;
+    tool: string;
+    arguments: unknown;
+    error?: string;
+}
+
+/**
+ * Filters for querying the audit log.
+ */
+export interface AuditQuery {
+    tool?: string;
+    /** Matches any BTC/EVM address appearing in the arguments or results. */
+    address?: string;
+    since?: string;
+    until?: string;
+    limit?: number;
+}
+
+const REDACTED_KEYS = /mnemonic|private|secret|seed|password|token|wif|xprv/i;
+
+/**
+ * Replaces values of secret-looking keys with a placeholder, recursively.
+ */
+export function redactSecrets(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(redactSecrets);
+    if (value && typeof value === "object") {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, v]) => [key, REDACTED_KEYS.test(key) ? "[REDACTED]" : redactSecrets(v)])
+        );
+    }
+    if (typeof value === "bigint") return value.toString();
+    return value;
+}
+
+/**
+ * Append-only JSONL audit log of actionable tool calls.
+ * Without a file path, entries are kept in memory for the life of the process.
+ */
+export class AuditLog {
+    private readonly filePath: string | null;
+    private readonly memory: AuditEntry[] = [];
+
+    constructor(filePath: string | null = null) {
+        this.filePath = filePath;
+        if (filePath) {
+            mkdirSync(dirname(filePath), { recursive: true });
+        }
+    }
+
+    /**
+     * Creates a log at MIDL_AUDIT_LOG (default ~/.midl-mcp/audit.jsonl). `MIDL_AUDIT_LOG=memory` disables persistence.
+     */
+    static fromEnv(env: Record<string, string | undefined> = process.env): AuditLog {
+        const path = env.MIDL_AUDIT_LOG;
+        if (path === "memory") return new AuditLog(null);
+        return new AuditLog(path || join(homedir(), ".midl-mcp", "audit.jsonl"));
+    }
+
+    getFilePath(): string | null {
+        return this.filePath;
+    }
+
+    /**
+     * Appends an entry, redacting secrets from the arguments.
+     */
+    record(entry: Omit<AuditEntry, "timestamp" | "arguments"> & { arguments: unknown }): AuditEntry {
+        const full: AuditEntry = {
+            timestamp: new Date().toISOString(),
+            ...entry,
+            arguments: redactSecrets(entry.arguments),
+        };
+
+        if (this.filePath) {
+            appendFileSync(this.filePath, JSON.stringify(full) + "\n");
+        } else {
+            this.memory.push(full);
+        }
+        return full;
+    }
+
+    /**
+     * Returns matching entries, most recent last.
+     */
+    query({ tool, address, since, until, limit }: AuditQuery = {}): AuditEntry[] {
+        const sinceMs = since ? Date.parse(since) : undefined;
+        const untilMs = until ? Date.parse(until) : undefined;
+        const needle = address?.toLowerCase();
+
+        const matches = this.readAll().filter(entry => {
+            const time = Date.parse(entry.timestamp);
+            if (tool && entry.tool !== tool) return false;
+            if (sinceMs !== undefined && time < sinceMs) return false;
+            if (untilMs !== undefined && time > untilMs) return false;
+            if (needle && !JSON.stringify(entry).toLowerCase().includes(needle)) return false;
+            return true;
+        });
+
+        return limit ? matches.slice(-limit) : matches;
+    }
+
+    private readAll(): AuditEntry[] {
+        if (!this.filePath) return [...this.memory];
+        if (!existsSync(this.filePath)) return [];
+
+        return readFileSync(this.filePath, "utf8")
+            .split("\n")
+            .filter(line => line.trim())
+            .flatMap(line => {
+                try {
+                    return [JSON.parse(line) as AuditEntry];
+                } catch {
+                    return []; // Skip a partially written trailing line
+                }
+            });
+    }
+}
@@ -1,83 +1,73 @@
-import { createConfig, MempoolSpaceProvider, MaestroSymphonyProvider, AddressPurpose, connect } from "@midl/core";
+import { createConfig, MempoolSpaceProvider, MaestroSymphonyProvider, AddressPurpose } from "@midl/core";
 import { keyPairConnector } from "@midl/node";
+import { getEVMAddress, getPublicKey } from "@midl/executor";
 import { ServerConnector } from "./connector.js";
+import { FakeChain, FakeRunesProvider, fakeChainProfile } from "./fake-chain.js";
+import { AccountManager, parseAccountIndexes } from "./accounts.js";
+import { NetworkProfiles, toBitcoinNetwork, type NetworkProfile } from "./networks.js";
+
+/**
+ * Well-known BIP39 test mnemonic used by the fake chain when MIDL_MNEMONIC is not set.
+ * Never fund these keys on a real network.
+ */
+const FAKE_CHAIN_MNEMONIC = "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
 
 /**
  * Creates a MIDL.js Config instance from environment variables.
  *
  * Supports two modes:
- * 1. MNEMONIC mode: Provide MIDL_MNEMONIC for full signing capability
+ * 1. MNEMONIC mode: Provide MIDL_MNEMONIC for full signing capability. MIDL_ACCOUNT_INDEXES selects
+ *    which sub-accounts to derive (default "0") and MIDL_ACCOUNT_INDEX the initially active one.
  * 2. ADDRESS mode: Provide MIDL_ACCOUNT_ADDRESS + MIDL_ACCOUNT_PUBKEY for unsigned PSBTs
  */
 export async function createMidlConfigFromEnv() {
-    const networkId = (process.env.MIDL_NETWORK || "testnet") as any;
     const mnemonic = process.env.MIDL_MNEMONIC;
     const address = process.env.MIDL_ACCOUNT_ADDRESS;
     let publicKey = process.env.MIDL_ACCOUNT_PUBKEY || "";
 
-    // Determine the base bitcoin network name used by midl-js
-    let bitcoinNetwork: "bitcoin" | "testnet" | "regtest" = "testnet";
-    if (networkId === "mainnet") bitcoinNetwork = "bitcoin";
-    else if (networkId === "regtest") bitcoinNetwork = "regtest";
-
-    // Determine the explorer URL
-    let explorerUrl = `https://mempool.space/${networkId === "mainnet" ? "" : networkId + "/"}tx/`;
-    if (networkId === "regtest") {
-        explorerUrl = "https://mempool.regtest.midl.xyz/tx/";
-    } else if (networkId === "testnet4") {
-        explorerUrl = "https://mempool.space/testnet4/tx/";
-    } else if (networkId === "signet") {
-        explorerUrl = "https://mempool.space/signet/tx/";
-    }
-
-    const networks: any[] = [
-        {
-            id: networkId,
-            network: bitcoinNetwork,
-            explorerUrl
-        }
-    ];
-
-    // Custom RPC URL support
-    const rpcUrl = process.env.MIDL_RPC_URL;
-    const rpcMap = rpcUrl ? { [networkId]: rpcUrl } : undefined;
+    // MIDL_NETWORK names a built-in or MIDL_NETWORKS_FILE profile
+    const profiles = NetworkProfiles.fromEnv(process.env, createProvider);
+    const profile = profiles.getActive();
+    const networks = [toBitcoinNetwork(profile)];
 
     // MODE 1: Mnemonic-based signing (full capability)
     if (mnemonic) {
         console.error("Using MNEMONIC mode - full signing capability enabled");
 
-        const connector = keyPairConnector({
+        const indexes = parseAccountIndexes(process.env.MIDL_ACCOUNT_INDEXES);
+        const createConnector = (accountIndex: number) => keyPairConnector({
             mnemonic,
-            metadata: { name: "MCP Server (Mnemonic)" }
+            accountIndex,
+            metadata: { name: `MCP Server (Mnemonic #${accountIndex})` }
         });
 
         const config = createConfig({
             networks,
-            connectors: [connector],
-            provider: new MempoolSpaceProvider(rpcMap as any),
+            connectors: indexes.map(createConnector),
+            provider: createProvider(profile),
             runesProvider: new MaestroSymphonyProvider(),
             defaultPurpose: AddressPurpose.Payment  // Use Payment account (where funds are)
         });
 
-        // Connect using the mnemonic connector
-        await connect(config, {
-            connector: connector,
-            purposes: [AddressPurpose.Ordinals, AddressPurpose.Payment]
+        // Connect every sub-account; the active one becomes the config's connection
+        const accounts = await AccountManager.connect(config, createConnector, {
+            indexes,
+            purposes: [AddressPurpose.Ordinals, AddressPurpose.Payment],
+            evmAddressOf: getEVMAddress,
+            ...getActiveIndex(),
         });
 
-        const accounts = config.getState().accounts || [];
         console.error(`Connected accounts:`);
-        accounts.forEach((acc: any, i: number) => {
-            console.error(`  [${i}] ${acc.address} (${acc.purpose}, ${acc.addressType})`);
+        accounts.describe().forEach(acc => {
+            console.error(`  [${acc.index}]${acc.active ? "*" : ""} ${acc.address} (${acc.purpose}, ${acc.addressType})`);
         });
-        const connectedAddress = accounts[0]?.address;
 
-        return config;
+        return { config, accounts, networks: profiles };
     }
 
     // MODE 2: Address-only mode (unsigned PSBTs)
     if (!address) {
-        console.warn("Neither MIDL_MNEMONIC nor MIDL_ACCOUNT_ADDRESS set. Server will start in demo/mock mode.");
+        console.warn("Neither MIDL_MNEMONIC nor MIDL_ACCOUNT_ADDRESS set. Server will start in fake chain mode.");
         return null;
     }
 
@@ -87,8 +77,7 @@ export async function createMidlConfigFromEnv() {
     if (!publicKey || publicKey === "NOT_SET" || publicKey.includes("...")) {
         try {
             console.error(`Attempting to recover public key for ${address}...`);
-            const baseUrl = networkId === "regtest" ? "https://mempool.regtest.midl.xyz" : `https://mempool.space/${networkId === "mainnet" ? "" : networkId + "/"}`;
-            const res = await fetch(`${baseUrl}/api/address/${address}/txs`);
+            const res = await fetch(`${profile.mempoolUrl}/api/address/${address}/txs`);
             if (res.ok) {
                 const txs = await res.json() as any[];
                 for (const tx of txs) {
@@ -114,7 +103,7 @@ export async function createMidlConfigFromEnv() {
             metadata: { name: "Server Connector" },
             create: () => connector
         } as any],
-        provider: new MempoolSpaceProvider(rpcMap as any),
+        provider: createProvider(profile),
         runesProvider: new MaestroSymphonyProvider(),
         defaultPurpose: AddressPurpose.Ordinals
     });
@@ -138,5 +127,90 @@ export async function createMidlConfigFromEnv() {
         ]
     });
 
-    return config;
+    return { config, accounts: AccountManager.fromConfig(config, { evmAddressOf: getEVMAddress }), networks: profiles };
+}
+
+/**
+ * Creates the mempool.space-compatible provider for a network profile.
+ */
+function createProvider(profile: NetworkProfile) {
+    return new MempoolSpaceProvider({ [profile.id]: profile.mempoolUrl } as Record<NetworkProfile["id"], string>);
+}
+
+/**
+ * Reads MIDL_ACCOUNT_INDEX, the sub-account to start with.
+ */
+function getActiveIndex(): { activeIndex?: number } {
+    const value = process.env.MIDL_ACCOUNT_INDEX;
+    if (value === undefined || value === "") return {};
+    const activeIndex = Number(value);
+    if (!Number.isInteger(activeIndex) || activeIndex < 0) {
+        throw new Error(`Invalid MIDL_ACCOUNT_INDEX: ${value}`);
+    }
+    return { activeIndex };
+}
+
+/**
+ * Creates a MIDL.js Config backed by a deterministic in-memory network.
+ *
+ * Uses MIDL_MNEMONIC (or a well-known test mnemonic) for real signing, derives the sub-accounts in
+ * MIDL_ACCOUNT_INDEXES, and funds every one with MIDL_FAKE_CHAIN_FUNDING sats (default 1,000,000)
+ * split across two UTXOs. The network profile points the mempool, ord and Blockscout URLs at the
+ * fake chain's loopback API, so no lookup leaves the process.
+ */
+export async function createFakeChainConfig() {
+    const networkId = (process.env.MIDL_NETWORK || "regtest") as any;
+    const bitcoinNetwork = networkId === "regtest" ? "regtest" : "testnet";
+    const network: any = {
+        id: networkId,
+        network: bitcoinNetwork,
+        explorerUrl: "fake-chain://tx/"
+    };
+
+    const fakeChain = new FakeChain({
+        network,
+        autoMine: process.env.MIDL_FAKE_CHAIN_AUTOMINE === "true",
+    });
+
+    const networks = new NetworkProfiles([fakeChainProfile(network, await fakeChain.listen())], network.id);
+
+    const indexes = parseAccountIndexes(process.env.MIDL_ACCOUNT_INDEXES);
+    const createConnector = (accountIndex: number) => keyPairConnector({
+        mnemonic: process.env.MIDL_MNEMONIC || FAKE_CHAIN_MNEMONIC,
+        accountIndex,
+        metadata: { name: `MCP Server (Fake Chain #${accountIndex})` }
+    });
+
+    const config = createConfig({
+        networks: [network],
+        connectors: indexes.map(createConnector),
+        provider: fakeChain,
+        runesProvider: new FakeRunesProvider(),
+        defaultPurpose: AddressPurpose.Payment
+    });
+
+    const accounts = await AccountManager.connect(config, createConnector, {
+        indexes,
+        purposes: [AddressPurpose.Ordinals, AddressPurpose.Payment],
+        evmAddressOf: getEVMAddress,
+        ...getActiveIndex(),
+    });
+
+    const funding = Number(process.env.MIDL_FAKE_CHAIN_FUNDING || 1_000_000);
+    const funded = new Set<string>();
+    for (const account of accounts.getAllAccounts()) {
+        const publicKey = getPublicKey(account, network);
+        if (publicKey) {
+            fakeChain.registerEvmAccount(publicKey, getEVMAddress(account, network));
+        }
+
+        if (funded.has(account.address)) continue;
+        funded.add(account.address);
+        const first = Math.floor(funding * 0.8);
+        fakeChain.fund(account.address, first);
+        fakeChain.fund(account.address, funding - first);
+        console.error(`  [fake-chain] funded ${account.address} (${account.purpose}) with ${funding} sats`);
+    }
+
+    return { config, fakeChain, accounts, networks };
 }
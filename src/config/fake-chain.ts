@@ -0,0 +1,534 @@
+import type {
+    AbstractProvider,
+    AbstractRunesProvider,
+    BitcoinNetwork,
+    FeeRateResponse,
+    RuneBalanceResponse,
+    RuneResponse,
+    RuneUTXO,
+    RunesResponse,
+    TransactionStatusResponse,
+    UTXO,
+} from "@midl/core";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Transaction, address as btcAddress, crypto, networks } from "bitcoinjs-lib";
+import { custom, encodeAbiParameters, getContractAddress, keccak256, parseTransaction, toHex, zeroAddress, type Hex } from "viem";
+import type { NetworkProfile } from "./networks.js";
+
+/**
+ * Options for the simulated network.
+ */
+export interface FakeChainOptions {
+    network: BitcoinNetwork;
+    /** Starting block height. */
+    blockHeight?: number;
+    /** Fee rate overrides in sat/vB. */
+    feeRates?: Partial<FeeRateResponse>;
+    /** Mine a block after every accepted broadcast. */
+    autoMine?: boolean;
+    /** Chain ID reported by the simulated EVM RPC. */
+    evmChainId?: number;
+}
+
+interface FakeUtxo {
+    txid: string;
+    vout: number;
+    value: number;
+    address: string;
+}
+
+interface FakeTransaction {
+    hex: string;
+    blockHeight?: number;
+}
+
+/**
+ * Response of the fake chain's Esplora API: an HTTP status and a JSON body.
+ */
+export interface FakeApiResponse {
+    status: number;
+    body: unknown;
+}
+
+interface FakeEvmReceipt {
+    transactionHash: Hex;
+    blockNumber: number;
+    from: Hex;
+    to: Hex | null;
+    contractAddress: Hex | null;
+    btcTxId: string;
+    nonce: number;
+    input: Hex;
+}
+
+const DEFAULT_FEE_RATES: FeeRateResponse = {
+    fastestFee: 5,
+    halfHourFee: 3,
+    hourFee: 2,
+    economyFee: 1,
+    minimumFee: 1,
+};
+
+/** Gas reported for every EVM transaction estimate. */
+const FAKE_GAS = 100_000n;
+
+/** Confirmed transactions per `/address/{address}/txs` page, as on mempool.space. */
+const ESPLORA_PAGE_SIZE = 25;
+
+/** Timestamp of block 0; every later block is ten minutes apart. */
+const GENESIS_TIME = 1_700_000_000;
+
+/**
+ * Deterministic, in-memory Bitcoin + MIDL EVM network.
+ *
+ * Implements the MIDL `AbstractProvider` so it can be passed to `createConfig`, and exposes a viem
+ * transport answering the EVM RPC methods used by the executor. `listen` serves the Esplora and ord
+ * endpoints the tools query on loopback, so fake chain mode never reaches a real indexer. Scripts
+ * and signatures are not verified; the UTXO set, mempool, spends and receipts are tracked exactly.
+ */
+export class FakeChain implements AbstractProvider {
+    private readonly network: BitcoinNetwork;
+    private readonly bitcoinNetwork: networks.Network;
+    private readonly autoMine: boolean;
+    private readonly evmChainId: number;
+    private height: number;
+    private feeRates: FeeRateResponse;
+    private fundingCounter = 0;
+
+    private readonly utxos = new Map<string, FakeUtxo>();
+    private readonly transactions = new Map<string, FakeTransaction>();
+    private readonly mempool = new Set<string>();
+    /** Spending transaction and input index of every spent outpoint. */
+    private readonly spends = new Map<string, { txid: string; vin: number }>();
+    private server: Server | undefined;
+
+    private evmBlockNumber = 0;
+    private readonly evmNonces = new Map<string, number>();
+    private readonly evmAccounts = new Map<string, Hex>();
+    private readonly evmReceipts = new Map<string, FakeEvmReceipt>();
+
+    constructor(options: FakeChainOptions) {
+        this.network = options.network;
+        this.bitcoinNetwork = networks[options.network.network as keyof typeof networks] as networks.Network || networks.regtest;
+        this.autoMine = options.autoMine ?? false;
+        this.evmChainId = options.evmChainId ?? 777;
+        this.height = options.blockHeight ?? 100;
+        this.feeRates = { ...DEFAULT_FEE_RATES, ...options.feeRates };
+    }
+
+    /**
+     * Creates a funding transaction paying `value` sats to `address`. Returns its txid.
+     */
+    fund(address: string, value: number, { confirmed = true }: { confirmed?: boolean } = {}): string {
+        const tx = new Transaction();
+        tx.version = 2;
+        const seed = crypto.sha256(Buffer.from(`fake-chain:fund:${this.fundingCounter++}`));
+        tx.addInput(Buffer.from(seed), 0xffffffff);
+        tx.addOutput(btcAddress.toOutputScript(address, this.bitcoinNetwork), BigInt(value));
+
+        const txid = tx.getId();
+        this.transactions.set(txid, {
+            hex: tx.toHex(),
+            ...(confirmed ? { blockHeight: this.height } : {}),
+        });
+        if (!confirmed) this.mempool.add(txid);
+        this.utxos.set(`${txid}:0`, { txid, vout: 0, value, address });
+        return txid;
+    }
+
+    /**
+     * Mines `count` blocks, confirming everything in the mempool into the first one.
+     */
+    mineBlocks(count: number = 1): number {
+        for (let i = 0; i < count; i++) {
+            this.height++;
+            for (const txid of this.mempool) {
+                const tx = this.transactions.get(txid);
+                if (tx) tx.blockHeight = this.height;
+            }
+            this.mempool.clear();
+        }
+        return this.height;
+    }
+
+    setFeeRates(feeRates: Partial<FeeRateResponse>) {
+        this.feeRates = { ...this.feeRates, ...feeRates };
+    }
+
+    getMempool(): string[] {
+        return [...this.mempool];
+    }
+
+    /**
+     * Associates the public key embedded in MIDL EVM transactions with its EVM address.
+     */
+    registerEvmAccount(publicKey: string, evmAddress: Hex) {
+        this.evmAccounts.set(publicKey.toLowerCase(), evmAddress);
+    }
+
+    async getUTXOs(_network: BitcoinNetwork, address: string): Promise<UTXO[]> {
+        return [...this.utxos.values()]
+            .filter(utxo => utxo.address === address)
+            .map(utxo => {
+                const blockHeight = this.transactions.get(utxo.txid)?.blockHeight;
+                return {
+                    txid: utxo.txid,
+                    vout: utxo.vout,
+                    value: utxo.value,
+                    status: {
+                        confirmed: blockHeight !== undefined,
+                        block_height: blockHeight ?? 0,
+                    },
+                };
+            });
+    }
+
+    async broadcastTransaction(_network: BitcoinNetwork, txHex: string): Promise<string> {
+        const tx = Transaction.fromHex(txHex);
+        const txid = tx.getId();
+        if (this.transactions.has(txid)) {
+            throw new Error("Transaction already in block chain or mempool");
+        }
+
+        let inputTotal = 0;
+        const spent: string[] = [];
+        for (const input of tx.ins) {
+            const key = `${Buffer.from(input.hash).reverse().toString("hex")}:${input.index}`;
+            const utxo = this.utxos.get(key);
+            if (!utxo) {
+                throw new Error("bad-txns-inputs-missingorspent");
+            }
+            if (input.witness.length === 0 && input.script.length === 0) {
+                throw new Error("mandatory-script-verify-flag-failed (Witness program was passed an empty witness)");
+            }
+            inputTotal += utxo.value;
+            spent.push(key);
+        }
+
+        const outputTotal = tx.outs.reduce((acc, out) => acc + Number(out.value), 0);
+        if (outputTotal > inputTotal) {
+            throw new Error("bad-txns-in-belowout");
+        }
+
+        spent.forEach((key, vin) => {
+            this.utxos.delete(key);
+            this.spends.set(key, { txid, vin });
+        });
+        tx.outs.forEach((out, vout) => {
+            let address: string;
+            try {
+                address = btcAddress.fromOutputScript(out.script, this.bitcoinNetwork);
+            } catch {
+                return; // OP_RETURN and non-standard outputs are unspendable here
+            }
+            this.utxos.set(`${txid}:${vout}`, { txid, vout, value: Number(out.value), address });
+        });
+
+        this.transactions.set(txid, { hex: txHex });
+        this.mempool.add(txid);
+        if (this.autoMine) this.mineBlocks();
+
+        return txid;
+    }
+
+    async getLatestBlockHeight(_network: BitcoinNetwork): Promise<number> {
+        return this.height;
+    }
+
+    async getFeeRate(_network: BitcoinNetwork): Promise<FeeRateResponse> {
+        return { ...this.feeRates };
+    }
+
+    async getTransactionStatus(_network: BitcoinNetwork, txid: string): Promise<TransactionStatusResponse> {
+        const tx = this.transactions.get(txid);
+        if (!tx) throw new Error(`Transaction not found: ${txid}`);
+        return {
+            confirmed: tx.blockHeight !== undefined,
+            block_height: tx.blockHeight ?? 0,
+        };
+    }
+
+    async getTransactionHex(_network: BitcoinNetwork, txid: string): Promise<string> {
+        const tx = this.transactions.get(txid);
+        if (!tx) throw new Error(`Transaction not found: ${txid}`);
+        return tx.hex;
+    }
+
+    /**
+     * Answers the Esplora (`/api/...`) and ord (`/outputs/...`) requests the tools make: outspends,
+     * transaction status, address history and inscribed outputs (always none). Anything else is a 404.
+     */
+    apiRequest(path: string): FakeApiResponse {
+        const url = new URL(path, "http://fake-chain");
+        const parts = url.pathname.split("/").filter(Boolean);
+        const notFound = (message: string): FakeApiResponse => ({ status: 404, body: { error: message } });
+
+        if (parts[0] === "outputs" && parts.length === 2) {
+            return { status: 200, body: [] };
+        }
+        if (parts[0] !== "api") return notFound("Not found");
+
+        const [, resource, id, sub, arg] = parts;
+        if (resource === "tx" && id) {
+            const tx = this.transactions.get(id);
+            if (!tx) return notFound("Transaction not found");
+            if (sub === "status" && parts.length === 4) return { status: 200, body: this.formatStatus(tx) };
+            if (sub === "outspend" && arg !== undefined && parts.length === 5) {
+                const spender = this.spends.get(`${id}:${arg}`);
+                if (!spender) return { status: 200, body: { spent: false } };
+                return { status: 200, body: { spent: true, ...spender, status: this.formatStatus(this.transactions.get(spender.txid)!) } };
+            }
+        }
+        if (resource === "address" && id && sub === "txs" && parts.length === 4) {
+            return { status: 200, body: this.getAddressTransactions(id, url.searchParams.get("after_txid") ?? undefined) };
+        }
+        return notFound("Not found");
+    }
+
+    /**
+     * Serves `apiRequest` over HTTP on a free loopback port. Resolves to the base URL, which stands
+     * in for both the mempool and ord server URLs of the fake chain's network profile.
+     */
+    async listen(): Promise<string> {
+        if (!this.server) {
+            const server = createServer((req, res) => {
+                const { status, body } = this.apiRequest(req.url ?? "/");
+                res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+            });
+            await new Promise<void>((resolve, reject) => {
+                server.once("error", reject);
+                server.listen(0, "127.0.0.1", () => resolve());
+            });
+            // The API only serves the process's own tools, so it must not keep the process alive
+            server.unref();
+            this.server = server;
+        }
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    /**
+     * Stops the server started by `listen`.
+     */
+    async close(): Promise<void> {
+        const server = this.server;
+        this.server = undefined;
+        if (server) await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+
+    /**
+     * Answers the EVM JSON-RPC methods used by viem and the MIDL executor.
+     */
+    async evmRequest(method: string, params: any[] = []): Promise<unknown> {
+        switch (method) {
+            case "eth_chainId":
+                return toHex(this.evmChainId);
+            case "eth_blockNumber":
+                return toHex(this.evmBlockNumber);
+            case "eth_getTransactionCount":
+                return toHex(this.evmNonces.get(String(params[0]).toLowerCase()) ?? 0);
+            case "eth_getBalance":
+                return "0x0";
+            case "eth_gasPrice":
+                return toHex(1000);
+            case "eth_call":
+                // The only contract read the executor performs is Executor.btcFeeRate()
+                return encodeAbiParameters([{ type: "uint256" }], [BigInt(this.feeRates.hourFee)]);
+            case "eth_estimateGas":
+                return toHex(FAKE_GAS);
+            case "eth_estimateGasMulti":
+                return (params[0] as unknown[]).map(() => toHex(FAKE_GAS));
+            case "eth_sendBTCTransactions":
+                return this.sendBTCTransactions(params[0] as Hex[], params[1] as string);
+            case "eth_getTransactionReceipt":
+                return this.formatReceipt(this.evmReceipts.get(String(params[0]).toLowerCase()));
+            case "eth_getTransactionByHash":
+                return this.formatTransaction(this.evmReceipts.get(String(params[0]).toLowerCase()));
+            default:
+                throw new Error(`Method ${method} is not supported by the fake chain`);
+        }
+    }
+
+    /**
+     * viem transport backed by `evmRequest`.
+     */
+    evmTransport() {
+        return custom({
+            request: ({ method, params }: { method: string; params?: any }) => this.evmRequest(method, params),
+        });
+    }
+
+    private async sendBTCTransactions(serializedTransactions: Hex[], btcTxHex: string): Promise<Hex[]> {
+        const btcTxId = Transaction.fromHex(btcTxHex).getId();
+        if (!this.transactions.has(btcTxId)) {
+            await this.broadcastTransaction(this.network, btcTxHex);
+        }
+
+        this.evmBlockNumber++;
+        return serializedTransactions.map(serialized => {
+            const hash = keccak256(serialized);
+            const tx = parseTransaction(serialized) as { to?: Hex; data?: Hex; publicKey?: Hex };
+            const from = (tx.publicKey && this.evmAccounts.get(tx.publicKey.toLowerCase())) || zeroAddress;
+            const nonce = this.evmNonces.get(from.toLowerCase()) ?? 0;
+            this.evmNonces.set(from.toLowerCase(), nonce + 1);
+
+            this.evmReceipts.set(hash.toLowerCase(), {
+                transactionHash: hash,
+                blockNumber: this.evmBlockNumber,
+                from,
+                to: tx.to ?? null,
+                contractAddress: tx.to ? null : getContractAddress({ from, nonce: BigInt(nonce) }),
+                btcTxId,
+                nonce,
+                input: tx.data ?? "0x",
+            });
+            return hash;
+        });
+    }
+
+    private formatStatus(tx: FakeTransaction) {
+        if (tx.blockHeight === undefined) return { confirmed: false };
+        return {
+            confirmed: true,
+            block_height: tx.blockHeight,
+            block_hash: Buffer.from(crypto.sha256(Buffer.from(`fake-chain:block:${tx.blockHeight}`))).toString("hex"),
+            block_time: GENESIS_TIME + tx.blockHeight * 600,
+        };
+    }
+
+    private toEsploraTransaction(txid: string, tx: FakeTransaction) {
+        const decoded = Transaction.fromHex(tx.hex);
+        const toAddress = (script: Uint8Array) => {
+            try {
+                return btcAddress.fromOutputScript(script, this.bitcoinNetwork);
+            } catch {
+                return undefined;
+            }
+        };
+        const vin = decoded.ins.map(input => {
+            const prevTxid = Buffer.from(input.hash).reverse().toString("hex");
+            const prev = this.transactions.get(prevTxid);
+            const out = prev ? Transaction.fromHex(prev.hex).outs[input.index] : undefined;
+            const address = out ? toAddress(out.script) : undefined;
+            return {
+                txid: prevTxid,
+                vout: input.index,
+                sequence: input.sequence,
+                // Funding transactions spend nothing real, like coinbase inputs
+                prevout: out ? { ...(address ? { scriptpubkey_address: address } : {}), value: Number(out.value) } : null,
+            };
+        });
+        const vout = decoded.outs.map(out => {
+            const address = toAddress(out.script);
+            return { ...(address ? { scriptpubkey_address: address } : {}), value: Number(out.value) };
+        });
+        const inputTotal = vin.reduce((acc, input) => acc + (input.prevout?.value ?? 0), 0);
+        const outputTotal = vout.reduce((acc, out) => acc + out.value, 0);
+        return {
+            txid,
+            version: decoded.version,
+            locktime: decoded.locktime,
+            vin,
+            vout,
+            fee: vin.every(input => input.prevout) ? inputTotal - outputTotal : 0,
+            status: this.formatStatus(tx),
+        };
+    }
+
+    /**
+     * An address's transactions the way mempool.space pages them: mempool transactions then the
+     * newest page of confirmed ones, or the confirmed ones after `afterTxid`.
+     */
+    private getAddressTransactions(address: string, afterTxid?: string) {
+        const touching = [...this.transactions.entries()]
+            .map(([txid, tx]) => this.toEsploraTransaction(txid, tx))
+            .filter(tx => tx.vout.some(out => out.scriptpubkey_address === address)
+                || tx.vin.some(input => input.prevout?.scriptpubkey_address === address))
+            .reverse();
+        const unconfirmed = touching.filter(tx => !tx.status.confirmed);
+        const confirmed = touching
+            .filter(tx => tx.status.confirmed)
+            .sort((a, b) => (b.status.block_height ?? 0) - (a.status.block_height ?? 0));
+
+        const start = afterTxid ? confirmed.findIndex(tx => tx.txid === afterTxid) + 1 : 0;
+        return [...(afterTxid ? [] : unconfirmed), ...confirmed.slice(start, start + ESPLORA_PAGE_SIZE)];
+    }
+
+    private formatTransaction(receipt: FakeEvmReceipt | undefined) {
+        if (!receipt) return null;
+        return {
+            hash: receipt.transactionHash,
+            nonce: toHex(receipt.nonce),
+            blockHash: keccak256(toHex(`fake-chain:block:${receipt.blockNumber}`)),
+            blockNumber: toHex(receipt.blockNumber),
+            transactionIndex: "0x0",
+            from: receipt.from,
+            to: receipt.to,
+            value: "0x0",
+            gas: toHex(FAKE_GAS),
+            gasPrice: toHex(1000),
+            input: receipt.input,
+            type: "0x7",
+            chainId: toHex(this.evmChainId),
+        };
+    }
+
+    private formatReceipt(receipt: FakeEvmReceipt | undefined) {
+        if (!receipt) return null;
+        const blockHash = keccak256(toHex(`fake-chain:block:${receipt.blockNumber}`));
+        return {
+            transactionHash: receipt.transactionHash,
+            transactionIndex: "0x0",
+            blockHash,
+            blockNumber: toHex(receipt.blockNumber),
+            from: receipt.from,
+            to: receipt.to,
+            contractAddress: receipt.contractAddress,
+            cumulativeGasUsed: toHex(FAKE_GAS),
+            gasUsed: toHex(FAKE_GAS),
+            effectiveGasPrice: toHex(1000),
+            logs: [],
+            logsBloom: `0x${"00".repeat(256)}`,
+            status: "0x1",
+            type: "0x7",
+        };
+    }
+}
+
+/**
+ * Network profile of a fake chain whose API `listen` serves at `apiUrl`: mempool, ord and
+ * Blockscout requests all go there.
+ */
+export function fakeChainProfile(network: BitcoinNetwork, apiUrl: string): NetworkProfile {
+    return {
+        name: network.id,
+        id: network.id,
+        network: network.network,
+        mempoolUrl: apiUrl,
+        blockscoutUrl: `${apiUrl}/blockscout`,
+        explorerUrl: network.explorerUrl,
+        ordUrl: apiUrl,
+    };
+}
+
+/**
+ * Runes provider for the fake chain, which has no runes. Keeps asset checks from querying a real
+ * indexer about simulated addresses.
+ */
+export class FakeRunesProvider implements AbstractRunesProvider {
+    async getRune(_network: BitcoinNetwork, runeId: string): Promise<RuneResponse> {
+        throw new Error(`Rune ${runeId} not found: the fake chain has no runes.`);
+    }
+
+    async getRuneBalance(_network: BitcoinNetwork, address: string, _runeId: string): Promise<RuneBalanceResponse> {
+        return { address, balance: 0n };
+    }
+
+    async getRunes(_network: BitcoinNetwork, _address: string, params: { limit?: number; offset?: number } = {}): Promise<RunesResponse> {
+        return { limit: params.limit ?? 0, offset: params.offset ?? 0, total: 0, results: [] };
+    }
+
+    async getRuneUTXOs(): Promise<RuneUTXO[]> {
+        return [];
+    }
+}
@@ -0,0 +1,217 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join, posix, resolve } from "node:path";
+
+export interface ImportResolverSettings {
+    /** Package versions fetched when a package is not available locally, e.g. { "@openzeppelin/contracts": "5.1.0" }. */
+    libraries: Record<string, string>;
+    /** Directories searched before anything is fetched: node_modules folders or vendored library trees. */
+    searchPaths: string[];
+    /** Directory fetched sources are cached in, or null to keep them in memory only. */
+    cacheDir: string | null;
+    /** npm CDN serving `<package>@<version>/<file>`. */
+    cdnUrl: string;
+}
+
+export const DEFAULT_IMPORT_RESOLVER_SETTINGS: ImportResolverSettings = {
+    libraries: {
+        "@openzeppelin/contracts": "5.1.0",
+        "@openzeppelin/contracts-upgradeable": "5.1.0",
+    },
+    searchPaths: [],
+    cacheDir: null,
+    cdnUrl: "https://cdn.jsdelivr.net/npm",
+};
+
+/**
+ * An import that could not be found locally, in the cache or on the CDN.
+ */
+export interface UnresolvedImport {
+    /** Import path as written in the source. */
+    path: string;
+    importedBy: string;
+    reason: string;
+}
+
+export interface ResolvedSources {
+    /** The given sources plus every file they import, keyed by source unit name. */
+    sources: Record<string, string>;
+    unresolved: UnresolvedImport[];
+}
+
+/**
+ * Parses `package@version` pins separated by commas, e.g. `@openzeppelin/contracts@4.9.6,solmate@6.2.0`.
+ */
+function parseLibraries(value: string): Record<string, string> {
+    const libraries: Record<string, string> = {};
+    for (const entry of value.split(",").map(s => s.trim()).filter(Boolean)) {
+        const at = entry.lastIndexOf("@");
+        if (at <= 0) throw new Error(`Invalid MIDL_SOLIDITY_LIBRARIES entry "${entry}" (expected package@version)`);
+        libraries[entry.slice(0, at)] = entry.slice(at + 1);
+    }
+    return libraries;
+}
+
+/**
+ * Paths imported by a Solidity source, in every form: `import "x";`, `import "x" as X;`,
+ * `import * as X from "x";` and `import {A, B as C} from "x";`. Commented-out imports are ignored.
+ */
+export function parseImports(content: string): string[] {
+    const code = content.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, "");
+    const importRegex = /\bimport\b\s*(?:[^;"']*?\bfrom\s*)?["']([^"']+)["'][^;]*;/g;
+    return [...code.matchAll(importRegex)].map(match => match[1]!);
+}
+
+/**
+ * Applies solc-style remappings (`[context:]prefix=target`), longest matching prefix first.
+ */
+function applyRemappings(path: string, importedBy: string, remappings: string[]): string {
+    let best: { prefix: string; target: string } | undefined;
+    for (const remapping of remappings) {
+        const [left, target] = remapping.split("=");
+        if (!left || target === undefined) continue;
+        const colon = left.indexOf(":");
+        const context = colon >= 0 ? left.slice(0, colon) : "";
+        const prefix = colon >= 0 ? left.slice(colon + 1) : left;
+        if (!importedBy.startsWith(context) || !path.startsWith(prefix)) continue;
+        if (!best || prefix.length > best.prefix.length) best = { prefix, target };
+    }
+    return best ? best.target + path.slice(best.prefix.length) : path;
+}
+
+/**
+ * Source unit name of an import the way solc computes it: relative paths (`./`, `../`) are
+ * joined to the importing file's directory, then remappings apply.
+ */
+export function resolveImportPath(importPath: string, importedBy: string, remappings: string[] = []): string {
+    const path = importPath.startsWith("./") || importPath.startsWith("../")
+        ? posix.normalize(posix.join(posix.dirname(importedBy), importPath))
+        : importPath;
+    return applyRemappings(path, importedBy, remappings);
+}
+
+/**
+ * Splits a source unit name into its npm package (`@scope/name` or `name`) and the file inside it.
+ */
+function splitPackage(path: string): { pkg: string; file: string } {
+    const parts = path.split("/");
+    const length = path.startsWith("@") ? 2 : 1;
+    return { pkg: parts.slice(0, length).join("/"), file: parts.slice(length).join("/") };
+}
+
+/**
+ * Finds the sources imported by Solidity files. Each file is looked up in the search paths
+ * (local node_modules or vendored directories) first, then in the cache, and only then fetched
+ * from the CDN at the version its package is pinned to. Fetched files are cached on disk, so
+ * repeat builds work offline.
+ */
+export class ImportResolver {
+    private readonly settings: ImportResolverSettings;
+    private readonly memory = new Map<string, string>();
+
+    constructor(settings: ImportResolverSettings = DEFAULT_IMPORT_RESOLVER_SETTINGS) {
+        this.settings = settings;
+    }
+
+    /**
+     * Reads settings from the environment:
+     * - MIDL_SOLIDITY_LIBRARIES: `package@version` pins, merged over the OpenZeppelin defaults
+     * - MIDL_SOLIDITY_PATHS: comma-separated search paths (default ./node_modules)
+     * - MIDL_SOLIDITY_CACHE_DIR: cache directory (default ~/.midl-mcp/solidity-cache), `memory` disables it
+     * - MIDL_SOLIDITY_CDN_URL: npm CDN base URL
+     */
+    static fromEnv(env: Record<string, string | undefined> = process.env, cwd: string = process.cwd()): ImportResolver {
+        const cacheDir = env.MIDL_SOLIDITY_CACHE_DIR;
+        return new ImportResolver({
+            libraries: { ...DEFAULT_IMPORT_RESOLVER_SETTINGS.libraries, ...parseLibraries(env.MIDL_SOLIDITY_LIBRARIES ?? "") },
+            searchPaths: env.MIDL_SOLIDITY_PATHS
+                ? env.MIDL_SOLIDITY_PATHS.split(",").map(s => s.trim()).filter(Boolean).map(p => resolve(cwd, p))
+                : [join(cwd, "node_modules")],
+            cacheDir: cacheDir === "memory" ? null : cacheDir || join(homedir(), ".midl-mcp", "solidity-cache"),
+            cdnUrl: env.MIDL_SOLIDITY_CDN_URL || DEFAULT_IMPORT_RESOLVER_SETTINGS.cdnUrl,
+        });
+    }
+
+    getSettings(): ImportResolverSettings {
+        return this.settings;
+    }
+
+    /**
+     * Collects every file the given sources import, transitively. Imports that cannot be found are
+     * reported rather than thrown, so callers can decide whether to fail or let solc point at them.
+     */
+    async resolve(sources: Record<string, string>, remappings: string[] = []): Promise<ResolvedSources> {
+        const resolved: Record<string, string> = { ...sources };
+        const unresolved: UnresolvedImport[] = [];
+        const queue = Object.keys(sources);
+
+        for (let file = queue.shift(); file !== undefined; file = queue.shift()) {
+            for (const importPath of parseImports(resolved[file]!)) {
+                const target = resolveImportPath(importPath, file, remappings);
+                if (target in resolved || unresolved.some(u => u.path === importPath && u.importedBy === file)) continue;
+
+                const found = await this.load(target);
+                if (typeof found === "string") {
+                    resolved[target] = found;
+                    queue.push(target);
+                } else {
+                    unresolved.push({ path: importPath, importedBy: file, reason: found.reason });
+                }
+            }
+        }
+
+        return { sources: resolved, unresolved };
+    }
+
+    private async load(path: string): Promise<string | { reason: string }> {
+        if (path.startsWith("/") || path.split("/").includes("..")) {
+            return { reason: "path is outside the source tree" };
+        }
+
+        for (const dir of this.settings.searchPaths) {
+            const local = join(dir, path);
+            if (existsSync(local)) return readFileSync(local, "utf8");
+        }
+
+        const { pkg, file } = splitPackage(path);
+        const version = this.settings.libraries[pkg];
+        if (!file || !version) {
+            return { reason: `not found in the sources or search paths, and no version of "${pkg}" is pinned` };
+        }
+
+        const key = `${pkg}@${version}/${file}`;
+        const cached = this.memory.get(key) ?? this.readCache(key);
+        if (cached !== undefined) return cached;
+
+        try {
+            const response = await fetch(`${this.settings.cdnUrl}/${key}`);
+            if (!response.ok) return { reason: `${key} not available (${response.status} ${response.statusText})` };
+            const content = await response.text();
+            this.memory.set(key, content);
+            this.writeCache(key, content);
+            return content;
+        } catch (error: any) {
+            return { reason: `could not fetch ${key}: ${error.message}` };
+        }
+    }
+
+    private readCache(key: string): string | undefined {
+        if (!this.settings.cacheDir) return undefined;
+        const path = join(this.settings.cacheDir, key);
+        return existsSync(path) ? readFileSync(path, "utf8") : undefined;
+    }
+
+    private writeCache(key: string, content: string) {
+        if (!this.settings.cacheDir) return;
+        const path = join(this.settings.cacheDir, key);
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(path, content);
+    }
+}
+
+/**
+ * One line per unresolved import, for error messages.
+ */
+export function formatUnresolvedImports(unresolved: UnresolvedImport[]): string {
+    return unresolved.map(u => `- ${u.path} (imported by ${u.importedBy}): ${u.reason}`).join("\n");
+}
@@ -0,0 +1,29 @@
+/**
+ * A MIDL EVM transaction anchored by a Bitcoin transaction.
+ */
+export interface EvmIntentionSummary {
+    kind: "deploy" | "call";
+    /** EVM sender. */
+    from?: string;
+    /** Target contract (calls) or predicted contract address (deployments). */
+    contractAddress?: string;
+    functionName?: string;
+    /** Size of the calldata / init code in bytes. */
+    dataBytes?: number;
+}
+
+/**
+ * In-memory index of EVM intentions by the txid of the Bitcoin transaction anchoring them,
+ * so signing and broadcast confirmations can show what a MIDL anchor transaction carries.
+ */
+export class PendingIntentions {
+    private readonly byTxId = new Map<string, EvmIntentionSummary[]>();
+
+    record(btcTxId: string, intentions: EvmIntentionSummary[]) {
+        this.byTxId.set(btcTxId, intentions);
+    }
+
+    get(btcTxId: string): EvmIntentionSummary[] {
+        return this.byTxId.get(btcTxId) ?? [];
+    }
+}
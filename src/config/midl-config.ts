@@ -1,14 +1,71 @@
-import { type Config } from "@midl/core";
+import type { BitcoinNetwork, Config } from "@midl/core";
+import { http, type Transport } from "viem";
+import { DEFAULT_BROADCAST_LIMITS, SpendingPolicy, type BroadcastLimits } from "./policy.js";
+import { AuditLog } from "./audit-log.js";
+import { AccountManager } from "./accounts.js";
+import { PendingIntentions } from "./intentions.js";
+import { MultisigStore } from "./multisig.js";
+import { TransactionTracker } from "./tracker.js";
+import { ResourcePoller } from "./resource-poller.js";
+import { ImportResolver } from "./import-resolver.js";
+import { NetworkProfiles, toBitcoinNetwork, type NetworkProfile } from "./networks.js";
+
+/**
+ * Optional overrides for the wrapped configuration.
+ */
+export interface MidlConfigOptions {
+    /** viem transport used for MIDL EVM RPC calls. Defaults to the chain's public HTTP RPC. */
+    evmTransport?: Transport;
+    /** Spending policy enforced by actionable tools. Defaults to no limits. */
+    policy?: SpendingPolicy;
+    /** Absurd-fee limits checked before every broadcast. Defaults to `DEFAULT_BROADCAST_LIMITS`. */
+    broadcastLimits?: BroadcastLimits;
+    /** Audit log for actionable tool calls. Defaults to an in-memory log. */
+    auditLog?: AuditLog;
+    /** Switchable sub-accounts. Defaults to the config's connected accounts as a single account. */
+    accounts?: AccountManager;
+    /** Named network profiles for `switch-network`. Defaults to the config's network only. */
+    networks?: NetworkProfiles;
+    /** Persisted multisig wallets. Defaults to an in-memory store. */
+    multisig?: MultisigStore;
+    /** Confirmation tracker shared by all sessions. Defaults to the default tracker settings. */
+    tracker?: TransactionTracker;
+    /** Poller behind resource subscriptions, shared by all sessions. Defaults to the default intervals. */
+    poller?: ResourcePoller;
+    /** Solidity import resolver shared by the compile, deploy and verify tools. Defaults to pinned CDN fetches cached in memory. */
+    importResolver?: ImportResolver;
+}
 
 /**
  * Wrapper for MIDL.js configuration to enforce safety invariants.
  */
 export class MidlConfigWrapper {
     private config: Config;
+    private options: MidlConfigOptions;
+    private policy: SpendingPolicy;
+    private broadcastLimits: BroadcastLimits;
+    private auditLog: AuditLog;
+    private accounts: AccountManager;
+    private networks: NetworkProfiles;
+    private intentions = new PendingIntentions();
+    private multisig: MultisigStore;
+    private tracker: TransactionTracker;
+    private poller: ResourcePoller;
+    private importResolver: ImportResolver;
 
-    constructor(config: Config) {
+    constructor(config: Config, options: MidlConfigOptions = {}) {
         this.config = config;
+        this.options = options;
+        this.policy = options.policy ?? new SpendingPolicy();
+        this.broadcastLimits = options.broadcastLimits ?? DEFAULT_BROADCAST_LIMITS;
+        this.auditLog = options.auditLog ?? new AuditLog();
         this.validateConfig();
+        this.accounts = options.accounts ?? AccountManager.fromConfig(config);
+        this.networks = options.networks ?? NetworkProfiles.fromConfig(config);
+        this.multisig = options.multisig ?? new MultisigStore();
+        this.tracker = options.tracker ?? new TransactionTracker();
+        this.poller = options.poller ?? new ResourcePoller();
+        this.importResolver = options.importResolver ?? new ImportResolver();
     }
 
     /**
@@ -26,6 +83,13 @@ export class MidlConfigWrapper {
             throw new Error("No network configured in MIDL state.");
         }
 
+        this.assertNetworkAllowed(network);
+    }
+
+    /**
+     * Rejects networks the server may not operate on.
+     */
+    private assertNetworkAllowed(network: BitcoinNetwork) {
         // Enforce testnet/regtest only as per user requirements
         const networkName = network.network.toLowerCase();
         const isTestnet = networkName.includes("testnet") || networkName.includes("regtest");
@@ -48,4 +112,123 @@ export class MidlConfigWrapper {
     public getNetworkName(): string {
         return this.config.getState().network.network;
     }
+
+    /**
+     * Gets the viem transport for MIDL EVM RPC calls.
+     */
+    public getEvmTransport(): Transport {
+        return this.options.evmTransport ?? http(this.networks.getActive().evmRpcUrl);
+    }
+
+    /**
+     * Gets the active network profile (mempool, EVM RPC, Blockscout and explorer URLs).
+     */
+    public getNetworkProfile(): NetworkProfile {
+        return this.networks.getActive();
+    }
+
+    /**
+     * Gets every network profile the server can switch to.
+     */
+    public getNetworkProfiles(): NetworkProfile[] {
+        return this.networks.canSwitch() ? this.networks.list() : [this.networks.getActive()];
+    }
+
+    /**
+     * Moves the config to another network profile: swaps the network and data provider, then
+     * re-derives every account. The same safety checks as at startup apply, and the config is
+     * left untouched when any step fails.
+     */
+    public async switchNetwork(name: string): Promise<NetworkProfile> {
+        const profile = this.networks.get(name);
+        const network = toBitcoinNetwork(profile);
+        this.assertNetworkAllowed(network);
+        const provider = this.networks.createProvider(profile);
+
+        const previous = this.config.getState();
+        this.config.setState({ network, networks: [network], provider });
+        try {
+            await this.accounts.reconnect(network);
+        } catch (error) {
+            this.config.setState({ network: previous.network, networks: previous.networks, provider: previous.provider });
+            throw error;
+        }
+
+        this.networks.setActive(name);
+        return profile;
+    }
+
+    /**
+     * Gets the spending policy shared by all sessions.
+     */
+    public getPolicy(): SpendingPolicy {
+        return this.policy;
+    }
+
+    /**
+     * Gets the absurd-fee limits checked before every broadcast.
+     */
+    public getBroadcastLimits(): BroadcastLimits {
+        return this.broadcastLimits;
+    }
+
+    /**
+     * Gets the audit log shared by all sessions.
+     */
+    public getAuditLog(): AuditLog {
+        return this.auditLog;
+    }
+
+    /**
+     * Gets the EVM intentions anchored by prepared Bitcoin transactions.
+     */
+    public getPendingIntentions(): PendingIntentions {
+        return this.intentions;
+    }
+
+    /**
+     * Gets the multisig wallets shared by all sessions.
+     */
+    public getMultisigStore(): MultisigStore {
+        return this.multisig;
+    }
+
+    /**
+     * Gets the confirmation tracker shared by all sessions.
+     */
+    public getTracker(): TransactionTracker {
+        return this.tracker;
+    }
+
+    /**
+     * Gets the poller behind resource subscriptions, shared by all sessions.
+     */
+    public getResourcePoller(): ResourcePoller {
+        return this.poller;
+    }
+
+    /**
+     * Gets the Solidity import resolver shared by all sessions.
+     */
+    public getImportResolver(): ImportResolver {
+        return this.importResolver;
+    }
+
+    /**
+     * Gets the sub-account manager used to switch the active account.
+     */
+    public getAccountManager(): AccountManager {
+        return this.accounts;
+    }
+
+    /**
+     * Addresses that belong to the user on the active network: every configured account and the
+     * multisig wallets saved for this network. Tools count them as change and owned inputs.
+     */
+    public getOwnAddresses(): Set<string> {
+        return new Set([
+            ...this.accounts.getAllAccounts().map(a => a.address),
+            ...this.multisig.list(this.getNetworkName()).map(w => w.address),
+        ]);
+    }
 }
@@ -0,0 +1,75 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import type { MultisigWallet } from "../utils/multisig.js";
+
+/**
+ * Shape of the multisig wallets file (MIDL_MULTISIG_FILE, default ~/.midl-mcp/multisig.json).
+ */
+interface MultisigFile {
+    wallets: MultisigWallet[];
+}
+
+/**
+ * Multisig wallet descriptors created with `create-multisig-wallet`, persisted as JSON so they
+ * survive restarts. Without a file path, wallets are kept in memory for the life of the process.
+ */
+export class MultisigStore {
+    private readonly filePath: string | null;
+    private wallets: MultisigWallet[];
+
+    constructor(filePath: string | null = null) {
+        this.filePath = filePath;
+        this.wallets = filePath && existsSync(filePath)
+            ? (JSON.parse(readFileSync(filePath, "utf8")) as MultisigFile).wallets ?? []
+            : [];
+    }
+
+    /**
+     * Creates a store at MIDL_MULTISIG_FILE (default ~/.midl-mcp/multisig.json). `MIDL_MULTISIG_FILE=memory` disables persistence.
+     */
+    static fromEnv(env: Record<string, string | undefined> = process.env): MultisigStore {
+        const path = env.MIDL_MULTISIG_FILE;
+        if (path === "memory") return new MultisigStore(null);
+        return new MultisigStore(path || join(homedir(), ".midl-mcp", "multisig.json"));
+    }
+
+    /**
+     * Lists wallets, optionally only those derived for a network.
+     */
+    list(network?: string): MultisigWallet[] {
+        return network ? this.wallets.filter(w => w.network === network) : [...this.wallets];
+    }
+
+    /**
+     * Gets a wallet by name. Throws when it does not exist.
+     */
+    get(name: string): MultisigWallet {
+        const wallet = this.wallets.find(w => w.name === name);
+        if (!wallet) {
+            throw new Error(`Unknown multisig wallet "${name}". Available: ${this.wallets.map(w => w.name).join(", ") || "none"}`);
+        }
+        return wallet;
+    }
+
+    findByAddress(address: string): MultisigWallet | undefined {
+        return this.wallets.find(w => w.address === address);
+    }
+
+    /**
+     * Adds a wallet. Names must be unique.
+     */
+    add(wallet: MultisigWallet) {
+        if (this.wallets.some(w => w.name === wallet.name)) {
+            throw new Error(`A multisig wallet named "${wallet.name}" already exists.`);
+        }
+        this.wallets.push(wallet);
+        this.save();
+    }
+
+    private save() {
+        if (!this.filePath) return;
+        mkdirSync(dirname(this.filePath), { recursive: true });
+        writeFileSync(this.filePath, JSON.stringify({ wallets: this.wallets } satisfies MultisigFile, null, 2) + "\n");
+    }
+}
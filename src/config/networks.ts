@@ -0,0 +1,206 @@
+import type { AbstractProvider, BitcoinNetwork, Config } from "@midl/core";
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+/**
+ * Named set of endpoints for one MIDL deployment.
+ */
+export interface NetworkProfile {
+    name: string;
+    id: BitcoinNetwork["id"];
+    /** bitcoinjs-lib network used for addresses and signing. */
+    network: BitcoinNetwork["network"];
+    /** mempool.space / Esplora base URL (without `/api`). */
+    mempoolUrl: string;
+    /** MIDL EVM JSON-RPC URL. Defaults to the chain's public RPC. */
+    evmRpcUrl?: string;
+    /** Blockscout base URL for the MIDL EVM chain. */
+    blockscoutUrl: string;
+    /** Bitcoin transaction explorer prefix; the txid is appended. */
+    explorerUrl: string;
+    /** ord server base URL used to find inscription-bearing outputs. */
+    ordUrl?: string;
+}
+
+/**
+ * Shape of the profiles file (MIDL_NETWORKS_FILE, default ~/.midl-mcp/networks.json).
+ */
+interface NetworkProfilesFile {
+    default?: string;
+    profiles?: Record<string, Partial<Omit<NetworkProfile, "name">>>;
+}
+
+export const BUILTIN_PROFILES: Record<string, NetworkProfile> = {
+    regtest: {
+        name: "regtest",
+        id: "regtest",
+        network: "regtest",
+        mempoolUrl: "https://mempool.regtest.midl.xyz",
+        blockscoutUrl: "https://blockscout.regtest.midl.xyz",
+        explorerUrl: "https://mempool.regtest.midl.xyz/tx/",
+    },
+    testnet: {
+        name: "testnet",
+        id: "testnet",
+        network: "testnet",
+        mempoolUrl: "https://mempool.space/testnet",
+        blockscoutUrl: "https://blockscout.midl.xyz",
+        explorerUrl: "https://mempool.space/testnet/tx/",
+    },
+    testnet4: {
+        name: "testnet4",
+        id: "testnet4",
+        network: "testnet",
+        mempoolUrl: "https://mempool.space/testnet4",
+        blockscoutUrl: "https://blockscout.midl.xyz",
+        explorerUrl: "https://mempool.space/testnet4/tx/",
+    },
+    signet: {
+        name: "signet",
+        id: "signet",
+        network: "testnet",
+        mempoolUrl: "https://mempool.space/signet",
+        blockscoutUrl: "https://blockscout.midl.xyz",
+        explorerUrl: "https://mempool.space/signet/tx/",
+    },
+    mainnet: {
+        name: "mainnet",
+        id: "mainnet",
+        network: "bitcoin",
+        mempoolUrl: "https://mempool.space",
+        blockscoutUrl: "https://blockscout.midl.xyz",
+        explorerUrl: "https://mempool.space/tx/",
+    },
+};
+
+const NETWORK_IDS = Object.keys(BUILTIN_PROFILES) as BitcoinNetwork["id"][];
+
+/**
+ * Fills a file entry from the built-in profile it extends (by name or id) and validates it.
+ */
+function resolveProfile(name: string, entry: Partial<Omit<NetworkProfile, "name">>): NetworkProfile {
+    const id = entry.id ?? BUILTIN_PROFILES[name]?.id;
+    if (!id || !NETWORK_IDS.includes(id)) {
+        throw new Error(`Network profile "${name}" needs an "id" (one of ${NETWORK_IDS.join(", ")})`);
+    }
+    const base = BUILTIN_PROFILES[name] ?? BUILTIN_PROFILES[id]!;
+    return { ...base, ...entry, name, id };
+}
+
+/**
+ * Converts a profile into the network object MIDL.js expects.
+ */
+export function toBitcoinNetwork(profile: NetworkProfile): BitcoinNetwork {
+    return { id: profile.id, network: profile.network, explorerUrl: profile.explorerUrl };
+}
+
+/**
+ * Registry of named network profiles and the one currently active.
+ *
+ * Profiles can be switched at runtime when a provider factory is supplied; without one the
+ * registry only describes the network the server started on.
+ */
+export class NetworkProfiles {
+    private readonly profiles: Map<string, NetworkProfile>;
+    private readonly providerFactory: ((profile: NetworkProfile) => AbstractProvider) | undefined;
+    private activeName: string;
+
+    constructor(
+        profiles: NetworkProfile[],
+        activeName: string,
+        createProvider?: (profile: NetworkProfile) => AbstractProvider
+    ) {
+        this.profiles = new Map(profiles.map(p => [p.name, p]));
+        this.providerFactory = createProvider;
+        this.activeName = activeName;
+        this.get(activeName);
+    }
+
+    /**
+     * Loads the built-in profiles plus MIDL_NETWORKS_FILE. The active profile is MIDL_NETWORK,
+     * then the file's `default`, then "testnet". MIDL_RPC_URL overrides the active profile's mempool URL
+     * and MIDL_ORD_URL its ord server.
+     */
+    static fromEnv(
+        env: Record<string, string | undefined>,
+        createProvider: (profile: NetworkProfile) => AbstractProvider,
+        fallback: string = "testnet"
+    ): NetworkProfiles {
+        const filePath = env.MIDL_NETWORKS_FILE || join(homedir(), ".midl-mcp", "networks.json");
+        let file: NetworkProfilesFile = {};
+        if (existsSync(filePath)) {
+            try {
+                file = JSON.parse(readFileSync(filePath, "utf8")) as NetworkProfilesFile;
+            } catch (error: any) {
+                throw new Error(`Invalid network profiles file ${filePath}: ${error.message}`);
+            }
+        } else if (env.MIDL_NETWORKS_FILE) {
+            throw new Error(`Network profiles file not found: ${filePath}`);
+        }
+
+        const profiles = new Map(Object.entries(BUILTIN_PROFILES));
+        for (const [name, entry] of Object.entries(file.profiles ?? {})) {
+            profiles.set(name, resolveProfile(name, entry));
+        }
+
+        const activeName = env.MIDL_NETWORK || file.default || fallback;
+        const active = profiles.get(activeName);
+        if (active && (env.MIDL_RPC_URL || env.MIDL_ORD_URL)) {
+            profiles.set(activeName, {
+                ...active,
+                ...(env.MIDL_RPC_URL ? { mempoolUrl: env.MIDL_RPC_URL } : {}),
+                ...(env.MIDL_ORD_URL ? { ordUrl: env.MIDL_ORD_URL } : {}),
+            });
+        }
+
+        return new NetworkProfiles([...profiles.values()], activeName, createProvider);
+    }
+
+    /**
+     * Describes the network an existing config is already on. Switching is not available.
+     */
+    static fromConfig(config: Config): NetworkProfiles {
+        const { network } = config.getState();
+        const base = BUILTIN_PROFILES[network.id] ?? BUILTIN_PROFILES.testnet!;
+        return new NetworkProfiles([{ ...base, name: network.id, id: network.id, network: network.network, explorerUrl: network.explorerUrl }], network.id);
+    }
+
+    list(): NetworkProfile[] {
+        return [...this.profiles.values()];
+    }
+
+    /**
+     * Gets a profile by name. Throws when it does not exist.
+     */
+    get(name: string): NetworkProfile {
+        const profile = this.profiles.get(name);
+        if (!profile) {
+            throw new Error(`Unknown network profile "${name}". Available: ${[...this.profiles.keys()].join(", ")}`);
+        }
+        return profile;
+    }
+
+    getActive(): NetworkProfile {
+        return this.get(this.activeName);
+    }
+
+    setActive(name: string) {
+        this.get(name);
+        this.activeName = name;
+    }
+
+    canSwitch(): boolean {
+        return this.providerFactory !== undefined;
+    }
+
+    /**
+     * Creates the Bitcoin data provider for a profile.
+     */
+    createProvider(profile: NetworkProfile): AbstractProvider {
+        if (!this.providerFactory) {
+            throw new Error("Network switching is not available in this mode.");
+        }
+        return this.providerFactory(profile);
+    }
+}
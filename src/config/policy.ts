@@ -0,0 +1,207 @@
+/**
+ * Limits applied to every actionable tool. Unset rules are not enforced.
+ */
+export interface SpendingPolicyRules {
+    /** Maximum sats sent to external recipients in a single transaction. */
+    maxTransactionSats?: number;
+    /** Maximum sats sent to external recipients in any rolling 24 hour window. */
+    dailyCapSats?: number;
+    /** When non-empty, only these recipients (BTC or EVM addresses) may be paid. */
+    allowedRecipients?: string[];
+    /** Recipients (BTC or EVM addresses) that may never be paid. */
+    deniedRecipients?: string[];
+    /** Maximum fee rate in sat/vB. */
+    maxFeeRate?: number;
+    /** Maximum absolute fee in sats. */
+    maxFeeSats?: number;
+}
+
+/**
+ * A spend the policy is asked to approve.
+ */
+export interface SpendRequest {
+    recipients: { address: string; amount: number }[];
+    feeRate?: number;
+    fee?: number;
+}
+
+/**
+ * The rule that blocked an action and why.
+ */
+export interface PolicyViolation {
+    rule: keyof SpendingPolicyRules;
+    message: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseNumber(value: string | undefined): number | undefined {
+    if (value === undefined || value === "") return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+        throw new Error(`Invalid spending policy value: ${value}`);
+    }
+    return parsed;
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+    const items = value?.split(",").map(s => s.trim()).filter(Boolean);
+    return items && items.length > 0 ? items : undefined;
+}
+
+/**
+ * Spending policy engine shared by all sessions of the server.
+ * Keeps an in-memory ledger of broadcast spends for the rolling daily cap.
+ */
+export class SpendingPolicy {
+    private readonly rules: SpendingPolicyRules;
+    private readonly now: () => number;
+    private ledger: { timestamp: number; amount: number }[] = [];
+
+    constructor(rules: SpendingPolicyRules = {}, now: () => number = Date.now) {
+        this.rules = rules;
+        this.now = now;
+    }
+
+    /**
+     * Creates a policy from MIDL_POLICY_* environment variables.
+     */
+    static fromEnv(env: Record<string, string | undefined> = process.env): SpendingPolicy {
+        const rules: SpendingPolicyRules = {};
+        const maxTransactionSats = parseNumber(env.MIDL_POLICY_MAX_TX_SATS);
+        const dailyCapSats = parseNumber(env.MIDL_POLICY_DAILY_CAP_SATS);
+        const allowedRecipients = parseList(env.MIDL_POLICY_ALLOWED_RECIPIENTS);
+        const deniedRecipients = parseList(env.MIDL_POLICY_DENIED_RECIPIENTS);
+        const maxFeeRate = parseNumber(env.MIDL_POLICY_MAX_FEE_RATE);
+        const maxFeeSats = parseNumber(env.MIDL_POLICY_MAX_FEE_SATS);
+
+        if (maxTransactionSats !== undefined) rules.maxTransactionSats = maxTransactionSats;
+        if (dailyCapSats !== undefined) rules.dailyCapSats = dailyCapSats;
+        if (allowedRecipients) rules.allowedRecipients = allowedRecipients;
+        if (deniedRecipients) rules.deniedRecipients = deniedRecipients;
+        if (maxFeeRate !== undefined) rules.maxFeeRate = maxFeeRate;
+        if (maxFeeSats !== undefined) rules.maxFeeSats = maxFeeSats;
+
+        return new SpendingPolicy(rules);
+    }
+
+    getRules(): SpendingPolicyRules {
+        return { ...this.rules };
+    }
+
+    /**
+     * Whether any fee rule needs the transaction fee to be known.
+     */
+    requiresFee(): boolean {
+        return this.rules.maxFeeRate !== undefined || this.rules.maxFeeSats !== undefined;
+    }
+
+    /**
+     * Sats spent in the last 24 hours.
+     */
+    getSpentToday(): number {
+        const cutoff = this.now() - DAY_MS;
+        this.ledger = this.ledger.filter(entry => entry.timestamp > cutoff);
+        return this.ledger.reduce((acc, entry) => acc + entry.amount, 0);
+    }
+
+    /**
+     * Checks a spend against every rule. Returns the first violation, or null when allowed.
+     */
+    check(request: SpendRequest): PolicyViolation | null {
+        const { rules } = this;
+        const normalize = (address: string) => address.toLowerCase();
+
+        for (const { address } of request.recipients) {
+            if (rules.deniedRecipients?.some(denied => normalize(denied) === normalize(address))) {
+                return { rule: "deniedRecipients", message: `Recipient ${address} is on the deny list.` };
+            }
+            if (rules.allowedRecipients && !rules.allowedRecipients.some(allowed => normalize(allowed) === normalize(address))) {
+                return { rule: "allowedRecipients", message: `Recipient ${address} is not on the allow list.` };
+            }
+        }
+
+        const total = request.recipients.reduce((acc, r) => acc + r.amount, 0);
+        if (rules.maxTransactionSats !== undefined && total > rules.maxTransactionSats) {
+            return {
+                rule: "maxTransactionSats",
+                message: `Transaction sends ${total} sats, above the per-transaction cap of ${rules.maxTransactionSats} sats.`,
+            };
+        }
+
+        if (rules.dailyCapSats !== undefined) {
+            const spentToday = this.getSpentToday();
+            if (spentToday + total > rules.dailyCapSats) {
+                return {
+                    rule: "dailyCapSats",
+                    message: `Transaction sends ${total} sats but only ${Math.max(0, rules.dailyCapSats - spentToday)} sats remain of the ${rules.dailyCapSats} sats daily cap.`,
+                };
+            }
+        }
+
+        if (rules.maxFeeRate !== undefined && request.feeRate !== undefined && request.feeRate > rules.maxFeeRate) {
+            return {
+                rule: "maxFeeRate",
+                message: `Fee rate ${request.feeRate} sat/vB exceeds the maximum of ${rules.maxFeeRate} sat/vB.`,
+            };
+        }
+
+        if (rules.maxFeeSats !== undefined && request.fee !== undefined && request.fee > rules.maxFeeSats) {
+            return {
+                rule: "maxFeeSats",
+                message: `Fee of ${request.fee} sats exceeds the maximum of ${rules.maxFeeSats} sats.`,
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * Records a broadcast spend against the rolling daily cap. Returns a function that removes it
+     * again, so a spend can be reserved before broadcasting and released if the broadcast fails.
+     */
+    recordSpend(amount: number): () => void {
+        if (amount <= 0) return () => {};
+        const entry = { timestamp: this.now(), amount };
+        this.ledger.push(entry);
+        return () => {
+            this.ledger = this.ledger.filter(e => e !== entry);
+        };
+    }
+}
+
+/**
+ * Absurd-fee limits every broadcast is checked against. Unlike the spending policy these are
+ * always on; set a limit to 0 to disable it.
+ */
+export interface BroadcastLimits {
+    /** Maximum absolute fee in sats. */
+    maxFeeSats: number;
+    /** Maximum fee rate as a multiple of the current `fastestFee` recommendation. */
+    maxFeeRateMultiple: number;
+}
+
+export const DEFAULT_BROADCAST_LIMITS: BroadcastLimits = {
+    maxFeeSats: 1_000_000,
+    maxFeeRateMultiple: 10,
+};
+
+/**
+ * Reads broadcast limits from MIDL_MAX_BROADCAST_FEE_SATS and MIDL_MAX_FEE_RATE_MULTIPLE.
+ */
+export function broadcastLimitsFromEnv(env: Record<string, string | undefined> = process.env): BroadcastLimits {
+    return {
+        maxFeeSats: parseNumber(env.MIDL_MAX_BROADCAST_FEE_SATS) ?? DEFAULT_BROADCAST_LIMITS.maxFeeSats,
+        maxFeeRateMultiple: parseNumber(env.MIDL_MAX_FEE_RATE_MULTIPLE) ?? DEFAULT_BROADCAST_LIMITS.maxFeeRateMultiple,
+    };
+}
+
+/**
+ * Formats a violation as an `isError` tool response.
+ */
+export function policyViolationResponse(violation: PolicyViolation) {
+    return {
+        content: [{ type: "text" as const, text: `Blocked by spending policy (${violation.rule}): ${violation.message}` }],
+        isError: true,
+    };
+}
@@ -0,0 +1,128 @@
+/**
+ * How to observe one subscribable resource.
+ */
+export interface PolledResource {
+    /** Serialized state of the resource; a different value means it changed. */
+    snapshot: () => Promise<string>;
+    intervalMs: number;
+}
+
+export interface PollerSettings {
+    /** Polling interval for address resources (balances and UTXOs), in milliseconds. */
+    addressIntervalMs: number;
+    /** Polling interval for the block height, in milliseconds. */
+    blockIntervalMs: number;
+}
+
+export const DEFAULT_POLLER_SETTINGS: PollerSettings = {
+    addressIntervalMs: 30_000,
+    blockIntervalMs: 15_000,
+};
+
+function parseInterval(name: string, value: string | undefined): number | undefined {
+    if (value === undefined || value === "") return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1_000) {
+        throw new Error(`Invalid ${name}: ${value} (must be at least 1000 ms)`);
+    }
+    return parsed;
+}
+
+/**
+ * Reads polling intervals from MIDL_POLL_INTERVAL_MS and MIDL_POLL_BLOCK_INTERVAL_MS.
+ */
+export function pollerSettingsFromEnv(env: Record<string, string | undefined> = process.env): PollerSettings {
+    return {
+        addressIntervalMs: parseInterval("MIDL_POLL_INTERVAL_MS", env.MIDL_POLL_INTERVAL_MS) ?? DEFAULT_POLLER_SETTINGS.addressIntervalMs,
+        blockIntervalMs: parseInterval("MIDL_POLL_BLOCK_INTERVAL_MS", env.MIDL_POLL_BLOCK_INTERVAL_MS) ?? DEFAULT_POLLER_SETTINGS.blockIntervalMs,
+    };
+}
+
+interface PollerEntry {
+    resource: PolledResource;
+    last?: string;
+    listeners: Set<() => void>;
+    timer?: ReturnType<typeof setInterval>;
+}
+
+/**
+ * Polls subscribed resources and tells listeners when a snapshot changes. Shared by all
+ * sessions, so a URI watched by several sessions is fetched once per interval.
+ */
+export class ResourcePoller {
+    private readonly settings: PollerSettings;
+    private readonly entries = new Map<string, PollerEntry>();
+
+    constructor(settings: PollerSettings = DEFAULT_POLLER_SETTINGS) {
+        this.settings = settings;
+    }
+
+    getSettings(): PollerSettings {
+        return { ...this.settings };
+    }
+
+    /**
+     * Starts watching a URI. The first snapshot is the baseline and does not notify.
+     * Returns a function that stops this listener; polling stops with the last listener.
+     */
+    watch(uri: string, resource: PolledResource, listener: () => void): () => void {
+        let entry = this.entries.get(uri);
+        if (!entry) {
+            entry = { resource, listeners: new Set() };
+            this.entries.set(uri, entry);
+            const timer = setInterval(() => void this.check(uri), resource.intervalMs);
+            timer.unref?.();
+            entry.timer = timer;
+            void this.check(uri);
+        }
+        entry.listeners.add(listener);
+
+        return () => {
+            const current = this.entries.get(uri);
+            if (!current) return;
+            current.listeners.delete(listener);
+            if (current.listeners.size === 0) {
+                clearInterval(current.timer);
+                this.entries.delete(uri);
+            }
+        };
+    }
+
+    /**
+     * Takes a fresh snapshot of a watched URI and notifies its listeners when it changed.
+     * Returns whether it changed. Failed snapshots are retried on the next interval.
+     */
+    async check(uri: string): Promise<boolean> {
+        const entry = this.entries.get(uri);
+        if (!entry) return false;
+
+        let snapshot: string;
+        try {
+            snapshot = await entry.resource.snapshot();
+        } catch {
+            return false;
+        }
+
+        const changed = entry.last !== undefined && entry.last !== snapshot;
+        entry.last = snapshot;
+        if (changed) {
+            for (const listener of entry.listeners) listener();
+        }
+        return changed;
+    }
+
+    /**
+     * URIs currently polled, with their listener counts.
+     */
+    list(): { uri: string; listeners: number; intervalMs: number }[] {
+        return [...this.entries].map(([uri, entry]) => ({ uri, listeners: entry.listeners.size, intervalMs: entry.resource.intervalMs }));
+    }
+
+    /**
+     * Stops polling every URI.
+     */
+    stop() {
+        for (const entry of this.entries.values()) clearInterval(entry.timer);
+        this.entries.clear();
+    }
+}
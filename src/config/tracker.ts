@@ -0,0 +1,262 @@
+/**
+ * Chains a tracked transaction lives on.
+ */
+export type TrackedKind = "btc" | "evm";
+
+/**
+ * Lifecycle of a tracked transaction. `confirmed`, `failed`, `dropped` and `replaced` are final.
+ */
+export type TrackedStatus = "pending" | "confirming" | "confirmed" | "failed" | "dropped" | "replaced";
+
+/**
+ * A Bitcoin txid or MIDL EVM transaction hash watched until it reaches its confirmation target.
+ */
+export interface TrackedTransaction {
+    id: string;
+    kind: TrackedKind;
+    status: TrackedStatus;
+    confirmations: number;
+    targetConfirmations: number;
+    /** Block height (BTC) or block number (EVM) the transaction was included in. */
+    blockNumber?: number;
+    /** Transaction that replaced this one by spending the same inputs. */
+    replacedBy?: string;
+    /** Bitcoin transaction anchoring an EVM transaction. */
+    anchorTxId?: string;
+    label?: string;
+    /** Explains the latest status change. */
+    message?: string;
+    startedAt: string;
+    updatedAt: string;
+}
+
+/**
+ * What one status check found.
+ */
+export interface TrackerObservation {
+    /** Whether the transaction is in the mempool or a block. */
+    found: boolean;
+    confirmations?: number;
+    blockNumber?: number;
+    /** The transaction was included but reverted. */
+    failed?: boolean;
+    replacedBy?: string;
+}
+
+export interface TrackRequest {
+    id: string;
+    kind: TrackedKind;
+    /** Looks up the current state of the transaction. */
+    check: () => Promise<TrackerObservation>;
+    confirmations?: number | undefined;
+    anchorTxId?: string | undefined;
+    label?: string | undefined;
+}
+
+export interface TrackerSettings {
+    /** Polling interval in milliseconds. 0 disables automatic polling. */
+    intervalMs: number;
+    /** Default confirmation depth. */
+    confirmations: number;
+    /** Consecutive checks a transaction may be missing for before it is reported as dropped. */
+    maxMisses: number;
+}
+
+export const DEFAULT_TRACKER_SETTINGS: TrackerSettings = {
+    intervalMs: 15_000,
+    confirmations: 1,
+    maxMisses: 4,
+};
+
+const FINAL_STATUSES: TrackedStatus[] = ["confirmed", "failed", "dropped", "replaced"];
+
+function parsePositiveInteger(name: string, value: string | undefined): number | undefined {
+    if (value === undefined || value === "") return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return parsed;
+}
+
+/**
+ * Reads tracker settings from MIDL_TRACK_INTERVAL_MS and MIDL_TRACK_CONFIRMATIONS.
+ */
+export function trackerSettingsFromEnv(env: Record<string, string | undefined> = process.env): TrackerSettings {
+    const confirmations = parsePositiveInteger("MIDL_TRACK_CONFIRMATIONS", env.MIDL_TRACK_CONFIRMATIONS);
+    if (confirmations === 0) throw new Error("Invalid MIDL_TRACK_CONFIRMATIONS: 0");
+    return {
+        ...DEFAULT_TRACKER_SETTINGS,
+        intervalMs: parsePositiveInteger("MIDL_TRACK_INTERVAL_MS", env.MIDL_TRACK_INTERVAL_MS) ?? DEFAULT_TRACKER_SETTINGS.intervalMs,
+        confirmations: confirmations ?? DEFAULT_TRACKER_SETTINGS.confirmations,
+    };
+}
+
+/**
+ * Resource URI of a tracked transaction.
+ */
+export function trackedUri(id: string): string {
+    return `midl://tracked/${id}`;
+}
+
+interface TrackerEntry {
+    tx: TrackedTransaction;
+    check: () => Promise<TrackerObservation>;
+    misses: number;
+}
+
+/**
+ * Watches Bitcoin and MIDL EVM transactions until they reach their confirmation target, are
+ * dropped or are replaced. Shared by all sessions of the server; listeners hear about every
+ * status change.
+ */
+export class TransactionTracker {
+    private readonly settings: TrackerSettings;
+    private readonly now: () => number;
+    private readonly entries = new Map<string, TrackerEntry>();
+    private readonly listeners = new Set<(tx: TrackedTransaction) => void>();
+    private timer: ReturnType<typeof setInterval> | undefined;
+    private polling = false;
+
+    constructor(settings: TrackerSettings = DEFAULT_TRACKER_SETTINGS, now: () => number = Date.now) {
+        this.settings = settings;
+        this.now = now;
+    }
+
+    getSettings(): TrackerSettings {
+        return { ...this.settings };
+    }
+
+    /**
+     * Starts tracking a transaction. Tracking one that is already watched returns its current state.
+     */
+    track(request: TrackRequest): TrackedTransaction {
+        const id = request.id.toLowerCase();
+        const existing = this.entries.get(id);
+        if (existing) return { ...existing.tx };
+
+        const timestamp = new Date(this.now()).toISOString();
+        const tx: TrackedTransaction = {
+            id,
+            kind: request.kind,
+            status: "pending",
+            confirmations: 0,
+            targetConfirmations: request.confirmations ?? this.settings.confirmations,
+            ...(request.anchorTxId ? { anchorTxId: request.anchorTxId.toLowerCase() } : {}),
+            ...(request.label ? { label: request.label } : {}),
+            startedAt: timestamp,
+            updatedAt: timestamp,
+        };
+        this.entries.set(id, { tx, check: request.check, misses: 0 });
+        this.schedule();
+        return { ...tx };
+    }
+
+    get(id: string): TrackedTransaction | undefined {
+        const entry = this.entries.get(id.toLowerCase());
+        return entry ? { ...entry.tx } : undefined;
+    }
+
+    list(): TrackedTransaction[] {
+        return [...this.entries.values()].map(entry => ({ ...entry.tx }));
+    }
+
+    /**
+     * Registers a listener for status changes. Returns a function that removes it.
+     */
+    onUpdate(listener: (tx: TrackedTransaction) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Checks every transaction that has not reached a final status. Anchors are checked before
+     * the EVM transactions they carry.
+     */
+    async poll(): Promise<void> {
+        if (this.polling) return;
+        this.polling = true;
+        try {
+            const active = [...this.entries.values()]
+                .filter(entry => !FINAL_STATUSES.includes(entry.tx.status))
+                .sort((a, b) => (a.tx.kind === b.tx.kind ? 0 : a.tx.kind === "btc" ? -1 : 1));
+            for (const entry of active) {
+                await this.update(entry);
+            }
+        } finally {
+            this.polling = false;
+            if (!this.hasActive()) this.stop();
+        }
+    }
+
+    /**
+     * Stops automatic polling until another transaction is tracked.
+     */
+    stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    private hasActive(): boolean {
+        return [...this.entries.values()].some(entry => !FINAL_STATUSES.includes(entry.tx.status));
+    }
+
+    private schedule() {
+        if (this.timer || this.settings.intervalMs <= 0) return;
+        this.timer = setInterval(() => void this.poll(), this.settings.intervalMs);
+        this.timer.unref?.();
+    }
+
+    private async update(entry: TrackerEntry) {
+        const { tx } = entry;
+        const anchor = tx.anchorTxId ? this.entries.get(tx.anchorTxId)?.tx : undefined;
+        if (anchor && (anchor.status === "dropped" || anchor.status === "replaced")) {
+            this.apply(entry, { status: "dropped", message: `Anchor transaction ${anchor.id} was ${anchor.status}.` });
+            return;
+        }
+
+        let observation: TrackerObservation;
+        try {
+            observation = await entry.check();
+        } catch {
+            return; // Provider errors are retried on the next poll
+        }
+
+        if (observation.replacedBy) {
+            this.apply(entry, { status: "replaced", replacedBy: observation.replacedBy, message: `Replaced by ${observation.replacedBy}.` });
+            return;
+        }
+        if (!observation.found) {
+            entry.misses += 1;
+            if (entry.misses >= this.settings.maxMisses) {
+                this.apply(entry, { status: "dropped", confirmations: 0, message: "No longer in the mempool or a block." });
+            }
+            return;
+        }
+        entry.misses = 0;
+
+        const confirmations = observation.confirmations ?? 0;
+        const status: TrackedStatus = observation.failed
+            ? "failed"
+            : confirmations >= tx.targetConfirmations ? "confirmed" : confirmations > 0 ? "confirming" : "pending";
+        this.apply(entry, {
+            status,
+            confirmations,
+            ...(observation.blockNumber !== undefined ? { blockNumber: observation.blockNumber } : {}),
+            ...(status === "failed" ? { message: "The transaction reverted." } : {}),
+        });
+    }
+
+    private apply(entry: TrackerEntry, changes: Partial<TrackedTransaction>) {
+        const next = { ...entry.tx, ...changes };
+        if (next.status === entry.tx.status && next.confirmations === entry.tx.confirmations && next.blockNumber === entry.tx.blockNumber) {
+            return;
+        }
+        if (next.status !== entry.tx.status && !changes.message) delete next.message;
+        next.updatedAt = new Date(this.now()).toISOString();
+        entry.tx = next;
+        for (const listener of this.listeners) {
+            listener({ ...next });
+        }
+    }
+}
@@ -1,6 +1,33 @@
 import { MidlMcpServer } from "./server.js";
 import { MidlConfigWrapper } from "./config/midl-config.js";
-import { createMidlConfigFromEnv } from "./config/factory.js";
+import { createMidlConfigFromEnv, createFakeChainConfig } from "./config/factory.js";
+import { SpendingPolicy, broadcastLimitsFromEnv } from "./config/policy.js";
+import { TransactionTracker, trackerSettingsFromEnv } from "./config/tracker.js";
+import { ResourcePoller, pollerSettingsFromEnv } from "./config/resource-poller.js";
+import { ImportResolver } from "./config/import-resolver.js";
+import { AuditLog } from "./config/audit-log.js";
+import { MultisigStore } from "./config/multisig.js";
+
+/**
+ * Reads a `--name value` or `--name=value` CLI flag.
+ */
+function getArg(name: string): string | undefined {
+    const args = process.argv.slice(2);
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i]!;
+        if (arg === `--${name}`) return args[i + 1];
+        if (arg.startsWith(`--${name}=`)) return arg.slice(name.length + 3);
+    }
+    return undefined;
+}
+
+/**
+ * Splits a comma-separated list, returning undefined when empty.
+ */
+function parseList(value: string | undefined): string[] | undefined {
+    const items = value?.split(",").map(s => s.trim()).filter(Boolean);
+    return items && items.length > 0 ? items : undefined;
+}
 
 /**
  * Main entry point for the MIDL MCP server.
@@ -9,29 +36,61 @@ async function main() {
     try {
         console.error("Starting MIDL MCP Server...");
 
-        // Attempt to load real config from environment
-        let midlConfig = await createMidlConfigFromEnv();
+        let midlWrapper: MidlConfigWrapper;
+        const policy = SpendingPolicy.fromEnv();
+        const broadcastLimits = broadcastLimitsFromEnv();
+        const tracker = new TransactionTracker(trackerSettingsFromEnv());
+        const poller = new ResourcePoller(pollerSettingsFromEnv());
+        const auditLog = AuditLog.fromEnv();
+        const multisig = MultisigStore.fromEnv();
+        const importResolver = ImportResolver.fromEnv();
+
+        // Attempt to load real config from environment unless the fake chain is requested
+        const midlConfig = process.env.MIDL_FAKE_CHAIN === "true" ? null : await createMidlConfigFromEnv();
 
         if (!midlConfig) {
-            console.error("Using MOCK/DEMO mode (MIDL_ACCOUNT_ADDRESS not found)");
-            // Fallback to mock for demonstration/testing
-            const mock: any = {
-                getState: () => ({
-                    connection: {},
-                    network: { network: "testnet", id: "testnet" },
-                    accounts: [{ address: "tb1qtestaddress" }]
-                })
-            };
-            midlConfig = mock;
+            console.error("Using FAKE CHAIN mode (offline, deterministic simulated network)");
+            const { config, fakeChain, accounts, networks } = await createFakeChainConfig();
+            midlWrapper = new MidlConfigWrapper(config, { evmTransport: fakeChain.evmTransport(), policy, broadcastLimits, auditLog, accounts, networks, multisig, tracker, poller, importResolver });
         } else {
-            const address = midlConfig.getState().accounts?.[0]?.address;
+            const { config, accounts, networks } = midlConfig;
+            const address = config.getState().accounts?.[0]?.address;
             console.error("Real Wallet context established for:", address);
+            midlWrapper = new MidlConfigWrapper(config, { policy, broadcastLimits, auditLog, accounts, networks, multisig, tracker, poller, importResolver });
         }
 
-        const midlWrapper = new MidlConfigWrapper(midlConfig as any);
         const server = new MidlMcpServer(midlWrapper);
 
-        await server.runStdio();
+        // Transport selection: --transport/MIDL_MCP_TRANSPORT (stdio | http)
+        const transport = getArg("transport") || process.env.MIDL_MCP_TRANSPORT || "stdio";
+
+        if (transport === "http") {
+            const port = Number(getArg("port") || process.env.MIDL_MCP_PORT || 3000);
+            const host = getArg("host") || process.env.MIDL_MCP_HOST;
+            const allowedHosts = parseList(getArg("allowed-hosts") || process.env.MIDL_MCP_ALLOWED_HOSTS);
+            const allowedOrigins = parseList(getArg("allowed-origins") || process.env.MIDL_MCP_ALLOWED_ORIGINS);
+            const authToken = process.env.MIDL_MCP_AUTH_TOKEN;
+            const allowUnauthenticated = process.argv.includes("--allow-unauthenticated")
+                || process.env.MIDL_MCP_ALLOW_UNAUTHENTICATED === "true";
+            const idleTimeout = getArg("session-idle-timeout") || process.env.MIDL_MCP_SESSION_IDLE_TIMEOUT_MS;
+            const sessionIdleTimeoutMs = idleTimeout === undefined ? undefined : Number(idleTimeout);
+            if (sessionIdleTimeoutMs !== undefined && !(sessionIdleTimeoutMs >= 0)) {
+                throw new Error(`Invalid session idle timeout "${idleTimeout}". Expected milliseconds, or 0 to disable.`);
+            }
+
+            await server.runHttp(port, {
+                ...(host ? { host } : {}),
+                ...(allowedHosts ? { allowedHosts } : {}),
+                ...(allowedOrigins ? { allowedOrigins } : {}),
+                ...(authToken ? { authToken } : {}),
+                ...(allowUnauthenticated ? { allowUnauthenticated } : {}),
+                ...(sessionIdleTimeoutMs !== undefined ? { sessionIdleTimeoutMs } : {}),
+            });
+        } else if (transport === "stdio") {
+            await server.runStdio();
+        } else {
+            throw new Error(`Unknown transport "${transport}". Expected "stdio" or "http".`);
+        }
     } catch (error: any) {
         console.error("Failed to start MIDL MCP Server:", error.message);
         process.exit(1);
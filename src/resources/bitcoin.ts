@@ -1,7 +1,11 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { getBalance, getUTXOs, getBlockNumber } from "@midl/core";
 import { MidlConfigWrapper } from "../config/midl-config.js";
 import { formatBalance } from "../utils/formatters.js";
+import { getTransactionDetails } from "../utils/transaction.js";
+import type { PolledResource } from "../config/resource-poller.js";
+import { SessionSubscriptions } from "./subscriptions.js";
+import { completeFrom, getKnownAddresses, getTemplateVariable } from "./templates.js";
 
 /**
  * Registers read-only resources on the McpServer.
@@ -9,17 +13,26 @@ import { formatBalance } from "../utils/formatters.js";
 export function registerResources(server: McpServer, midl: MidlConfigWrapper) {
     const config = midl.getConfig();
 
+    // One concrete URI per configured account, e.g. midl://balance/tb1q...
+    const listAccountUris = (prefix: string, title: string) => async () => ({
+        resources: midl.getAccountManager().getAllAccounts().map(account => ({
+            uri: `midl://${prefix}/${account.address}`,
+            name: `${title} of ${account.address}`,
+            description: `${account.purpose} account (${account.addressType})`,
+        })),
+    });
+    const completeAddress = { address: (value: string) => completeFrom(getKnownAddresses(midl), value) };
+
     // Resource: midl://balance/{address}
     server.resource(
         "bitcoin-balance",
-        "midl://balance/{address}",
+        new ResourceTemplate("midl://balance/{address}", { list: listAccountUris("balance", "Balance"), complete: completeAddress }),
         {
             title: "Bitcoin Balance",
             description: "Get the current BTC balance of an address",
         },
-        async (uri) => {
-            const address = uri.pathname.split("/").pop();
-            if (!address) throw new Error("Missing address");
+        async (uri, variables) => {
+            const address = getTemplateVariable(variables, "address");
             const balanceSats = await getBalance(config, address);
             return {
                 contents: [
@@ -36,14 +49,13 @@ export function registerResources(server: McpServer, midl: MidlConfigWrapper) {
     // Resource: midl://utxos/{address}
     server.resource(
         "bitcoin-utxos",
-        "midl://utxos/{address}",
+        new ResourceTemplate("midl://utxos/{address}", { list: listAccountUris("utxos", "UTXOs"), complete: completeAddress }),
         {
             title: "Bitcoin UTXOs",
             description: "Get the list of UTXOs for an address",
         },
-        async (uri) => {
-            const address = uri.pathname.split("/").pop();
-            if (!address) throw new Error("Missing address");
+        async (uri, variables) => {
+            const address = getTemplateVariable(variables, "address");
             const utxos = await getUTXOs(config, address);
             return {
                 contents: [
@@ -57,6 +69,33 @@ export function registerResources(server: McpServer, midl: MidlConfigWrapper) {
         }
     );
 
+    // Resource: midl://tx/{txid}
+    server.resource(
+        "bitcoin-transaction",
+        new ResourceTemplate("midl://tx/{txid}", { list: undefined }),
+        {
+            title: "Bitcoin Transaction",
+            description: "Get a transaction with prevout values, fee, fee rate, confirmations, RBF signalling and anchored MIDL EVM intentions",
+        },
+        async (uri, variables) => {
+            const txid = getTemplateVariable(variables, "txid").toLowerCase();
+            const details = await getTransactionDetails(config, txid, {
+                ownAddresses: midl.getOwnAddresses(),
+                intentions: midl.getPendingIntentions().get(txid),
+                apiUrl: `${midl.getNetworkProfile().mempoolUrl}/api`,
+            });
+            return {
+                contents: [
+                    {
+                        uri: uri.href,
+                        text: JSON.stringify(details, null, 2),
+                        mimeType: "application/json",
+                    },
+                ],
+            };
+        }
+    );
+
     // Resource: midl://block-height
     server.resource(
         "bitcoin-block-height",
@@ -79,3 +118,40 @@ export function registerResources(server: McpServer, midl: MidlConfigWrapper) {
         }
     );
 }
+
+/**
+ * Lets sessions subscribe to `midl://balance/{address}`, `midl://utxos/{address}` and
+ * `midl://block-height`. Subscribed URIs are polled by the shared resource poller and the
+ * session is notified when a snapshot changes; its watches end when it unsubscribes or closes.
+ */
+export function registerResourceSubscriptions(server: McpServer, midl: MidlConfigWrapper) {
+    const config = midl.getConfig();
+    const poller = midl.getResourcePoller();
+    const { addressIntervalMs, blockIntervalMs } = poller.getSettings();
+    const subscriptions = SessionSubscriptions.for(server);
+
+    const toPolledResource = (uri: string): PolledResource | undefined => {
+        const [, kind, address] = uri.match(/^midl:\/\/(balance|utxos)\/([^/?#]+)$/) ?? [];
+        if (kind === "balance") {
+            return { intervalMs: addressIntervalMs, snapshot: async () => String(await getBalance(config, address!)) };
+        }
+        if (kind === "utxos") {
+            return {
+                intervalMs: addressIntervalMs,
+                // Confirmation status is part of the snapshot so subscribers also hear when funds confirm
+                snapshot: async () => JSON.stringify((await getUTXOs(config, address!))
+                    .map(u => `${u.txid}:${u.vout}:${u.value}:${u.status?.confirmed ?? false}`)
+                    .sort()),
+            };
+        }
+        if (uri === "midl://block-height") {
+            return { intervalMs: blockIntervalMs, snapshot: async () => String(await getBlockNumber(config)) };
+        }
+        return undefined;
+    };
+
+    subscriptions.onSubscribe(uri => {
+        const resource = toPolledResource(uri);
+        return resource ? poller.watch(uri, resource, () => void subscriptions.notify(uri)) : undefined;
+    });
+}
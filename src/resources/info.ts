@@ -1,6 +1,7 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { getFeeRate, getDefaultAccount, getRune, getRuneBalance } from "@midl/core";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getFeeRate, getDefaultAccount, getRune, getRuneBalance, getRunes } from "@midl/core";
 import { MidlConfigWrapper } from "../config/midl-config.js";
+import { completeFrom, getKnownAddresses, getTemplateVariable } from "./templates.js";
 
 /**
  * Registers remaining read-only resources on the McpServer.
@@ -8,6 +9,23 @@ import { MidlConfigWrapper } from "../config/midl-config.js";
 export function registerExtraResources(server: McpServer, midl: MidlConfigWrapper) {
     const config = midl.getConfig();
 
+    // Runes held by the given addresses (every configured account by default); failed lookups are skipped
+    const getHeldRunes = async (addresses: string[] = midl.getAccountManager().getAllAccounts().map(a => a.address)) => {
+        const held = await Promise.all([...new Set(addresses)].map(async address => {
+            try {
+                const { results } = await getRunes(config, { address, limit: 50 });
+                return results.map(r => ({ address, runeId: r.rune.id, name: r.rune.spaced_name }));
+            } catch {
+                return [];
+            }
+        }));
+        return held.flat();
+    };
+    const completeRuneId = async (value: string, context?: { arguments?: Record<string, string> }) => {
+        const address = context?.arguments?.address;
+        return completeFrom((await getHeldRunes(address ? [address] : undefined)).map(r => r.runeId), value);
+    };
+
     // Resource: midl://fee-rates
     server.resource(
         "bitcoin-fee-rates",
@@ -74,16 +92,44 @@ export function registerExtraResources(server: McpServer, midl: MidlConfigWrappe
         }
     );
 
+    // Resource: midl://accounts
+    server.resource(
+        "accounts",
+        "midl://accounts",
+        {
+            title: "Accounts",
+            description: "Every configured sub-account with purpose, address type, BTC address and derived EVM address",
+        },
+        async (uri) => {
+            const manager = midl.getAccountManager();
+            return {
+                contents: [
+                    {
+                        uri: uri.href,
+                        text: JSON.stringify({ activeIndex: manager.getActiveIndex(), accounts: manager.describe() }, null, 2),
+                        mimeType: "application/json",
+                    },
+                ],
+            };
+        }
+    );
+
     // Resource: midl://rune/{runeId}
     server.resource(
         "rune-info",
-        "midl://rune/{runeId}",
+        new ResourceTemplate("midl://rune/{runeId}", {
+            list: async () => {
+                const runes = new Map<string, string>((await getHeldRunes()).map(r => [r.runeId, r.name]));
+                return { resources: [...runes].map(([runeId, name]) => ({ uri: `midl://rune/${runeId}`, name })) };
+            },
+            complete: { runeId: completeRuneId },
+        }),
         {
             title: "Rune Information",
             description: "Get metadata for a specific Rune",
         },
-        async (uri) => {
-            const runeId = uri.pathname.replace(/^\//, "");
+        async (uri, variables) => {
+            const runeId = getTemplateVariable(variables, "runeId");
             const rune = await getRune(config, runeId);
             return {
                 contents: [
@@ -100,16 +146,25 @@ export function registerExtraResources(server: McpServer, midl: MidlConfigWrappe
     // Resource: midl://rune-balance/{address}/{runeId}
     server.resource(
         "rune-balance",
-        "midl://rune-balance/{address}/{runeId}",
+        new ResourceTemplate("midl://rune-balance/{address}/{runeId}", {
+            list: async () => ({
+                resources: (await getHeldRunes()).map(r => ({
+                    uri: `midl://rune-balance/${r.address}/${r.runeId}`,
+                    name: `${r.name} balance of ${r.address}`,
+                })),
+            }),
+            complete: {
+                address: value => completeFrom(getKnownAddresses(midl), value),
+                runeId: completeRuneId,
+            },
+        }),
         {
             title: "Rune Balance",
             description: "Get the balance of a specific Rune for an address",
         },
-        async (uri) => {
-            const parts = uri.pathname.replace(/^\//, "").split("/");
-            const address = parts[0];
-            const runeId = parts[1];
-            if (!address || !runeId) throw new Error("Missing address or runeId");
+        async (uri, variables) => {
+            const address = getTemplateVariable(variables, "address");
+            const runeId = getTemplateVariable(variables, "runeId");
             const balance = await getRuneBalance(config, { address, runeId });
             return {
                 contents: [
@@ -122,4 +177,26 @@ export function registerExtraResources(server: McpServer, midl: MidlConfigWrappe
             };
         }
     );
+
+    // Resource: midl://audit
+    server.resource(
+        "audit-log",
+        "midl://audit",
+        {
+            title: "Audit Log",
+            description: "The 100 most recent actionable tool calls (PSBTs, signatures, broadcasts, deployments, contract calls)",
+        },
+        async (uri) => {
+            const entries = midl.getAuditLog().query({ limit: 100 });
+            return {
+                contents: [
+                    {
+                        uri: uri.href,
+                        text: JSON.stringify(entries, null, 2),
+                        mimeType: "application/json",
+                    },
+                ],
+            };
+        }
+    );
 }
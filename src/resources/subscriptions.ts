@@ -0,0 +1,100 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Resource URIs one session has subscribed to. Handles `resources/subscribe` and
+ * `resources/unsubscribe` and sends `notifications/resources/updated` for subscribed URIs.
+ * Must be created before the server connects, since it registers the `subscribe` capability.
+ */
+export class SessionSubscriptions {
+    private static readonly sessions = new WeakMap<McpServer, SessionSubscriptions>();
+
+    private readonly server: McpServer;
+    private readonly uris = new Set<string>();
+    private readonly closeHandlers: (() => void)[] = [];
+    private readonly subscribeHandlers: ((uri: string) => (() => void) | undefined)[] = [];
+    /** Cleanups returned by subscribe handlers, run on unsubscribe or when the session closes. */
+    private readonly cleanups = new Map<string, (() => void)[]>();
+
+    private constructor(server: McpServer) {
+        this.server = server;
+        server.server.registerCapabilities({ resources: { subscribe: true } });
+        server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+            this.add(request.params.uri);
+            return {};
+        });
+        server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+            this.remove(request.params.uri);
+            return {};
+        });
+
+        const previous = server.server.onclose;
+        server.server.onclose = () => {
+            previous?.();
+            for (const uri of [...this.uris]) this.remove(uri);
+            for (const handler of this.closeHandlers.splice(0)) handler();
+        };
+    }
+
+    /**
+     * Gets the subscriptions of a server session, creating them on first use.
+     */
+    static for(server: McpServer): SessionSubscriptions {
+        let subscriptions = SessionSubscriptions.sessions.get(server);
+        if (!subscriptions) {
+            subscriptions = new SessionSubscriptions(server);
+            SessionSubscriptions.sessions.set(server, subscriptions);
+        }
+        return subscriptions;
+    }
+
+    /**
+     * Subscribes the session to a URI and starts whatever watches it.
+     */
+    add(uri: string) {
+        if (this.uris.has(uri)) return;
+        this.uris.add(uri);
+        const cleanups = this.subscribeHandlers.map(handler => handler(uri)).filter(cleanup => cleanup !== undefined);
+        if (cleanups.length > 0) this.cleanups.set(uri, cleanups);
+    }
+
+    /**
+     * Unsubscribes the session from a URI and stops whatever watched it for this session.
+     */
+    remove(uri: string) {
+        this.uris.delete(uri);
+        for (const cleanup of this.cleanups.get(uri) ?? []) cleanup();
+        this.cleanups.delete(uri);
+    }
+
+    has(uri: string): boolean {
+        return this.uris.has(uri);
+    }
+
+    /**
+     * Sends an update notification when the session subscribed to the URI.
+     */
+    async notify(uri: string) {
+        if (!this.uris.has(uri) || !this.server.isConnected()) return;
+        try {
+            await this.server.server.sendResourceUpdated({ uri });
+        } catch {
+            // The session went away between the check and the send
+        }
+    }
+
+    /**
+     * Registers a handler called for every new subscription. It returns a cleanup function when
+     * it starts watching the URI, or undefined when the URI is not its concern.
+     */
+    onSubscribe(handler: (uri: string) => (() => void) | undefined) {
+        this.subscribeHandlers.push(handler);
+    }
+
+    /**
+     * Runs a cleanup function when the session closes.
+     */
+    onClose(handler: () => void) {
+        this.closeHandlers.push(handler);
+    }
+}
@@ -0,0 +1,30 @@
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { MidlConfigWrapper } from "../config/midl-config.js";
+
+/** Most suggestions a completion returns (the protocol's limit). */
+const MAX_COMPLETIONS = 100;
+
+/**
+ * Reads one variable matched from a resource template URI. Throws when it is missing.
+ */
+export function getTemplateVariable(variables: Variables, name: string): string {
+    const value = variables[name];
+    const single = Array.isArray(value) ? value[0] : value;
+    if (!single) throw new Error(`Missing ${name}`);
+    return decodeURIComponent(single);
+}
+
+/**
+ * Suggestions that start with what the user typed so far, case-insensitively and without duplicates.
+ */
+export function completeFrom(candidates: Iterable<string>, value: string): string[] {
+    const prefix = value.toLowerCase();
+    return [...new Set(candidates)].filter(candidate => candidate.toLowerCase().startsWith(prefix)).slice(0, MAX_COMPLETIONS);
+}
+
+/**
+ * Addresses worth suggesting: the user's own addresses on the active network.
+ */
+export function getKnownAddresses(midl: MidlConfigWrapper): string[] {
+    return [...midl.getOwnAddresses()];
+}
@@ -0,0 +1,73 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { MidlConfigWrapper } from "../config/midl-config.js";
+import { trackedUri } from "../config/tracker.js";
+import { SessionSubscriptions } from "./subscriptions.js";
+import { completeFrom, getTemplateVariable } from "./templates.js";
+
+/**
+ * Registers confirmation tracking resources on the McpServer and forwards tracker status
+ * changes to the session as `notifications/resources/updated`.
+ */
+export function registerTrackingResources(server: McpServer, midl: MidlConfigWrapper) {
+    const tracker = midl.getTracker();
+    const subscriptions = SessionSubscriptions.for(server);
+
+    const stopListening = tracker.onUpdate(tx => {
+        void subscriptions.notify(trackedUri(tx.id));
+        void subscriptions.notify("midl://tracked");
+    });
+    subscriptions.onClose(stopListening);
+
+    // Resource: midl://tracked
+    server.resource(
+        "tracked-transactions",
+        "midl://tracked",
+        {
+            title: "Tracked Transactions",
+            description: "Every Bitcoin and MIDL EVM transaction watched by the confirmation tracker",
+        },
+        async (uri) => ({
+            contents: [
+                {
+                    uri: uri.href,
+                    text: JSON.stringify(tracker.list(), null, 2),
+                    mimeType: "application/json",
+                },
+            ],
+        })
+    );
+
+    // Resource: midl://tracked/{id}
+    server.resource(
+        "tracked-transaction",
+        new ResourceTemplate("midl://tracked/{id}", {
+            list: async () => ({
+                resources: tracker.list().map(tx => ({
+                    uri: trackedUri(tx.id),
+                    name: tx.label ?? tx.id,
+                    description: `${tx.kind.toUpperCase()} transaction, ${tx.status}`,
+                    mimeType: "application/json",
+                })),
+            }),
+            complete: { id: value => completeFrom(tracker.list().map(tx => tx.id), value) },
+        }),
+        {
+            title: "Tracked Transaction",
+            description: "Confirmation status of a tracked transaction: pending, confirming, confirmed, failed, dropped or replaced. Subscribe to be notified of changes.",
+        },
+        async (uri, variables) => {
+            const id = getTemplateVariable(variables, "id");
+            const tx = tracker.get(id);
+            if (!tx) throw new Error(`Transaction ${id} is not tracked. Use 'track-transaction' to start tracking it.`);
+            return {
+                contents: [
+                    {
+                        uri: uri.href,
+                        text: JSON.stringify(tx, null, 2),
+                        mimeType: "application/json",
+                    },
+                ],
+            };
+        }
+    );
+}
@@ -1,11 +1,13 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { MidlConfigWrapper } from "./config/midl-config.js";
-import { registerResources } from "./resources/bitcoin.js";
+import { registerResources, registerResourceSubscriptions } from "./resources/bitcoin.js";
 import { registerExtraResources } from "./resources/info.js";
+import { registerTrackingResources } from "./resources/tracking.js";
 import { registerTools } from "./tools/analytical.js";
 import { registerActionableTools } from "./tools/actionable.js";
 import { registerPrompts } from "./prompts/bitcoin.js";
+import { startHttpTransport, type HttpTransportOptions, type HttpTransportHandle } from "./transport/http.js";
 
 /**
  * MIDL MCP Server Class
@@ -16,37 +18,49 @@ export class MidlMcpServer {
 
     constructor(midlWrapper: MidlConfigWrapper) {
         this.midlWrapper = midlWrapper;
-        this.server = new McpServer({
+        this.server = this.createServer();
+    }
+
+    /**
+     * Creates a fully registered McpServer instance.
+     * HTTP sessions each need their own instance since a server binds to a single transport.
+     */
+    private createServer(): McpServer {
+        const server = new McpServer({
             name: "midl-bitcoin-mcp",
             version: "1.1.0",
         });
 
-        this.setupResources();
-        this.setupTools();
-        this.setupPrompts();
+        this.setupResources(server);
+        this.setupTools(server);
+        this.setupPrompts(server);
+
+        return server;
     }
 
     /**
      * Sets up read-only resources.
      */
-    private setupResources() {
-        registerResources(this.server, this.midlWrapper);
-        registerExtraResources(this.server, this.midlWrapper);
+    private setupResources(server: McpServer) {
+        registerResources(server, this.midlWrapper);
+        registerResourceSubscriptions(server, this.midlWrapper);
+        registerExtraResources(server, this.midlWrapper);
+        registerTrackingResources(server, this.midlWrapper);
     }
 
     /**
      * Sets up analytical and actionable tools.
      */
-    private setupTools() {
-        registerTools(this.server, this.midlWrapper);
-        registerActionableTools(this.server, this.midlWrapper);
+    private setupTools(server: McpServer) {
+        registerTools(server, this.midlWrapper);
+        registerActionableTools(server, this.midlWrapper);
     }
 
     /**
      * Sets up prompts.
      */
-    private setupPrompts() {
-        registerPrompts(this.server);
+    private setupPrompts(server: McpServer) {
+        registerPrompts(server);
     }
 
     /**
@@ -59,11 +73,17 @@ export class MidlMcpServer {
     }
 
     /**
-     * Starts the server using HTTP/SSE transport (Optional).
-     * Includes DNS rebinding protection.
+     * Starts the server using Streamable HTTP (`/mcp`) and legacy SSE (`/sse`) transports.
+     * Includes DNS rebinding protection via Host/Origin allowlists and optional bearer-token auth.
      */
-    async runHttp(port: number = 3000) {
-        console.error(`HTTP transport not fully implemented. Stdio is recommended for local use.`);
+    async runHttp(port: number = 3000, options: Omit<HttpTransportOptions, "port"> = {}): Promise<HttpTransportHandle> {
+        const handle = await startHttpTransport(() => this.createServer(), { ...options, port });
+        const host = options.host || "127.0.0.1";
+        console.error(`MIDL Bitcoin MCP Server listening on http://${host}:${port}/mcp (SSE: /sse)`);
+        if (!options.authToken) {
+            console.error("Warning: HTTP transport running without bearer-token authentication.");
+        }
+        return handle;
     }
 
     /**
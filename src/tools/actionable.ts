@@ -1,11 +1,31 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ElicitResultSchema, type CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { transferBTC, broadcastTransaction, signPSBT, getDefaultAccount, SignMessageProtocol } from "@midl/core";
+import { transferBTC, broadcastTransaction, signPSBT, getDefaultAccount, getFeeRate, getUTXOs, SignMessageProtocol } from "@midl/core";
 import { addTxIntention, finalizeBTCTransaction, getEVMFromBitcoinNetwork, getEVMAddress, signIntention } from "@midl/executor";
-import { createPublicClient, createWalletClient, http, encodeDeployData, getContractAddress, encodeFunctionData, keccak256 } from "viem";
+import { createPublicClient, createWalletClient, encodeDeployData, getContractAddress, encodeFunctionData, keccak256 } from "viem";
 import { waitForTransactionReceipt } from "viem/actions";
-import solc from "solc";
+import { Psbt, Transaction } from "bitcoinjs-lib";
 import { MidlConfigWrapper } from "../config/midl-config.js";
+import { SpendingPolicy, policyViolationResponse, type PolicyViolation } from "../config/policy.js";
+import { type AuditDetails, type ElicitationOutcome } from "../config/audit-log.js";
+import { analyzeTransactionSpend, getBitcoinNetwork, getPsbtFee, type TransactionSpend } from "../utils/bitcoin.js";
+import { SIGHASH_TYPES, combinePsbts, finalizePsbtInputs, getSignInputs, getUnsignedTransaction, inspectOutputs, inspectPsbt, parseSighashName } from "../utils/psbt.js";
+import { buildApprovalSummary } from "../utils/summary.js";
+import { assertValidRecipients, validateAddress } from "../utils/address.js";
+import { buildMultisigSpendPsbt, createMultisigWallet, isCosigner } from "../utils/multisig.js";
+import { getTransactionDetails } from "../utils/transaction.js";
+import { buildCpfpChild, buildRbfReplacement } from "../utils/feebump.js";
+import { SELECTION_STRATEGIES, buildSelectionPsbt, hasCoinControl, selectCoins } from "../utils/coin-control.js";
+import { getAccountInputVsize } from "../utils/inputs.js";
+import { pickConsolidationInputs } from "../utils/utxo-analysis.js";
+import { getProtectedOutpoints } from "../utils/assets.js";
+import { formatPreflight, preflightTransaction, type PreflightReport } from "../utils/preflight.js";
+import { createBtcCheck, createEvmCheck } from "../utils/tracking.js";
+import { trackedUri } from "../config/tracker.js";
+import { SessionSubscriptions } from "../resources/subscriptions.js";
+import { compileSolidity, formatDiagnostics, getCompilerVersion } from "../utils/solidity.js";
+import { formatUnresolvedImports } from "../config/import-resolver.js";
 
 // Helper to call eth_sendBTCTransactions RPC method
 async function sendBTCTransactions(
@@ -21,41 +41,342 @@ async function sendBTCTransactions(
     );
 }
 
+// Helper to check a fully built transaction against the spending policy before broadcast
+function checkBroadcastPolicy(policy: SpendingPolicy, spend: TransactionSpend): PolicyViolation | null {
+    if (policy.requiresFee() && spend.fee === undefined) {
+        return {
+            rule: policy.getRules().maxFeeSats !== undefined ? "maxFeeSats" : "maxFeeRate",
+            message: "Could not look up the previous outputs to determine the transaction fee.",
+        };
+    }
+    return policy.check({
+        recipients: spend.recipients,
+        ...(spend.fee !== undefined ? { fee: spend.fee } : {}),
+        ...(spend.feeRate !== undefined ? { feeRate: spend.feeRate } : {}),
+    });
+}
+
+// Structured preflight results returned by the broadcast tools
+const preflightOutputSchema = z.object({
+    fee: z.number().nullable(),
+    feeRate: z.number().nullable(),
+    vsize: z.number(),
+    doubleSpendsChecked: z.boolean(),
+    warnings: z.array(z.string()),
+});
+
+function summarizePreflight(report: PreflightReport) {
+    const { fee, feeRate, vsize, doubleSpendsChecked, warnings } = report;
+    return { fee, feeRate, vsize, doubleSpendsChecked, warnings };
+}
+
+// Helper to refuse a broadcast that failed its preflight checks
+function preflightFailureResponse(text: string) {
+    return {
+        content: [{ type: "text" as const, text: `Broadcast blocked by preflight checks.\n\n${text}` }],
+        isError: true,
+    };
+}
+
+// Helper to ask the human to approve an action with a single checkbox form
+async function requestApproval(extra: any, message: string, field: string, description: string): Promise<ElicitationOutcome> {
+    if (!extra?.sendRequest) return "unsupported";
+
+    let result;
+    try {
+        result = await extra.sendRequest({
+            method: "elicitation/create",
+            params: {
+                mode: "form",
+                message,
+                requestedSchema: {
+                    type: "object",
+                    properties: {
+                        [field]: { type: "boolean", description }
+                    },
+                    required: [field]
+                }
+            }
+        }, ElicitResultSchema);
+    } catch (error: any) {
+        if (/does not support elicitation/i.test(error?.message ?? "")) return "unsupported";
+        throw error;
+    }
+
+    return result.action === "accept" && result.content?.[field] === true ? "approved" : "declined";
+}
+
 /**
  * Registers actionable tools on the McpServer.
  */
 export function registerActionableTools(server: McpServer, midl: MidlConfigWrapper) {
     const config = midl.getConfig();
+    const policy = midl.getPolicy();
+    const auditLog = midl.getAuditLog();
+
+    // Wraps a tool handler so every call lands in the audit log with what the handler reported
+    const audited = <A>(
+        tool: string,
+        handler: (args: A, extra: any, audit: AuditDetails) => Promise<CallToolResult>
+    ) => async (args: A, extra: any): Promise<CallToolResult> => {
+        const audit: AuditDetails = {};
+        try {
+            const result = await handler(args, extra, audit);
+            auditLog.record({
+                tool,
+                arguments: args,
+                ...audit,
+                ...(result.isError ? { error: (result.content[0] as { text?: string })?.text ?? "Unknown error" } : {}),
+            });
+            return result;
+        } catch (error: any) {
+            auditLog.record({ tool, arguments: args, ...audit, error: error.message });
+            throw error;
+        }
+    };
+
+    // A recipient is known when allow-listed or paid by an earlier successful broadcast
+    const isKnownRecipient = (address: string) =>
+        (policy.getRules().allowedRecipients ?? []).some(allowed => allowed.toLowerCase() === address.toLowerCase())
+        || auditLog.query({ address }).some(entry => !entry.error && entry.recipients?.includes(address));
+
+    // Multisig wallets on this network cosigned by a connected account (or only by `address`), by wallet address
+    const getCosignedMultisigs = (address?: string): Map<string, string> => {
+        const accounts = (config.getState().accounts || []).filter(a => !address || a.address === address);
+        const cosignerOf = new Map<string, string>();
+        for (const wallet of midl.getMultisigStore().list(midl.getNetworkName())) {
+            const cosigner = accounts.find(a => isCosigner(wallet, a.publicKey));
+            if (cosigner) cosignerOf.set(wallet.address, cosigner.address);
+        }
+        return cosignerOf;
+    };
+
+    const getFastestFeeRate = async (): Promise<{ fastestFeeRate?: number }> => {
+        try {
+            return { fastestFeeRate: (await getFeeRate(config)).fastestFee };
+        } catch {
+            return {}; // Fee rate warnings are skipped when the provider is unreachable
+        }
+    };
+
+    // Decoded summary of a PSBT for the signing confirmation
+    const summarizePsbt = async (psbtBase64: string) => {
+        const network = getBitcoinNetwork(config);
+        const inspection = inspectPsbt(Psbt.fromBase64(psbtBase64, { network }), network, midl.getOwnAddresses());
+        return buildApprovalSummary({
+            action: "sign",
+            txId: inspection.txId,
+            foreignInputs: inspection.inputs.filter(input => !input.owned).length,
+            outputs: inspection.outputs,
+            fee: inspection.fee,
+            feeRate: inspection.feeRate,
+            vsize: inspection.vsize,
+            vsizeExact: inspection.vsizeExact,
+            intentions: midl.getPendingIntentions().get(inspection.txId),
+            isKnownRecipient,
+            ...(await getFastestFeeRate()),
+        });
+    };
+
+    // Decoded summary of a raw transaction for the broadcast confirmation
+    const summarizeTransaction = async (txHex: string, spend: TransactionSpend) => {
+        const tx = Transaction.fromHex(txHex);
+        return buildApprovalSummary({
+            action: "broadcast",
+            txId: tx.getId(),
+            foreignInputs: 0,
+            outputs: inspectOutputs(tx.outs, getBitcoinNetwork(config), midl.getOwnAddresses()),
+            fee: spend.fee ?? null,
+            feeRate: spend.feeRate ?? null,
+            vsize: spend.vsize,
+            vsizeExact: true,
+            intentions: midl.getPendingIntentions().get(tx.getId()),
+            isKnownRecipient,
+            ...(await getFastestFeeRate()),
+        });
+    };
+
+    // Signature, absurd-fee and double-spend checks run before every broadcast
+    const preflight = async (txHex: string) => preflightTransaction(config, txHex, {
+        limits: midl.getBroadcastLimits(),
+        apiUrl: `${midl.getNetworkProfile().mempoolUrl}/api`,
+        ...(await getFastestFeeRate()),
+    }).then(report => ({ report, text: formatPreflight(report, midl.getBroadcastLimits()) }));
+
+    // Watches a Bitcoin transaction until it confirms and subscribes this session to its status resource
+    const trackBtcTransaction = (txid: string, options: { confirmations?: number | undefined; label?: string | undefined } = {}) => {
+        midl.getTracker().track({
+            id: txid,
+            kind: "btc",
+            check: createBtcCheck(config, txid, `${midl.getNetworkProfile().mempoolUrl}/api`),
+            ...options,
+        });
+        SessionSubscriptions.for(server).add(trackedUri(txid));
+        return trackedUri(txid);
+    };
+
+    // Watches a MIDL EVM transaction (and its Bitcoin anchor, when known) the same way
+    const trackEvmTransaction = (hash: `0x${string}`, options: { anchorTxId?: string | undefined; confirmations?: number | undefined; label?: string | undefined } = {}) => {
+        if (options.anchorTxId) trackBtcTransaction(options.anchorTxId, { label: options.label && `${options.label} (BTC anchor)` });
+        const client = createPublicClient({
+            chain: getEVMFromBitcoinNetwork(config.getState().network as any) as any,
+            transport: midl.getEvmTransport(),
+        });
+        midl.getTracker().track({ id: hash, kind: "evm", check: createEvmCheck(client as any, hash), ...options });
+        SessionSubscriptions.for(server).add(trackedUri(hash));
+        return trackedUri(hash);
+    };
+
+    // Anchor transactions pay the MIDL multisig, so only the fee rules apply to them
+    const checkAnchorFee = async (txHex: string | undefined): Promise<PolicyViolation | null> => {
+        if (!policy.requiresFee()) return null;
+        if (!txHex) {
+            return { rule: "maxFeeSats", message: "The anchor transaction was not built, so its fee cannot be checked." };
+        }
+        const spend = await analyzeTransactionSpend(config, txHex, midl.getOwnAddresses());
+        return checkBroadcastPolicy(policy, { ...spend, recipients: [], total: 0 });
+    };
+
+    // Other broadcasts may use up the daily cap while a transaction awaits approval or preflight, so
+    // the policy is checked again and the spend reserved before broadcasting; a failed broadcast releases it
+    const broadcastWithinPolicy = async (txHex: string, spend: TransactionSpend): Promise<{ txId: string } | { violation: PolicyViolation }> => {
+        const violation = checkBroadcastPolicy(policy, spend);
+        if (violation) return { violation };
+        const release = policy.recordSpend(spend.total);
+        try {
+            return { txId: await broadcastTransaction(config, txHex) };
+        } catch (error) {
+            release();
+            throw error;
+        }
+    };
 
     // Tool: prepare-btc-transfer
-    server.tool(
+    server.registerTool(
         "prepare-btc-transfer",
-        "Prepare an unsigned PSBT for a Bitcoin transfer (No signature or broadcast)",
         {
-            recipients: z.array(z.object({
-                address: z.string().describe("Recipient Bitcoin address"),
-                amount: z.number().int().positive().describe("Amount in satoshis"),
-            })),
-            feeRate: z.number().int().optional().describe("Fee rate in sat/vB."),
-            from: z.string().optional().describe("Source address to spend from."),
+            description: "Prepare an unsigned PSBT for a Bitcoin transfer (No signature or broadcast). Supports coin control: include or exclude outpoints, pick a selection strategy, set a change address, or send the maximum to one recipient.",
+            inputSchema: {
+                recipients: z.array(z.object({
+                    address: z.string().describe("Recipient Bitcoin address"),
+                    amount: z.number().int().positive().optional().describe("Amount in satoshis. Omit for the recipient of a sendMax transfer."),
+                })),
+                feeRate: z.number().int().optional().describe("Fee rate in sat/vB."),
+                from: z.string().optional().describe("Source address to spend from."),
+                include: z.array(z.string()).optional().describe("Outpoints (txid:vout) that must be spent"),
+                exclude: z.array(z.string()).optional().describe("Outpoints (txid:vout) that must not be spent"),
+                strategy: z.enum(SELECTION_STRATEGIES).optional().describe("UTXO selection strategy (default: largest-first)"),
+                changeAddress: z.string().optional().describe("Address receiving the change. Defaults to the source address."),
+                sendMax: z.boolean().optional().describe("Send everything left after fees (and other recipients) to the recipient without an amount"),
+                allowAssetUtxos: z.boolean().optional().describe("Allow spending UTXOs that carry runes or inscriptions (excluded by default)"),
+            },
+            outputSchema: {
+                psbt: z.string().describe("Base64 encoded PSBT"),
+                txId: z.string(),
+                fee: z.number().nullable().describe("Fee in satoshis (null if input values are unknown)"),
+                vsize: z.number().describe("Virtual size in vbytes"),
+                inputs: z.array(z.string()).optional().describe("Outpoints spent, when coin control was used"),
+                change: z.number().optional().describe("Change in satoshis, when coin control was used"),
+            },
         },
-        async ({ recipients, feeRate, from }) => {
+        audited("prepare-btc-transfer", async ({ recipients, feeRate, from, allowAssetUtxos, ...coinControl }, _extra, audit) => {
             try {
-                const transfers = recipients.map(r => ({ receiver: r.address, amount: r.amount }));
-                const response = await transferBTC(config, {
-                    transfers,
-                    feeRate: feeRate ?? undefined,
-                    from: from ?? undefined,
-                    publish: false
-                } as any); // Cast to any to bypass strict feeRate nullability for now if needed, or fix the type in core
+                const network = getBitcoinNetwork(config);
+                assertValidRecipients(recipients, network, midl.getNetworkName());
+                const fixed = recipients.filter((r): r is { address: string; amount: number } => r.amount !== undefined);
+                const violation = policy.check({ recipients: fixed, ...(feeRate !== undefined ? { feeRate } : {}) });
+                if (violation) return policyViolationResponse(violation);
+
+                const account = from ? config.getState().accounts?.find(a => a.address === from) : getDefaultAccount(config);
+                if (!account) throw new Error("No account found for the specified address.");
+                const assets = allowAssetUtxos
+                    ? { exclude: [] }
+                    : await getProtectedOutpoints(config, account.address, { ordUrl: midl.getNetworkProfile().ordUrl, include: coinControl.include });
+
+                // MIDL.js selects from every UTXO, so asset-bearing ones force our own selection
+                if (!hasCoinControl(coinControl) && assets.exclude.length === 0) {
+                    if (fixed.length < recipients.length) throw new Error("Every recipient needs an amount unless sendMax is set.");
+                    const transfers = fixed.map(r => ({ receiver: r.address, amount: r.amount }));
+                    const response = await transferBTC(config, {
+                        transfers,
+                        feeRate: feeRate ?? undefined,
+                        from: from ?? undefined,
+                        publish: false
+                    } as any); // Cast to any to bypass strict feeRate nullability for now if needed, or fix the type in core
+
+                    // Re-check with the actual fee now that coin selection has run
+                    const builtViolation = checkBroadcastPolicy(policy, await analyzeTransactionSpend(config, response.tx.hex, midl.getOwnAddresses()));
+                    if (builtViolation) return policyViolationResponse(builtViolation);
+
+                    audit.psbt = response.psbt;
+                    audit.txId = response.tx.id;
+
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `PSBT Prepared successfully.\n\nPSBT (Base64):\n${response.psbt}\n\nTransaction ID: ${response.tx.id}\n\nPlease use 'decode-psbt' to verify details before signing.`,
+                            },
+                        ],
+                        structuredContent: {
+                            psbt: response.psbt,
+                            txId: response.tx.id,
+                            fee: getPsbtFee(Psbt.fromBase64(response.psbt, { network })),
+                            vsize: Transaction.fromHex(response.tx.hex).virtualSize(),
+                        },
+                    };
+                }
+
+                if (coinControl.changeAddress) {
+                    const validation = validateAddress(coinControl.changeAddress, network, midl.getNetworkName());
+                    if (!validation.valid) throw new Error(`Invalid change address: ${validation.error}`);
+                }
+
+                const rate = feeRate ?? (await getFeeRate(config)).hourFee;
+                const selection = selectCoins(await getUTXOs(config, account.address), recipients, {
+                    ...coinControl,
+                    exclude: [...(coinControl.exclude ?? []), ...assets.exclude],
+                    feeRate: rate,
+                    inputVsize: getAccountInputVsize(account),
+                    changeAddress: coinControl.changeAddress ?? account.address,
+                    network,
+                });
+
+                // Change sent outside the user's wallets counts as a payment
+                const ownAddresses = midl.getOwnAddresses();
+                const paid = selection.outputs
+                    .filter(o => !o.change || !ownAddresses.has(o.address))
+                    .map(o => ({ address: o.address, amount: o.value }));
+                const builtViolation = policy.check({ recipients: paid, fee: selection.fee, feeRate: rate });
+                if (builtViolation) return policyViolationResponse(builtViolation);
+
+                const built = await buildSelectionPsbt(config, account, selection);
+                const psbt = built.toBase64();
+                const txId = getUnsignedTransaction(built).getId();
+                audit.psbt = psbt;
+                audit.txId = txId;
+                const inputs = selection.inputs.map(u => `${u.txid}:${u.vout}`);
 
                 return {
                     content: [
                         {
                             type: "text",
-                            text: `PSBT Prepared successfully.\n\nPSBT (Base64):\n${response.psbt}\n\nTransaction ID: ${response.tx.id}\n\nPlease use 'decode-psbt' to verify details before signing.`,
+                            text: `PSBT Prepared successfully (${selection.strategy} selection).\n\n` +
+                                `Inputs: ${inputs.join(", ")}\n` +
+                                `Outputs:\n${selection.outputs.map(o => `- ${o.address}: ${o.value} sats${o.change ? " (change)" : ""}`).join("\n")}\n` +
+                                `Fee: ${selection.fee} sats (${rate} sat/vB, ~${selection.vsize} vB)\n\n` +
+                                `${assets.exclude.length > 0 ? `Left ${assets.exclude.length} rune/inscription UTXO(s) unspent.\n` : ""}` +
+                                `PSBT (Base64):\n${psbt}\n\nTransaction ID: ${txId}\n\nSign it with 'request-psbt-signature'.`,
                         },
                     ],
+                    structuredContent: {
+                        psbt,
+                        txId,
+                        fee: selection.fee,
+                        vsize: selection.vsize,
+                        inputs,
+                        change: selection.change,
+                    },
                 };
             } catch (error: any) {
                 return {
@@ -63,130 +384,718 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                     isError: true,
                 };
             }
-        }
+        })
+    );
+
+    // Tool: prepare-consolidation
+    server.registerTool(
+        "prepare-consolidation",
+        {
+            description: "Prepare an unsigned PSBT merging many small UTXOs of a connected account into one output, smallest first. Best run when fees are low; see 'analyze-utxos'. Sign it with 'request-psbt-signature'.",
+            inputSchema: {
+                from: z.string().optional().describe("Connected account to consolidate. If omitted, uses the default account."),
+                destination: z.string().optional().describe("Address receiving the merged output. Defaults to the source address."),
+                feeRate: z.number().int().positive().optional().describe("Fee rate in sat/vB. If omitted, uses the current hour fee rate."),
+                maxFeeRate: z.number().positive().optional().describe("Refuse to consolidate when the fee rate is above this (sat/vB)"),
+                maxInputs: z.number().int().min(2).max(500).default(50).describe("Maximum UTXOs to merge"),
+                includeDust: z.boolean().default(false).describe("Also spend UTXOs worth no more than their own spend cost"),
+                exclude: z.array(z.string()).optional().describe("Outpoints (txid:vout) to leave alone"),
+                allowAssetUtxos: z.boolean().optional().describe("Also merge UTXOs that carry runes or inscriptions (left alone by default)"),
+            },
+            outputSchema: {
+                psbt: z.string().describe("Base64 encoded PSBT"),
+                txId: z.string(),
+                inputCount: z.number(),
+                inputTotal: z.number().describe("Value merged in satoshis"),
+                fee: z.number(),
+                feeRate: z.number(),
+                value: z.number().describe("Value of the merged output in satoshis"),
+                destination: z.string(),
+            },
+        },
+        audited("prepare-consolidation", async ({ from, destination, feeRate, maxFeeRate, maxInputs, includeDust, exclude, allowAssetUtxos }, _extra, audit) => {
+            try {
+                const network = getBitcoinNetwork(config);
+                const account = from ? config.getState().accounts?.find(a => a.address === from) : getDefaultAccount(config);
+                if (!account) throw new Error("No account found for the specified address.");
+                const target = destination ?? account.address;
+                assertValidRecipients([{ address: target }], network, midl.getNetworkName());
+
+                const rate = feeRate ?? (await getFeeRate(config)).hourFee;
+                if (maxFeeRate !== undefined && rate > maxFeeRate) {
+                    throw new Error(`The fee rate is ${rate} sat/vB, above maxFeeRate ${maxFeeRate} sat/vB. Try again when fees are lower.`);
+                }
+
+                const assets = allowAssetUtxos
+                    ? { exclude: [] }
+                    : await getProtectedOutpoints(config, account.address, { ordUrl: midl.getNetworkProfile().ordUrl });
+                const inputVsize = getAccountInputVsize(account);
+                const utxos = pickConsolidationInputs(await getUTXOs(config, account.address), rate, inputVsize, {
+                    maxInputs,
+                    includeDust,
+                    exclude: [...(exclude ?? []), ...assets.exclude],
+                });
+                const selection = selectCoins(utxos, [{ address: target }], {
+                    include: utxos.map(u => `${u.txid}:${u.vout}`),
+                    sendMax: true,
+                    feeRate: rate,
+                    inputVsize,
+                    changeAddress: account.address,
+                    network,
+                });
+                const value = selection.outputs[0]!.value;
+
+                // Merging into an address outside the user's wallets is a payment
+                const recipients = midl.getOwnAddresses().has(target) ? [] : [{ address: target, amount: value }];
+                const violation = policy.check({ recipients, fee: selection.fee, feeRate: rate });
+                if (violation) return policyViolationResponse(violation);
+
+                const built = await buildSelectionPsbt(config, account, selection);
+                const psbt = built.toBase64();
+                const txId = getUnsignedTransaction(built).getId();
+                audit.psbt = psbt;
+                audit.txId = txId;
+                const inputTotal = utxos.reduce((acc, u) => acc + u.value, 0);
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Consolidation prepared: ${utxos.length} UTXOs (${inputTotal} sats) → 1 output of ${value} sats to ${target}.\n\n` +
+                                `Fee: ${selection.fee} sats (${rate} sat/vB, ~${selection.vsize} vB)\n\n` +
+                                `PSBT (Base64):\n${psbt}\n\nSign it with 'request-psbt-signature', then broadcast with 'request-transaction-broadcast'.`,
+                        },
+                    ],
+                    structuredContent: {
+                        psbt,
+                        txId,
+                        inputCount: utxos.length,
+                        inputTotal,
+                        fee: selection.fee,
+                        feeRate: rate,
+                        value,
+                        destination: target,
+                    },
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: "text", text: `Error preparing consolidation: ${error.message}` }],
+                    isError: true,
+                };
+            }
+        })
     );
 
     // Tool: request-psbt-signature
-    server.tool(
+    server.registerTool(
         "request-psbt-signature",
-        "Request a human signature for a PSBT via elicitation",
         {
-            psbt: z.string().describe("Base64 encoded PSBT to sign"),
-            address: z.string().optional().describe("Address to sign for. If omitted, uses default account."),
+            description: "Request a human signature for a PSBT via elicitation. Signs every input owned by a connected account (payment and ordinals) unless specific inputs are given.",
+            inputSchema: {
+                psbt: z.string().describe("Base64 encoded PSBT to sign"),
+                address: z.string().optional().describe("Only sign inputs owned by this address. If omitted, any connected account."),
+                inputIndexes: z.array(z.number().int().nonnegative()).optional().describe("Explicit input indexes to sign. If omitted, all owned inputs."),
+                sighashType: z.enum(SIGHASH_TYPES).optional().describe("Sighash type for the signed inputs (default: ALL, or DEFAULT for taproot)"),
+            },
+            outputSchema: {
+                psbt: z.string().describe("Base64 encoded signed PSBT"),
+                signedInputs: z.array(z.number()).describe("Indexes signed by this request"),
+                unsignedInputs: z.array(z.number()).describe("Indexes still lacking a signature"),
+            },
         },
-        async ({ psbt, address }, extra: any) => {
+        audited("request-psbt-signature", async ({ psbt, address, inputIndexes, sighashType }, extra, audit) => {
             try {
-                if (extra?.sendRequest) {
-                    const confirmed: any = await extra.sendRequest({
-                        method: "elicitation/create",
-                        params: {
-                            mode: "form",
-                            message: "Please confirm that you want to SIGN this Bitcoin transaction.",
-                            requestedSchema: {
-                                type: "object",
-                                properties: {
-                                    approved: { type: "boolean", description: "I approve this signature request" }
-                                },
-                                required: ["approved"]
-                            }
-                        }
-                    });
+                const network = getBitcoinNetwork(config);
+                const accountAddresses = (config.getState().accounts || []).map(a => a.address);
+                if (address && !accountAddresses.includes(address)) {
+                    throw new Error(`No connected account for address ${address}.`);
+                }
+                const cosignerOf = getCosignedMultisigs(address);
+                const signers = new Set<string>([...(address ? [address] : accountAddresses), ...cosignerOf.keys()]);
+
+                const unsigned = Psbt.fromBase64(psbt, { network });
+                const inspection = inspectPsbt(unsigned, network, signers);
+                // Multisig inputs are signed by the connected account that cosigns them
+                const signInputs: Record<string, number[]> = {};
+                for (const [owner, ownedIndexes] of Object.entries(getSignInputs(inspection, signers, inputIndexes))) {
+                    (signInputs[cosignerOf.get(owner) ?? owner] ??= []).push(...ownedIndexes);
+                }
+                const indexes = Object.values(signInputs).flat().sort((a, b) => a - b);
+                if (indexes.length === 0) {
+                    throw new Error("No unsigned inputs in this PSBT belong to the connected accounts.");
+                }
+                const isScriptPath = (index: number) => Boolean(unsigned.data.inputs[index]!.tapLeafScript?.length);
+                const scriptPath = indexes.some(isScriptPath);
+                if (scriptPath && indexes.some(index => inspection.inputs[index]!.scriptType === "p2tr" && !isScriptPath(index))) {
+                    throw new Error("Taproot multisig inputs and Taproot account inputs must be signed in separate requests (use inputIndexes).");
+                }
+                if (sighashType) {
+                    const flag = parseSighashName(sighashType);
+                    indexes.forEach(index => unsigned.updateInput(index, { sighashType: flag }));
+                }
+                const toSign = unsigned.toBase64();
 
-                    if (!confirmed || !confirmed.approved) {
-                        return {
-                            content: [{ type: "text", text: "Signature request declined by user." }],
-                            isError: true
-                        };
-                    }
-                } else {
+                const summary = await summarizePsbt(toSign);
+                const message = `${summary.text}\n\nInputs to sign: ${indexes.join(", ")}${sighashType ? ` (SIGHASH_${sighashType})` : ""}`;
+                audit.elicitation = await requestApproval(extra, message, "approved", "I approve this signature request");
+                if (audit.elicitation === "unsupported") {
                     return {
                         content: [{ type: "text", text: "Error: Human elicitation required for signing but not supported by client." }],
                         isError: true
                     };
                 }
+                if (audit.elicitation === "declined") {
+                    return {
+                        content: [{ type: "text", text: "Signature request declined by user." }],
+                        isError: true
+                    };
+                }
+
+                const signedRes = await signPSBT(config, {
+                    psbt: toSign,
+                    signInputs,
+                    publish: false,
+                    // Script-path signatures use the untweaked account key
+                    ...(scriptPath ? { disableTweakSigner: true } : {}),
+                });
+                audit.psbt = signedRes.psbt;
+
+                const signed = inspectPsbt(Psbt.fromBase64(signedRes.psbt, { network }), network, signers);
+                const hasSignature = (i: { signatures: number; finalized: boolean }) => i.signatures > 0 || i.finalized;
+                const signedInputs = indexes.filter(index => hasSignature(signed.inputs[index]!));
+                const unsignedInputs = signed.inputs.filter(i => !hasSignature(i)).map(i => i.index);
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `PSBT signed successfully.\n\nSigned inputs: ${signedInputs.join(", ") || "none"}\n` +
+                                `Unsigned inputs: ${unsignedInputs.join(", ") || "none"}\n\nSigned PSBT (Base64):\n${signedRes.psbt}`,
+                        },
+                    ],
+                    structuredContent: {
+                        psbt: signedRes.psbt,
+                        signedInputs,
+                        unsignedInputs,
+                    },
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: "text", text: `Error signing PSBT: ${error.message}` }],
+                    isError: true,
+                };
+            }
+        })
+    );
+
+    // Tool: combine-psbts
+    server.registerTool(
+        "combine-psbts",
+        {
+            description: "Combine PSBTs signed by different parties into one PSBT carrying all signatures. All PSBTs must describe the same unsigned transaction.",
+            inputSchema: {
+                psbts: z.array(z.string()).min(2).describe("Base64 encoded PSBTs to combine"),
+            },
+            outputSchema: {
+                psbt: z.string().describe("Base64 encoded combined PSBT"),
+                txId: z.string(),
+                signatures: z.array(z.number()).describe("Signature count per input"),
+                unsignedInputs: z.array(z.number()).describe("Indexes still lacking a signature"),
+            },
+        },
+        audited("combine-psbts", async ({ psbts }, _extra, audit) => {
+            try {
+                const network = getBitcoinNetwork(config);
+                const parsed = psbts.map((psbt, i) => {
+                    try {
+                        return Psbt.fromBase64(psbt, { network });
+                    } catch (error: any) {
+                        throw new Error(`PSBT #${i + 1} is invalid: ${error.message}`);
+                    }
+                });
+                const combined = combinePsbts(parsed);
+                const psbt = combined.toBase64();
+                audit.psbt = psbt;
+
+                const inspection = inspectPsbt(combined, network, new Set<string>());
+                audit.txId = inspection.txId;
+                const signatures = inspection.inputs.map(i => i.signatures);
+                const unsignedInputs = inspection.inputs.filter(i => i.signatures === 0 && !i.finalized).map(i => i.index);
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Combined ${psbts.length} PSBTs for transaction ${inspection.txId}.\n\n` +
+                                inspection.inputs.map(i => `- Input ${i.index}: ${i.finalized ? "finalized" : `${i.signatures} of ${i.requiredSignatures} signature(s)`}`).join("\n") +
+                                `\n\nCombined PSBT (Base64):\n${psbt}\n\nUse 'finalize-psbt' once every input has the signatures it needs.`,
+                        },
+                    ],
+                    structuredContent: {
+                        psbt,
+                        txId: inspection.txId,
+                        signatures,
+                        unsignedInputs,
+                    },
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: "text", text: `Error combining PSBTs: ${error.message}` }],
+                    isError: true,
+                };
+            }
+        })
+    );
+
+    // Tool: finalize-psbt
+    server.registerTool(
+        "finalize-psbt",
+        {
+            description: "Finalize every signed input of a PSBT (build the final scriptSig/witness). Reports the inputs that cannot be finalized yet and why.",
+            inputSchema: {
+                psbt: z.string().describe("Base64 encoded signed PSBT"),
+            },
+            outputSchema: {
+                psbt: z.string().describe("Base64 encoded finalized PSBT"),
+                finalizedInputs: z.array(z.number()).describe("Indexes finalized by this request"),
+                alreadyFinalized: z.array(z.number()).describe("Indexes that were finalized before"),
+            },
+        },
+        audited("finalize-psbt", async ({ psbt }, _extra, audit) => {
+            try {
+                const parsed = Psbt.fromBase64(psbt, { network: getBitcoinNetwork(config) });
+                const result = finalizePsbtInputs(parsed);
+                const finalized = parsed.toBase64();
+                audit.psbt = finalized;
+
+                const failures = result.failedInputs.map(f => `- Input ${f.index}: ${f.reason}`).join("\n");
+                if (result.failedInputs.length > 0) {
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Error: ${result.failedInputs.length} input(s) could not be finalized:\n${failures}\n\n` +
+                                    `Finalized inputs: ${result.finalizedInputs.join(", ") || "none"}\n\nPartially finalized PSBT (Base64):\n${finalized}`,
+                            },
+                        ],
+                        isError: true,
+                    };
+                }
 
-                const state = config.getState();
-                const account = address
-                    ? state.accounts?.find(a => a.address === address)
-                    : getDefaultAccount(config);
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `All inputs finalized.\n\nFinalized PSBT (Base64):\n${finalized}\n\nUse 'extract-transaction' to get the raw transaction hex.`,
+                        },
+                    ],
+                    structuredContent: {
+                        psbt: finalized,
+                        finalizedInputs: result.finalizedInputs,
+                        alreadyFinalized: result.alreadyFinalized,
+                    },
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: "text", text: `Error finalizing PSBT: ${error.message}` }],
+                    isError: true,
+                };
+            }
+        })
+    );
 
-                if (!account) {
-                    throw new Error("No account found for signing.");
+    // Tool: extract-transaction
+    server.registerTool(
+        "extract-transaction",
+        {
+            description: "Extract the raw network transaction from a fully finalized PSBT, ready for 'request-transaction-broadcast'",
+            inputSchema: {
+                psbt: z.string().describe("Base64 encoded finalized PSBT"),
+            },
+            outputSchema: {
+                txHex: z.string(),
+                txId: z.string(),
+                vsize: z.number(),
+                fee: z.number().nullable().describe("Fee in satoshis, or null if input values are unknown"),
+                feeRate: z.number().nullable(),
+            },
+        },
+        audited("extract-transaction", async ({ psbt }, _extra, audit) => {
+            try {
+                const network = getBitcoinNetwork(config);
+                const parsed = Psbt.fromBase64(psbt, { network });
+                const inspection = inspectPsbt(parsed, network, new Set<string>());
+                const pending = inspection.inputs.filter(i => !i.finalized).map(i => i.index);
+                if (pending.length > 0) {
+                    throw new Error(`Input(s) ${pending.join(", ")} are not finalized. Use 'finalize-psbt' first.`);
                 }
 
-                const signedRes = await signPSBT(config, {
-                    psbt,
-                    signInputs: {
-                        [account.address]: [0]
+                // bitcoinjs-lib rejects absurd fee rates, which needs every input value
+                const tx = parsed.extractTransaction(inspection.fee === null);
+                const txHex = tx.toHex();
+                audit.txId = tx.getId();
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Transaction ${tx.getId()} extracted (${tx.virtualSize()} vB, fee: ${inspection.fee ?? "unknown"} sats).\n\n` +
+                                `Raw transaction (hex):\n${txHex}\n\nUse 'request-transaction-broadcast' to broadcast it.`,
+                        },
+                    ],
+                    structuredContent: {
+                        txHex,
+                        txId: tx.getId(),
+                        vsize: tx.virtualSize(),
+                        fee: inspection.fee,
+                        feeRate: inspection.fee === null ? null : Number((inspection.fee / tx.virtualSize()).toFixed(2)),
+                    },
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: "text", text: `Error extracting transaction: ${error.message}` }],
+                    isError: true,
+                };
+            }
+        })
+    );
+
+    // Tool: create-multisig-wallet
+    server.registerTool(
+        "create-multisig-wallet",
+        {
+            description: "Create an m-of-n multisig wallet (P2WSH sortedmulti or Taproot script-path sortedmulti_a) from cosigner public keys and save its descriptor",
+            inputSchema: {
+                name: z.string().min(1).describe("Unique wallet name, e.g. 'treasury'"),
+                threshold: z.number().int().positive().describe("Signatures required to spend (m)"),
+                publicKeys: z.array(z.string()).min(1).describe("Cosigner public keys (hex). Include your own from 'list-accounts' to co-sign here."),
+                type: z.enum(["p2wsh", "p2tr"]).optional().describe("Script type (default: p2wsh)"),
+            },
+            outputSchema: {
+                name: z.string(),
+                type: z.string(),
+                threshold: z.number(),
+                publicKeys: z.array(z.string()),
+                network: z.string(),
+                address: z.string(),
+                descriptor: z.string(),
+                script: z.string(),
+                cosignerAccounts: z.array(z.string()).describe("Connected accounts that are cosigners"),
+            },
+        },
+        audited("create-multisig-wallet", async ({ name, threshold, publicKeys, type }) => {
+            try {
+                const wallet = createMultisigWallet(
+                    { name, threshold, publicKeys, type: type ?? "p2wsh" },
+                    getBitcoinNetwork(config),
+                    midl.getNetworkName()
+                );
+                midl.getMultisigStore().add(wallet);
+
+                const cosignerAccounts = (config.getState().accounts || [])
+                    .filter(a => isCosigner(wallet, a.publicKey))
+                    .map(a => a.address);
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Created ${wallet.threshold}-of-${wallet.publicKeys.length} ${wallet.type.toUpperCase()} multisig wallet "${wallet.name}".\n\n` +
+                                `Address: ${wallet.address}\nDescriptor: ${wallet.descriptor}\n` +
+                                `Cosigning accounts connected here: ${cosignerAccounts.join(", ") || "none"}\n\n` +
+                                `Check its funds with midl://balance/${wallet.address} and midl://utxos/${wallet.address}.`,
+                        },
+                    ],
+                    structuredContent: {
+                        ...wallet,
+                        cosignerAccounts,
                     },
-                    publish: false
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: "text", text: `Error creating multisig wallet: ${error.message}` }],
+                    isError: true,
+                };
+            }
+        })
+    );
+
+    // Tool: prepare-multisig-spend
+    server.registerTool(
+        "prepare-multisig-spend",
+        {
+            description: "Prepare an unsigned PSBT spending from a saved multisig wallet. Each input carries its witness script or Taproot leaf so every cosigner can sign it with 'request-psbt-signature'.",
+            inputSchema: {
+                wallet: z.string().describe("Multisig wallet name (see 'list-multisig-wallets')"),
+                recipients: z.array(z.object({
+                    address: z.string().describe("Recipient Bitcoin address"),
+                    amount: z.number().int().positive().describe("Amount in satoshis"),
+                })),
+                feeRate: z.number().int().optional().describe("Fee rate in sat/vB. If omitted, uses the current recommended rate."),
+            },
+            outputSchema: {
+                psbt: z.string().describe("Base64 encoded PSBT"),
+                txId: z.string(),
+                fee: z.number().describe("Fee in satoshis"),
+                feeRate: z.number().describe("Fee rate in sat/vB"),
+                change: z.number().describe("Change returned to the multisig address in satoshis"),
+                inputCount: z.number(),
+            },
+        },
+        audited("prepare-multisig-spend", async ({ wallet: name, recipients, feeRate }, _extra, audit) => {
+            try {
+                const violation = policy.check({ recipients, ...(feeRate !== undefined ? { feeRate } : {}) });
+                if (violation) return policyViolationResponse(violation);
+
+                assertValidRecipients(recipients, getBitcoinNetwork(config), midl.getNetworkName());
+                const wallet = midl.getMultisigStore().get(name);
+                if (wallet.network !== midl.getNetworkName()) {
+                    throw new Error(`Wallet "${name}" was created for ${wallet.network}, but the active network is ${midl.getNetworkName()}.`);
+                }
+
+                const rate = feeRate ?? (await getFeeRate(config)).hourFee;
+                const utxos = await getUTXOs(config, wallet.address);
+                const built = buildMultisigSpendPsbt(wallet, utxos, recipients, rate, getBitcoinNetwork(config));
+
+                const builtViolation = policy.check({ recipients, fee: built.fee, feeRate: rate });
+                if (builtViolation) return policyViolationResponse(builtViolation);
+
+                const psbt = built.psbt.toBase64();
+                const txId = getUnsignedTransaction(built.psbt).getId();
+                audit.psbt = psbt;
+                audit.txId = txId;
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Multisig spend from "${wallet.name}" prepared (${wallet.threshold}-of-${wallet.publicKeys.length}).\n\n` +
+                                `Inputs: ${built.inputs.length}\nFee: ${built.fee} sats (${rate} sat/vB)\nChange: ${built.change} sats\n\n` +
+                                `PSBT (Base64):\n${psbt}\n\nEach cosigner signs with 'request-psbt-signature'; then use 'combine-psbts', 'finalize-psbt' and 'extract-transaction'.`,
+                        },
+                    ],
+                    structuredContent: {
+                        psbt,
+                        txId,
+                        fee: built.fee,
+                        feeRate: rate,
+                        change: built.change,
+                        inputCount: built.inputs.length,
+                    },
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: "text", text: `Error preparing multisig spend: ${error.message}` }],
+                    isError: true,
+                };
+            }
+        })
+    );
+
+    // Looks up a transaction of the user's that is still waiting for confirmation
+    const getStuckTransaction = async (txid: string) => getTransactionDetails(config, txid.toLowerCase(), {
+        ownAddresses: midl.getOwnAddresses(),
+        intentions: midl.getPendingIntentions().get(txid.toLowerCase()),
+    });
+
+    // Tool: prepare-rbf-bump
+    server.registerTool(
+        "prepare-rbf-bump",
+        {
+            description: "Prepare an unsigned replacement (BIP125 replace-by-fee) for a stuck transaction: the same inputs and outputs with a higher fee taken from the change output. Sign it with 'request-psbt-signature' and broadcast with 'request-transaction-broadcast'.",
+            inputSchema: {
+                txid: z.string().regex(/^[0-9a-fA-F]{64}$/, "Expected a 64 character hex transaction id").describe("Unconfirmed transaction to replace"),
+                feeRate: z.number().positive().optional().describe("New fee rate in sat/vB. If omitted, uses the current fastest rate. Raised to the BIP125 minimum when lower."),
+            },
+            outputSchema: {
+                psbt: z.string().describe("Base64 encoded PSBT"),
+                txId: z.string(),
+                replacesTxId: z.string(),
+                fee: z.number().describe("New fee in satoshis"),
+                feeRate: z.number().describe("New fee rate in sat/vB"),
+                originalFee: z.number(),
+                originalFeeRate: z.number(),
+                change: z.number().describe("Remaining change in satoshis"),
+            },
+        },
+        audited("prepare-rbf-bump", async ({ txid, feeRate }, _extra, audit) => {
+            try {
+                const original = await getStuckTransaction(txid);
+                if (original.intentions.length > 0) {
+                    throw new Error(`Transaction ${original.txid} anchors MIDL EVM transactions, which would be dropped by a replacement. Use 'prepare-cpfp' instead.`);
+                }
+                const rate = feeRate ?? (await getFeeRate(config)).fastestFee;
+                const bump = await buildRbfReplacement(config, original, config.getState().accounts || [], rate);
+
+                const recipients = original.outputs
+                    .filter(o => !o.owned && o.address)
+                    .map(o => ({ address: o.address!, amount: o.value }));
+                const violation = policy.check({ recipients, fee: bump.fee, feeRate: bump.feeRate });
+                if (violation) return policyViolationResponse(violation);
+
+                const psbt = bump.psbt.toBase64();
+                const txId = getUnsignedTransaction(bump.psbt).getId();
+                audit.psbt = psbt;
+                audit.txId = txId;
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Replacement for ${original.txid} prepared.\n\n` +
+                                `Fee: ${bump.originalFee} → ${bump.fee} sats (${bump.originalFeeRate} → ${bump.feeRate} sat/vB)` +
+                                `${bump.raisedToMinimum ? ` — raised to the BIP125 minimum` : ""}\n` +
+                                `Change (output #${bump.changeIndex}): ${bump.change} sats\n\n` +
+                                `PSBT (Base64):\n${psbt}\n\nSign it with 'request-psbt-signature', then broadcast with 'request-transaction-broadcast'.`,
+                        },
+                    ],
+                    structuredContent: {
+                        psbt,
+                        txId,
+                        replacesTxId: original.txid,
+                        fee: bump.fee,
+                        feeRate: bump.feeRate,
+                        originalFee: bump.originalFee,
+                        originalFeeRate: bump.originalFeeRate,
+                        change: bump.change,
+                    },
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: "text", text: `Error preparing RBF bump: ${error.message}` }],
+                    isError: true,
+                };
+            }
+        })
+    );
+
+    // Tool: prepare-cpfp
+    server.registerTool(
+        "prepare-cpfp",
+        {
+            description: "Prepare an unsigned child-pays-for-parent transaction for a stuck transaction: spends one of its unconfirmed outputs back to the same address with a fee that lifts the package to the target rate. Sign it with 'request-psbt-signature' and broadcast with 'request-transaction-broadcast'.",
+            inputSchema: {
+                txid: z.string().regex(/^[0-9a-fA-F]{64}$/, "Expected a 64 character hex transaction id").describe("Unconfirmed parent transaction"),
+                vout: z.number().int().min(0).optional().describe("Parent output to spend. Defaults to the largest output owned by a connected account."),
+                feeRate: z.number().positive().optional().describe("Target package fee rate in sat/vB. If omitted, uses the current fastest rate."),
+            },
+            outputSchema: {
+                psbt: z.string().describe("Base64 encoded PSBT"),
+                txId: z.string(),
+                parentTxId: z.string(),
+                vout: z.number().describe("Parent output spent by the child"),
+                fee: z.number().describe("Child fee in satoshis"),
+                packageFeeRate: z.number().describe("Combined parent and child fee rate in sat/vB"),
+                value: z.number().describe("Amount returned to the address in satoshis"),
+            },
+        },
+        audited("prepare-cpfp", async ({ txid, vout, feeRate }, _extra, audit) => {
+            try {
+                const parent = await getStuckTransaction(txid);
+                const rate = feeRate ?? (await getFeeRate(config)).fastestFee;
+                const child = await buildCpfpChild(config, parent, config.getState().accounts || [], {
+                    feeRate: rate,
+                    ...(vout !== undefined ? { vout } : {}),
                 });
 
+                const violation = policy.check({ recipients: [], fee: child.fee, feeRate: child.packageFeeRate });
+                if (violation) return policyViolationResponse(violation);
+
+                const psbt = child.psbt.toBase64();
+                const txId = getUnsignedTransaction(child.psbt).getId();
+                audit.psbt = psbt;
+                audit.txId = txId;
+
                 return {
                     content: [
                         {
                             type: "text",
-                            text: `PSBT signed successfully.\n\nSigned PSBT (Base64):\n${signedRes}`,
+                            text: `Child transaction for ${parent.txid} prepared.\n\n` +
+                                `Spends output #${child.vout} back to ${child.address}: ${child.value} sats\n` +
+                                `Child fee: ${child.fee} sats\n` +
+                                `Package fee rate: ${parent.feeRate} → ${child.packageFeeRate} sat/vB\n\n` +
+                                `PSBT (Base64):\n${psbt}\n\nSign it with 'request-psbt-signature', then broadcast with 'request-transaction-broadcast'.`,
                         },
                     ],
+                    structuredContent: {
+                        psbt,
+                        txId,
+                        parentTxId: parent.txid,
+                        vout: child.vout,
+                        fee: child.fee,
+                        packageFeeRate: child.packageFeeRate,
+                        value: child.value,
+                    },
                 };
             } catch (error: any) {
                 return {
-                    content: [{ type: "text", text: `Error signing PSBT: ${error.message}` }],
+                    content: [{ type: "text", text: `Error preparing CPFP: ${error.message}` }],
                     isError: true,
                 };
             }
-        }
+        })
     );
 
     // Tool: request-transaction-broadcast
-    server.tool(
+    server.registerTool(
         "request-transaction-broadcast",
-        "Request human confirmation to broadcast a signed transaction",
         {
-            txHex: z.string().describe("Signed raw transaction hex string"),
+            description: "Request human confirmation to broadcast a signed transaction",
+            inputSchema: {
+                txHex: z.string().describe("Signed raw transaction hex string"),
+            },
+            outputSchema: {
+                txId: z.string(),
+                explorerUrl: z.string(),
+                trackingUri: z.string().describe("midl://tracked/{txid} resource with the confirmation status"),
+                preflight: preflightOutputSchema,
+            },
         },
-        async ({ txHex }, extra: any) => {
+        audited("request-transaction-broadcast", async ({ txHex }, extra, audit) => {
             try {
-                if (extra?.sendRequest) {
-                    const confirmed: any = await extra.sendRequest({
-                        method: "elicitation/create",
-                        params: {
-                            mode: "form",
-                            message: "CRITICAL: You are about to BROADCAST a transaction to the Bitcoin Network. This action is irreversible.",
-                            requestedSchema: {
-                                type: "object",
-                                properties: {
-                                    confirm: { type: "boolean", description: "I understand and wish to broadcast this transaction" }
-                                },
-                                required: ["confirm"]
-                            }
-                        }
-                    });
+                const spend = await analyzeTransactionSpend(config, txHex, midl.getOwnAddresses());
+                const violation = checkBroadcastPolicy(policy, spend);
+                if (violation) return policyViolationResponse(violation);
 
-                    if (!confirmed || !confirmed.confirm) {
-                        return {
-                            content: [{ type: "text", text: "Broadcast cancelled by user." }],
-                            isError: true
-                        };
-                    }
-                } else {
+                const checks = await preflight(txHex);
+                if (checks.report.errors.length > 0) return preflightFailureResponse(checks.text);
+
+                const summary = await summarizeTransaction(txHex, spend);
+                audit.elicitation = await requestApproval(extra, `${summary.text}\n\n${checks.text}`, "confirm", "I understand and wish to broadcast this transaction");
+                if (audit.elicitation === "unsupported") {
                     return {
                         content: [{ type: "text", text: "Error: Human elicitation required for broadcasting but not supported by client." }],
                         isError: true
                     };
                 }
+                if (audit.elicitation === "declined") {
+                    return {
+                        content: [{ type: "text", text: "Broadcast cancelled by user." }],
+                        isError: true
+                    };
+                }
 
-                const txId = await broadcastTransaction(config, txHex);
+                const broadcast = await broadcastWithinPolicy(txHex, spend);
+                if ("violation" in broadcast) return policyViolationResponse(broadcast.violation);
+                const { txId } = broadcast;
+                audit.txId = txId;
+                audit.recipients = spend.recipients.map(r => r.address);
                 const explorerUrl = config.getState().network.explorerUrl;
+                const trackingUri = trackBtcTransaction(txId);
 
                 return {
                     content: [
                         {
                             type: "text",
-                            text: `Transaction broadcasted successfully!\n\nTransaction ID: ${txId}\nView on Explorer: ${explorerUrl}${txId}`,
+                            text: `Transaction broadcasted successfully!\n\nTransaction ID: ${txId}\nView on Explorer: ${explorerUrl}${txId}\nTracking confirmations: ${trackingUri}\n\n${checks.text}`,
                         },
                     ],
+                    structuredContent: {
+                        txId,
+                        explorerUrl: `${explorerUrl}${txId}`,
+                        trackingUri,
+                        preflight: summarizePreflight(checks.report),
+                    },
                 };
             } catch (error: any) {
                 return {
@@ -194,28 +1103,54 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                     isError: true,
                 };
             }
-        }
+        })
     );
 
     // Tool: broadcast-transaction (for standalone BTC transactions)
-    server.tool(
+    server.registerTool(
         "broadcast-transaction",
-        "Broadcast a signed Bitcoin transaction to the network. Use this for BTC transfers. For contract deployments and calls, use deploy-contract-source or call-contract which handle the complete MIDL flow automatically.",
         {
-            txHex: z.string().describe("The signed raw transaction hex string"),
+            description: "Broadcast a signed Bitcoin transaction to the network. Use this for BTC transfers. For contract deployments and calls, use deploy-contract-source or call-contract which handle the complete MIDL flow automatically.",
+            inputSchema: {
+                txHex: z.string().describe("The signed raw transaction hex string"),
+            },
+            outputSchema: {
+                txId: z.string(),
+                explorerUrl: z.string(),
+                trackingUri: z.string().describe("midl://tracked/{txid} resource with the confirmation status"),
+                preflight: preflightOutputSchema,
+            },
         },
-        async ({ txHex }) => {
+        audited("broadcast-transaction", async ({ txHex }, _extra, audit) => {
             try {
-                const txId = await broadcastTransaction(config, txHex);
+                const spend = await analyzeTransactionSpend(config, txHex, midl.getOwnAddresses());
+                const violation = checkBroadcastPolicy(policy, spend);
+                if (violation) return policyViolationResponse(violation);
+
+                const checks = await preflight(txHex);
+                if (checks.report.errors.length > 0) return preflightFailureResponse(checks.text);
+
+                const broadcast = await broadcastWithinPolicy(txHex, spend);
+                if ("violation" in broadcast) return policyViolationResponse(broadcast.violation);
+                const { txId } = broadcast;
+                audit.txId = txId;
+                audit.recipients = spend.recipients.map(r => r.address);
                 const explorerUrl = config.getState().network?.explorerUrl || "";
+                const trackingUri = trackBtcTransaction(txId);
 
                 return {
                     content: [
                         {
                             type: "text",
-                            text: `✅ Transaction broadcasted successfully!\n\nTransaction ID: ${txId}\nExplorer: ${explorerUrl}${txId}`,
+                            text: `✅ Transaction broadcasted successfully!\n\nTransaction ID: ${txId}\nExplorer: ${explorerUrl}${txId}\nTracking confirmations: ${trackingUri}\n\n${checks.text}`,
                         },
                     ],
+                    structuredContent: {
+                        txId,
+                        explorerUrl: `${explorerUrl}${txId}`,
+                        trackingUri,
+                        preflight: summarizePreflight(checks.report),
+                    },
                 };
             } catch (error: any) {
                 return {
@@ -223,26 +1158,91 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                     isError: true,
                 };
             }
-        }
+        })
+    );
+
+    // Tool: track-transaction
+    server.registerTool(
+        "track-transaction",
+        {
+            description: "Watch a Bitcoin txid or MIDL EVM transaction hash until it reaches a confirmation depth. Status is served at midl://tracked/{id}, and this session is notified when it changes, including when the transaction is dropped or replaced.",
+            inputSchema: {
+                id: z.string().regex(/^(0x)?[0-9a-fA-F]{64}$/).describe("Bitcoin txid, or 0x-prefixed MIDL EVM transaction hash"),
+                confirmations: z.number().int().positive().optional().describe("Confirmations to wait for (defaults to MIDL_TRACK_CONFIRMATIONS)"),
+                anchorTxId: z.string().regex(/^[0-9a-fA-F]{64}$/).optional().describe("Bitcoin transaction anchoring an EVM transaction, tracked alongside it"),
+                label: z.string().optional().describe("Name shown in the tracked resources list"),
+            },
+            outputSchema: {
+                uri: z.string(),
+                id: z.string(),
+                kind: z.enum(["btc", "evm"]),
+                status: z.enum(["pending", "confirming", "confirmed", "failed", "dropped", "replaced"]),
+                confirmations: z.number(),
+                targetConfirmations: z.number(),
+            },
+        },
+        audited("track-transaction", async ({ id, confirmations, anchorTxId, label }) => {
+            try {
+                const uri = id.startsWith("0x")
+                    ? trackEvmTransaction(id.toLowerCase() as `0x${string}`, { anchorTxId, confirmations, label })
+                    : trackBtcTransaction(id.toLowerCase(), { confirmations, label });
+                await midl.getTracker().poll();
+                const tx = midl.getTracker().get(id)!;
+
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: `Tracking ${tx.kind.toUpperCase()} transaction ${tx.id}: ${tx.status}, ${tx.confirmations}/${tx.targetConfirmations} confirmations.\n\n` +
+                                `Read or subscribe to ${uri} for updates.`,
+                        },
+                    ],
+                    structuredContent: {
+                        uri,
+                        id: tx.id,
+                        kind: tx.kind,
+                        status: tx.status,
+                        confirmations: tx.confirmations,
+                        targetConfirmations: tx.targetConfirmations,
+                    },
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: "text", text: `Error tracking transaction: ${error.message}` }],
+                    isError: true,
+                };
+            }
+        })
     );
 
     // Tool: prepare-contract-deploy
-    server.tool(
+    server.registerTool(
         "prepare-contract-deploy",
-        "Prepare a Bitcoin PSBT to anchor an EVM contract deployment on MIDL-L2",
         {
-            bytecode: z.string().describe("The compiled Solidity contract bytecode (hex)"),
-            args: z.array(z.any()).optional().describe("Constructor arguments"),
-            abi: z.array(z.any()).optional().describe("Contract ABI (required if args are provided)"),
-            feeRate: z.number().int().optional().describe("Bitcoin fee rate in sat/vB."),
+            description: "Prepare a Bitcoin PSBT to anchor an EVM contract deployment on MIDL-L2",
+            inputSchema: {
+                bytecode: z.string().describe("The compiled Solidity contract bytecode (hex)"),
+                args: z.array(z.any()).optional().describe("Constructor arguments"),
+                abi: z.array(z.any()).optional().describe("Contract ABI (required if args are provided)"),
+                feeRate: z.number().int().optional().describe("Bitcoin fee rate in sat/vB."),
+            },
+            outputSchema: {
+                psbt: z.string().describe("Base64 encoded PSBT anchoring the deployment"),
+                btcTxId: z.string().optional(),
+                predictedContractAddress: z.string(),
+                deployerEvmAddress: z.string(),
+            },
         },
-        async ({ bytecode, args, abi, feeRate }) => {
+        audited("prepare-contract-deploy", async ({ bytecode, args, abi, feeRate }, _extra, audit) => {
             try {
+                const violation = policy.check({ recipients: [], ...(feeRate !== undefined ? { feeRate } : {}) });
+                if (violation) return policyViolationResponse(violation);
+
                 const { network } = config.getState();
                 const evmChain = getEVMFromBitcoinNetwork(network as any);
                 const publicClient = createPublicClient({
                     chain: evmChain as any,
-                    transport: http()
+                    transport: midl.getEvmTransport()
                 });
 
                 let data = bytecode as `0x${string}`;
@@ -268,6 +1268,9 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                     ...(feeRate ? { feeRate } : {})
                 });
 
+                const feeViolation = await checkAnchorFee(btcTx.tx?.hex);
+                if (feeViolation) return policyViolationResponse(feeViolation);
+
                 const evmAddress = getEVMAddress(getDefaultAccount(config) as any, network as any);
                 const nonce = await publicClient.getTransactionCount({ address: evmAddress as `0x${string}` });
                 const predictedAddress = getContractAddress({
@@ -275,6 +1278,18 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                     nonce: BigInt(nonce)
                 });
 
+                audit.psbt = btcTx.psbt;
+                audit.txId = btcTx.tx?.id;
+                audit.contractAddress = predictedAddress;
+                if (btcTx.tx?.id) {
+                    midl.getPendingIntentions().record(btcTx.tx.id, [{
+                        kind: "deploy",
+                        from: evmAddress,
+                        contractAddress: predictedAddress,
+                        dataBytes: (data.length - 2) / 2,
+                    }]);
+                }
+
                 return {
                     content: [
                         {
@@ -282,6 +1297,12 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                             text: `Contract deployment PSBT prepared successfully.\n\nPredicted Contract Address: ${predictedAddress}\nDeployer EVM Address: ${evmAddress}\n\nPSBT (Base64):\n${btcTx.psbt}\n\nThis transaction anchors a contract deployment on the MIDL EVM chain (${network.id}).\nPlease use 'request-psbt-signature' and then 'request-transaction-broadcast' to complete the deployment.`,
                         },
                     ],
+                    structuredContent: {
+                        psbt: btcTx.psbt,
+                        ...(btcTx.tx?.id ? { btcTxId: btcTx.tx.id } : {}),
+                        predictedContractAddress: predictedAddress,
+                        deployerEvmAddress: evmAddress,
+                    },
                 };
             } catch (error: any) {
                 return {
@@ -289,23 +1310,41 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                     isError: true,
                 };
             }
-        }
+        })
     );
 
     // Tool: call-contract
-    server.tool(
+    server.registerTool(
         "call-contract",
-        "Call a function on a deployed smart contract on MIDL-L2. Creates a Bitcoin transaction that anchors the EVM call.",
         {
-            contractAddress: z.string().describe("The EVM contract address (0x...)"),
-            abi: z.array(z.any()).describe("The contract ABI"),
-            functionName: z.string().describe("The function name to call"),
-            args: z.array(z.any()).optional().describe("Function arguments"),
-            value: z.number().int().optional().describe("Optional BTC value to send (satoshis)"),
-            feeRate: z.number().int().optional().describe("Bitcoin fee rate in sat/vB."),
+            description: "Call a function on a deployed smart contract on MIDL-L2. Creates a Bitcoin transaction that anchors the EVM call.",
+            inputSchema: {
+                contractAddress: z.string().describe("The EVM contract address (0x...)"),
+                abi: z.array(z.any()).describe("The contract ABI"),
+                functionName: z.string().describe("The function name to call"),
+                args: z.array(z.any()).optional().describe("Function arguments"),
+                value: z.number().int().optional().describe("Optional BTC value to send (satoshis)"),
+                feeRate: z.number().int().optional().describe("Bitcoin fee rate in sat/vB."),
+            },
+            outputSchema: {
+                contractAddress: z.string(),
+                functionName: z.string(),
+                btcTxId: z.string(),
+                evmTxHash: z.string(),
+                blockNumber: z.number().nullable().describe("EVM block number, or null if not yet confirmed"),
+                trackingUri: z.string().describe("midl://tracked/{hash} resource with the confirmation status"),
+                explorerUrl: z.string(),
+            },
         },
-        async ({ contractAddress, abi, functionName, args, value, feeRate }) => {
+        audited("call-contract", async ({ contractAddress, abi, functionName, args, value, feeRate }, _extra, audit) => {
             try {
+                const request = {
+                    recipients: value ? [{ address: contractAddress, amount: value }] : [],
+                    ...(feeRate !== undefined ? { feeRate } : {}),
+                };
+                const violation = policy.check(request);
+                if (violation) return policyViolationResponse(violation);
+
                 const { network } = config.getState();
                 const evmChain = getEVMFromBitcoinNetwork(network as any);
 
@@ -328,7 +1367,7 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                 // Create a wallet client for signing and sending
                 const walletClient = createWalletClient({
                     chain: evmChain as any,
-                    transport: http()
+                    transport: midl.getEvmTransport()
                 });
 
                 // 1. Finalize the BTC transaction
@@ -339,6 +1378,9 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                 const btcTxId = btcTx.tx?.id || "";
                 const btcTxHex = btcTx.tx?.hex || "";
 
+                const feeViolation = await checkAnchorFee(btcTxHex);
+                if (feeViolation) return policyViolationResponse(feeViolation);
+
                 // 2. Sign the EVM intention with the BTC txId
                 const signedEvmTx = await signIntention(
                     config,
@@ -352,28 +1394,41 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                 );
 
                 const evmTxHash = keccak256(signedEvmTx);
+                audit.txId = btcTxId;
+                audit.evmTxHash = evmTxHash;
+
+                // 3. Send both transactions to the MIDL network. Other calls may have used up the daily cap
+                // while this one was being finalized, so the spend is checked again and reserved first
+                const sendViolation = policy.check(request);
+                if (sendViolation) return policyViolationResponse(sendViolation);
+                const release = policy.recordSpend(value ?? 0);
+                try {
+                    await sendBTCTransactions(walletClient as any, {
+                        serializedTransactions: [signedEvmTx],
+                        btcTransaction: btcTxHex,
+                    });
+                } catch (error) {
+                    release();
+                    throw error;
+                }
 
-                // 3. Send both transactions to the MIDL network
-                await sendBTCTransactions(walletClient as any, {
-                    serializedTransactions: [signedEvmTx],
-                    btcTransaction: btcTxHex,
-                });
+                const trackingUri = trackEvmTransaction(evmTxHash, { anchorTxId: btcTxId, label: `${functionName}() on ${contractAddress}` });
 
                 // 4. Wait for confirmation
                 let receiptInfo = "";
+                let blockNumber: number | null = null;
                 try {
                     const receipt = await waitForTransactionReceipt(walletClient as any, {
                         hash: evmTxHash,
                         timeout: 60_000,
                     });
+                    blockNumber = Number(receipt.blockNumber);
                     receiptInfo = `\nConfirmed at block: ${receipt.blockNumber}`;
                 } catch (e) {
-                    receiptInfo = `\nNote: Transaction submitted, waiting for confirmation...`;
+                    receiptInfo = `\nNot confirmed within 60 seconds. Tracking continues at ${trackingUri}; subscribe to it for status notifications.`;
                 }
 
-                const blockscoutUrl = network.id === "regtest"
-                    ? `https://blockscout.regtest.midl.xyz/tx/${evmTxHash}`
-                    : `https://blockscout.midl.xyz/tx/${evmTxHash}`;
+                const blockscoutUrl = `${midl.getNetworkProfile().blockscoutUrl}/tx/${evmTxHash}`;
 
                 return {
                     content: [
@@ -382,6 +1437,15 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                             text: `✅ Contract call executed successfully!\n\nContract: ${contractAddress}\nFunction: ${functionName}\nBTC Transaction ID: ${btcTxId}\nEVM Transaction Hash: ${evmTxHash}${receiptInfo}\n\nView on Blockscout: ${blockscoutUrl}`,
                         },
                     ],
+                    structuredContent: {
+                        contractAddress,
+                        functionName,
+                        btcTxId,
+                        evmTxHash,
+                        blockNumber,
+                        trackingUri,
+                        explorerUrl: blockscoutUrl,
+                    },
                 };
             } catch (error: any) {
                 return {
@@ -389,119 +1453,74 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                     isError: true,
                 };
             }
-        }
+        })
     );
 
     // Tool: deploy-contract-source
-    server.tool(
+    server.registerTool(
         "deploy-contract-source",
-        "Compile Solidity source code and prepare a Bitcoin PSBT for deployment. AUTOMATICALLY resolves @openzeppelin/contracts imports from GitHub. No local node_modules required.",
         {
-            sourceCode: z.string().describe("The Solidity source code"),
-            contractName: z.string().optional().describe("The name of the contract to deploy. If omitted, the last contract defined in the code is used."),
-            args: z.array(z.any()).optional().describe("Constructor arguments"),
-            feeRate: z.number().int().optional().describe("Bitcoin fee rate in sat/vB."),
+            description: "Compile Solidity source code and prepare a Bitcoin PSBT for deployment. Resolves imports (e.g. @openzeppelin/contracts) from local node_modules or vendored directories, or fetches them at their pinned version. No local node_modules required.",
+            inputSchema: {
+                sourceCode: z.string().describe("The Solidity source code"),
+                contractName: z.string().optional().describe("The name of the contract to deploy. If omitted, the last contract defined in the code is used."),
+                args: z.array(z.any()).optional().describe("Constructor arguments"),
+                feeRate: z.number().int().optional().describe("Bitcoin fee rate in sat/vB."),
+            },
+            outputSchema: {
+                contractName: z.string(),
+                contractAddress: z.string(),
+                btcTxId: z.string(),
+                evmTxHash: z.string(),
+                blockNumber: z.number().nullable().describe("EVM block number, or null if not yet confirmed"),
+                trackingUri: z.string().describe("midl://tracked/{hash} resource with the confirmation status"),
+                verificationSubmitted: z.boolean(),
+                explorerUrl: z.string(),
+            },
         },
-        async ({ sourceCode, contractName, args, feeRate }) => {
+        audited("deploy-contract-source", async ({ sourceCode, contractName, args, feeRate }, _extra, audit) => {
             try {
-                // 1. Resolve Imports (Simple version, mainly for OpenZeppelin)
-                const sources: Record<string, { content: string }> = {
-                    "Contract.sol": { content: sourceCode }
-                };
-
-                const resolveImports = async (content: string) => {
-                    const importRegex = /import\s+["']([^"']+)["']/g;
-                    let match;
-                    while ((match = importRegex.exec(content)) !== null) {
-                        const importPath = match[1];
-                        if (importPath && !sources[importPath]) {
-                            let url = "";
-                            if (importPath.startsWith("@openzeppelin/")) {
-                                url = `https://raw.githubusercontent.com/OpenZeppelin/openzeppelin-contracts/master/${importPath.replace("@openzeppelin/", "")}`;
-                            } else {
-                                // Fallback or handle relative imports here if needed
-                                continue;
-                            }
-
-                            const res = await fetch(url);
-                            if (res.ok) {
-                                const importedSource = await res.text();
-                                sources[importPath] = { content: importedSource };
-                                await resolveImports(importedSource);
-                            }
-                        }
-                    }
-                };
-
-                await resolveImports(sourceCode);
+                const violation = policy.check({ recipients: [], ...(feeRate !== undefined ? { feeRate } : {}) });
+                if (violation) return policyViolationResponse(violation);
 
-                // 2. Compile with explicit settings for reproducibility
-                const input = {
-                    language: 'Solidity',
-                    sources,
-                    settings: {
-                        optimizer: {
-                            enabled: false,
-                            runs: 200
-                        },
-                        evmVersion: "cancun",  // Use latest stable EVM version
-                        outputSelection: {
-                            '*': {
-                                '*': ['abi', 'evm.bytecode', 'metadata']
-                            }
-                        }
-                    }
-                };
-
-                const output = JSON.parse(solc.compile(JSON.stringify(input)));
-
-                if (output.errors) {
-                    const errors = output.errors.filter((e: any) => e.severity === 'error');
-                    if (errors.length > 0) {
-                        return {
-                            content: [{ type: "text", text: `Compilation Error: ${errors[0].formattedMessage}` }],
-                            isError: true
-                        };
-                    }
+                // 1. Resolve imports from local packages, the cache or pinned library versions
+                const { sources, unresolved } = await midl.getImportResolver().resolve({ "Contract.sol": sourceCode });
+                if (unresolved.length > 0) {
+                    return {
+                        content: [{ type: "text", text: `Unresolved imports:\n${formatUnresolvedImports(unresolved)}` }],
+                        isError: true
+                    };
                 }
 
-                // Find the specific contract in the output
-                let contractArtifact: any = null;
-                let targetName = contractName;
+                // 2. Compile with the default settings Blockscout verification assumes
+                const compiled = compileSolidity(sources);
 
-                if (!targetName) {
-                    // Default to the last contract defined in the sources (heuristic for main contract)
-                    const fileContracts = Object.values(output.contracts)[0];
-                    if (fileContracts) {
-                        const names = Object.keys(fileContracts);
-                        targetName = names[names.length - 1];
-                    }
+                if (compiled.errors.length > 0) {
+                    return {
+                        content: [{ type: "text", text: `Compilation Error:\n${formatDiagnostics(compiled.errors)}` }],
+                        isError: true
+                    };
                 }
 
-                for (const fileName in output.contracts) {
-                    if (output.contracts[fileName][targetName!]) {
-                        contractArtifact = output.contracts[fileName][targetName!];
-                        break;
-                    }
-                }
+                // Find the specific contract, defaulting to the last one defined in the submitted source
+                const targetName = contractName ?? compiled.contracts.filter(c => c.file === "Contract.sol").at(-1)?.name;
+                const contractArtifact = compiled.contracts.find(c => c.name === targetName);
 
                 if (!contractArtifact) {
-                    const allContracts = Object.values(output.contracts).flatMap(f => Object.keys(f as any));
                     return {
-                        content: [{ type: "text", text: `Contract "${targetName || contractName}" not found. Available: ${allContracts.join(", ")}` }],
+                        content: [{ type: "text", text: `Contract "${targetName ?? contractName}" not found. Available: ${compiled.contracts.map(c => c.name).join(", ")}` }],
                         isError: true
                     };
                 }
 
-                const bytecode = contractArtifact.evm.bytecode.object;
-                const abi = contractArtifact.abi;
+                const { bytecode, abi } = contractArtifact;
 
                 // 3. Prepare PSBT (Reuse logic from prepare-contract-deploy)
                 const { network } = config.getState();
                 const evmChain = getEVMFromBitcoinNetwork(network as any);
                 const publicClient = createPublicClient({
                     chain: evmChain as any,
-                    transport: http()
+                    transport: midl.getEvmTransport()
                 });
 
                 let data = bytecode as `0x${string}`;
@@ -534,7 +1553,7 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                 // Create a wallet client for signing EVM transactions
                 const walletClient = createWalletClient({
                     chain: evmChain as any,
-                    transport: http()
+                    transport: midl.getEvmTransport()
                 });
 
                 // 1. Finalize the BTC transaction (signs the PSBT)
@@ -545,6 +1564,9 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                 const btcTxId = btcTx.tx?.id || "";
                 const btcTxHex = btcTx.tx?.hex || "";
 
+                const feeViolation = await checkAnchorFee(btcTxHex);
+                if (feeViolation) return policyViolationResponse(feeViolation);
+
                 // 2. Sign the EVM intention with the BTC txId (BIP322)
                 const signedEvmTx = await signIntention(
                     config,
@@ -558,6 +1580,8 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                 );
 
                 const evmTxHash = keccak256(signedEvmTx);
+                audit.txId = btcTxId;
+                audit.evmTxHash = evmTxHash;
 
                 // 3. Send both BTC tx and signed EVM tx to the MIDL network
                 await sendBTCTransactions(walletClient as any, {
@@ -565,35 +1589,39 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                     btcTransaction: btcTxHex,
                 });
 
+                const trackingUri = trackEvmTransaction(evmTxHash, { anchorTxId: btcTxId, label: `Deploy ${targetName}` });
+
                 // 4. Wait for EVM transaction receipt (optional, with timeout)
                 let receiptInfo = "";
+                let blockNumber: number | null = null;
                 try {
                     const receipt = await waitForTransactionReceipt(walletClient as any, {
                         hash: evmTxHash,
                         timeout: 60_000, // 60 second timeout
                     });
+                    blockNumber = Number(receipt.blockNumber);
                     receiptInfo = `\nContract deployed at block: ${receipt.blockNumber}`;
                 } catch (e) {
-                    receiptInfo = `\nNote: Transaction submitted, waiting for confirmation...`;
+                    receiptInfo = `\nNot confirmed within 60 seconds. Tracking continues at ${trackingUri}; subscribe to it for status notifications.`;
                 }
 
-                const blockscoutBaseUrl = network.id === "regtest"
-                    ? "https://blockscout.regtest.midl.xyz"
-                    : "https://blockscout.midl.xyz";
+                const blockscoutBaseUrl = midl.getNetworkProfile().blockscoutUrl;
                 const blockscoutUrl = `${blockscoutBaseUrl}/address/${predictedAddress}`;
+                audit.contractAddress = predictedAddress;
 
                 // 5. Auto-verify contract on Blockscout
                 let verificationInfo = "";
+                let verificationSubmitted = false;
                 try {
                     // Flatten source code for verification (combine all sources)
                     let flattenedSource = sourceCode;
                     for (const [path, source] of Object.entries(sources)) {
                         if (path !== "Contract.sol") {
-                            flattenedSource = `// File: ${path}\n${source.content}\n\n${flattenedSource}`;
+                            flattenedSource = `// File: ${path}\n${source}\n\n${flattenedSource}`;
                         }
                     }
 
-                    const compilerVersion = `v${solc.version().replace(".Emscripten.clang", "")}`;
+                    const compilerVersion = getCompilerVersion();
 
                     const verifyResponse = await fetch(
                         `${blockscoutBaseUrl}/api/v2/smart-contracts/${predictedAddress}/verification/via/flattened-code`,
@@ -603,10 +1631,10 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                             body: JSON.stringify({
                                 compiler_version: compilerVersion,
                                 source_code: flattenedSource,
-                                is_optimization_enabled: false,
-                                optimization_runs: 200,
+                                is_optimization_enabled: compiled.settings.optimizer,
+                                optimization_runs: compiled.settings.runs,
                                 contract_name: targetName,
-                                evm_version: "cancun",
+                                evm_version: compiled.settings.evmVersion,
                                 autodetect_constructor_args: true,
                                 license_type: "mit"
                             })
@@ -614,6 +1642,7 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                     );
 
                     if (verifyResponse.ok) {
+                        verificationSubmitted = true;
                         verificationInfo = "\n✅ Contract verification submitted to Blockscout";
                     } else {
                         const errorText = await verifyResponse.text();
@@ -630,6 +1659,16 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                             text: `✅ Contract deployed successfully!\n\nContract Name: ${targetName}\nContract Address: ${predictedAddress}\nBTC Transaction ID: ${btcTxId}\nEVM Transaction Hash: ${evmTxHash}${receiptInfo}${verificationInfo}\n\nView on Blockscout: ${blockscoutUrl}\nView BTC tx: ${network.explorerUrl || ""}${btcTxId}`,
                         },
                     ],
+                    structuredContent: {
+                        contractName: contractArtifact.name,
+                        contractAddress: predictedAddress,
+                        btcTxId,
+                        evmTxHash,
+                        blockNumber,
+                        trackingUri,
+                        verificationSubmitted,
+                        explorerUrl: blockscoutUrl,
+                    },
                 };
 
             } catch (error: any) {
@@ -638,69 +1677,53 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                     isError: true,
                 };
             }
-        }
+        })
     );
 
     // Tool: verify-contract
-    server.tool(
+    server.registerTool(
         "verify-contract",
-        "Verify a deployed smart contract on Blockscout. Submit the source code to enable contract interaction via the explorer.",
         {
-            contractAddress: z.string().describe("The deployed contract address (0x...)"),
-            sourceCode: z.string().describe("The Solidity source code"),
-            contractName: z.string().describe("The contract name as it appears in the source"),
-            compilerVersion: z.string().optional().describe("Compiler version (e.g., 'v0.8.28+commit.7893614a'). If omitted, uses solc bundled version."),
-            optimizationEnabled: z.boolean().optional().describe("Whether optimization was enabled during compilation"),
-            optimizationRuns: z.number().int().optional().describe("Number of optimization runs (default: 200)"),
-            constructorArgs: z.string().optional().describe("ABI-encoded constructor arguments (hex string without 0x prefix)"),
-            licenseType: z.string().optional().describe("License type: none, unlicense, mit, gnu_gpl_v2, gnu_gpl_v3, apache_2_0, etc."),
+            description: "Verify a deployed smart contract on Blockscout. Submit the source code to enable contract interaction via the explorer.",
+            inputSchema: {
+                contractAddress: z.string().describe("The deployed contract address (0x...)"),
+                sourceCode: z.string().describe("The Solidity source code"),
+                contractName: z.string().describe("The contract name as it appears in the source"),
+                compilerVersion: z.string().optional().describe("Compiler version (e.g., 'v0.8.28+commit.7893614a'). If omitted, uses solc bundled version."),
+                optimizationEnabled: z.boolean().optional().describe("Whether optimization was enabled during compilation"),
+                optimizationRuns: z.number().int().optional().describe("Number of optimization runs (default: 200)"),
+                constructorArgs: z.string().optional().describe("ABI-encoded constructor arguments (hex string without 0x prefix)"),
+                licenseType: z.string().optional().describe("License type: none, unlicense, mit, gnu_gpl_v2, gnu_gpl_v3, apache_2_0, etc."),
+            },
+            outputSchema: {
+                contractAddress: z.string(),
+                contractName: z.string(),
+                compilerVersion: z.string(),
+                explorerUrl: z.string(),
+            },
         },
         async ({ contractAddress, sourceCode, contractName, compilerVersion, optimizationEnabled, optimizationRuns, constructorArgs, licenseType }) => {
             try {
-                const { network } = config.getState();
-                const blockscoutBaseUrl = network.id === "regtest"
-                    ? "https://blockscout.regtest.midl.xyz"
-                    : "https://blockscout.midl.xyz";
+                const blockscoutBaseUrl = midl.getNetworkProfile().blockscoutUrl;
 
                 // Resolve imports for flattening
-                const sources: Record<string, { content: string }> = {
-                    "Contract.sol": { content: sourceCode }
-                };
-
-                const resolveImports = async (content: string) => {
-                    const importRegex = /import\s+["']([^"']+)["']/g;
-                    let match;
-                    while ((match = importRegex.exec(content)) !== null) {
-                        const importPath = match[1];
-                        if (importPath && !sources[importPath]) {
-                            let url = "";
-                            if (importPath.startsWith("@openzeppelin/")) {
-                                url = `https://raw.githubusercontent.com/OpenZeppelin/openzeppelin-contracts/master/${importPath.replace("@openzeppelin/", "")}`;
-                            } else {
-                                continue;
-                            }
-
-                            const res = await fetch(url);
-                            if (res.ok) {
-                                const importedSource = await res.text();
-                                sources[importPath] = { content: importedSource };
-                                await resolveImports(importedSource);
-                            }
-                        }
-                    }
-                };
-
-                await resolveImports(sourceCode);
+                const { sources, unresolved } = await midl.getImportResolver().resolve({ "Contract.sol": sourceCode });
+                if (unresolved.length > 0) {
+                    return {
+                        content: [{ type: "text", text: `Unresolved imports:\n${formatUnresolvedImports(unresolved)}` }],
+                        isError: true,
+                    };
+                }
 
                 // Flatten source code
                 let flattenedSource = sourceCode;
                 for (const [path, source] of Object.entries(sources)) {
                     if (path !== "Contract.sol") {
-                        flattenedSource = `// File: ${path}\n${source.content}\n\n${flattenedSource}`;
+                        flattenedSource = `// File: ${path}\n${source}\n\n${flattenedSource}`;
                     }
                 }
 
-                const version = compilerVersion || `v${solc.version().replace(".Emscripten.clang", "")}`;
+                const version = compilerVersion || getCompilerVersion();
 
                 const verifyBody: Record<string, any> = {
                     compiler_version: version,
@@ -736,6 +1759,12 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
                                 text: `✅ Contract verified successfully!\n\nContract: ${contractAddress}\nName: ${contractName}\nCompiler: ${version}\n\nView verified contract: ${blockscoutBaseUrl}/address/${contractAddress}?tab=contract`,
                             },
                         ],
+                        structuredContent: {
+                            contractAddress,
+                            contractName,
+                            compilerVersion: version,
+                            explorerUrl: `${blockscoutBaseUrl}/address/${contractAddress}?tab=contract`,
+                        },
                     };
                 } else {
                     const errorText = await response.text();
@@ -752,4 +1781,101 @@ export function registerActionableTools(server: McpServer, midl: MidlConfigWrapp
             }
         }
     );
+
+    // Tool: select-account
+    server.registerTool(
+        "select-account",
+        {
+            description: "Switch the active sub-account used by all tools for balances, PSBTs and signatures",
+            inputSchema: {
+                index: z.number().int().nonnegative().describe("Account index (see 'list-accounts')"),
+            },
+            outputSchema: {
+                activeIndex: z.number(),
+                accounts: z.array(z.object({
+                    purpose: z.string(),
+                    addressType: z.string(),
+                    address: z.string(),
+                })),
+            },
+        },
+        audited("select-account", async ({ index }) => {
+            let accounts;
+            try {
+                accounts = midl.getAccountManager().select(index);
+            } catch (error: any) {
+                return {
+                    content: [{ type: "text", text: `Error: ${error.message}` }],
+                    isError: true,
+                };
+            }
+
+            const summary = accounts.map(a => ({ purpose: a.purpose, addressType: a.addressType, address: a.address }));
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Active account is now #${index}:\n\n` +
+                            summary.map(a => `- ${a.purpose} (${a.addressType}): ${a.address}`).join("\n"),
+                    },
+                ],
+                structuredContent: {
+                    activeIndex: index,
+                    accounts: summary,
+                },
+            };
+        })
+    );
+
+    // Tool: switch-network
+    server.registerTool(
+        "switch-network",
+        {
+            description: "Switch to another named network profile (e.g. regtest, testnet4) without restarting. Re-derives all accounts for the new network.",
+            inputSchema: {
+                network: z.string().describe("Network profile name (built-in: regtest, testnet, testnet4, signet, or one from MIDL_NETWORKS_FILE)"),
+            },
+            outputSchema: {
+                name: z.string(),
+                id: z.string(),
+                network: z.string(),
+                mempoolUrl: z.string(),
+                evmRpcUrl: z.string().optional(),
+                blockscoutUrl: z.string(),
+                explorerUrl: z.string(),
+                accounts: z.array(z.object({
+                    purpose: z.string(),
+                    addressType: z.string(),
+                    address: z.string(),
+                })),
+            },
+        },
+        audited("switch-network", async ({ network }) => {
+            let profile;
+            try {
+                profile = await midl.switchNetwork(network);
+            } catch (error: any) {
+                return {
+                    content: [{ type: "text", text: `Error switching network: ${error.message}` }],
+                    isError: true,
+                };
+            }
+
+            const accounts = (config.getState().accounts || []).map(a => ({ purpose: a.purpose, addressType: a.addressType, address: a.address }));
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Switched to network profile "${profile.name}" (${profile.id}).\n\n` +
+                            `Mempool: ${profile.mempoolUrl}\nBlockscout: ${profile.blockscoutUrl}\nEVM RPC: ${profile.evmRpcUrl || "default"}\n\n` +
+                            `Active accounts:\n` + accounts.map(a => `- ${a.purpose} (${a.addressType}): ${a.address}`).join("\n"),
+                    },
+                ],
+                structuredContent: {
+                    ...profile,
+                    accounts,
+                },
+            };
+        })
+    );
 }
@@ -2,9 +2,34 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getFeeRate, getUTXOs, getDefaultAccount, getBalance } from "@midl/core";
 import coinSelect from "bitcoinselect";
-import { Psbt, networks } from "bitcoinjs-lib";
+import { Psbt } from "bitcoinjs-lib";
 import { MidlConfigWrapper } from "../config/midl-config.js";
 import { satoshisToBtc, formatBalance } from "../utils/formatters.js";
+import { getBitcoinNetwork } from "../utils/bitcoin.js";
+import { inspectPsbt } from "../utils/psbt.js";
+import { assertValidRecipients, validateAddress } from "../utils/address.js";
+import { fetchAddressHistory } from "../utils/history.js";
+import { SELECTION_STRATEGIES, hasCoinControl, selectCoins } from "../utils/coin-control.js";
+import { getAccountInputVsize } from "../utils/inputs.js";
+import { analyzeUtxos, formatUtxoAnalysis } from "../utils/utxo-analysis.js";
+import { classifyAssetUtxos, describeAssets, getProtectedOutpoints } from "../utils/assets.js";
+import { formatTransactionDetails, getTransactionDetails } from "../utils/transaction.js";
+import { compileSolidity, formatDiagnostics } from "../utils/solidity.js";
+import { formatUnresolvedImports } from "../config/import-resolver.js";
+
+const compilerDiagnosticsSchema = z.array(z.object({
+    severity: z.enum(["error", "warning", "info"]),
+    type: z.string(),
+    message: z.string(),
+    formattedMessage: z.string(),
+    location: z.object({
+        file: z.string(),
+        start: z.number(),
+        end: z.number(),
+        line: z.number().optional(),
+        column: z.number().optional(),
+    }).optional(),
+}));
 
 /**
  * Registers analytical tools on the McpServer.
@@ -13,11 +38,18 @@ export function registerTools(server: McpServer, midl: MidlConfigWrapper) {
     const config = midl.getConfig();
 
     // Tool: get-wallet-balance
-    server.tool(
+    server.registerTool(
         "get-wallet-balance",
-        "Get the Bitcoin balance of an address (defaults to the connected account)",
         {
-            address: z.string().optional().describe("Bitcoin address. If omitted, uses the connected account."),
+            description: "Get the Bitcoin balance of an address (defaults to the connected account)",
+            inputSchema: {
+                address: z.string().optional().describe("Bitcoin address. If omitted, uses the connected account."),
+            },
+            outputSchema: {
+                address: z.string(),
+                balanceSats: z.number(),
+                balanceBtc: z.string(),
+            },
         },
         async ({ address }) => {
             const targetAddress = address || getDefaultAccount(config)?.address;
@@ -38,6 +70,11 @@ export function registerTools(server: McpServer, midl: MidlConfigWrapper) {
                             text: `Balance for ${targetAddress}: ${formatBalance(balanceSats)}`,
                         },
                     ],
+                    structuredContent: {
+                        address: targetAddress,
+                        balanceSats,
+                        balanceBtc: satoshisToBtc(balanceSats),
+                    },
                 };
             } catch (error: any) {
                 return {
@@ -49,18 +86,34 @@ export function registerTools(server: McpServer, midl: MidlConfigWrapper) {
     );
 
     // Tool: estimate-btc-transfer-fee
-    server.tool(
+    server.registerTool(
         "estimate-btc-transfer-fee",
-        "Estimate the fee for a Bitcoin transfer",
         {
-            recipients: z.array(z.object({
-                address: z.string().describe("Recipient Bitcoin address"),
-                amount: z.number().int().positive().describe("Amount in satoshis"),
-            })),
-            feeRate: z.number().int().optional().describe("Fee rate in sat/vB. If omitted, uses current network recommended fee."),
-            from: z.string().optional().describe("Source address to spend from. If omitted, uses default account."),
+            description: "Estimate the fee for a Bitcoin transfer. Accepts the same coin control options as 'prepare-btc-transfer'.",
+            inputSchema: {
+                recipients: z.array(z.object({
+                    address: z.string().describe("Recipient Bitcoin address"),
+                    amount: z.number().int().positive().optional().describe("Amount in satoshis. Omit for the recipient of a sendMax transfer."),
+                })),
+                feeRate: z.number().int().optional().describe("Fee rate in sat/vB. If omitted, uses current network recommended fee."),
+                from: z.string().optional().describe("Source address to spend from. If omitted, uses default account."),
+                include: z.array(z.string()).optional().describe("Outpoints (txid:vout) that must be spent"),
+                exclude: z.array(z.string()).optional().describe("Outpoints (txid:vout) that must not be spent"),
+                strategy: z.enum(SELECTION_STRATEGIES).optional().describe("UTXO selection strategy (default: largest-first)"),
+                changeAddress: z.string().optional().describe("Address receiving the change. Defaults to the source address."),
+                sendMax: z.boolean().optional().describe("Send everything left after fees (and other recipients) to the recipient without an amount"),
+                allowAssetUtxos: z.boolean().optional().describe("Allow spending UTXOs that carry runes or inscriptions (excluded by default)"),
+            },
+            outputSchema: {
+                fee: z.number().describe("Estimated fee in satoshis"),
+                feeRate: z.number().describe("Fee rate in sat/vB"),
+                inputCount: z.number(),
+                outputCount: z.number(),
+                inputs: z.array(z.string()).optional().describe("Outpoints selected, when coin control was used"),
+                maxAmount: z.number().optional().describe("Amount the sendMax recipient would receive"),
+            },
         },
-        async ({ recipients, feeRate, from }) => {
+        async ({ recipients, feeRate, from, allowAssetUtxos, ...coinControl }) => {
             const state = config.getState();
             const account = from
                 ? state.accounts?.find(a => a.address === from)
@@ -73,9 +126,78 @@ export function registerTools(server: McpServer, midl: MidlConfigWrapper) {
                 };
             }
 
+            try {
+                assertValidRecipients(recipients, getBitcoinNetwork(config), midl.getNetworkName());
+                if (coinControl.changeAddress) {
+                    const validation = validateAddress(coinControl.changeAddress, getBitcoinNetwork(config), midl.getNetworkName());
+                    if (!validation.valid) throw new Error(`Invalid change address: ${validation.error}`);
+                }
+                if (!hasCoinControl(coinControl) && recipients.some(r => r.amount === undefined)) {
+                    throw new Error("Every recipient needs an amount unless sendMax is set.");
+                }
+            } catch (error: any) {
+                return {
+                    content: [{ type: "text", text: `Error: ${error.message}` }],
+                    isError: true,
+                };
+            }
+
             const currentFeeRate = feeRate || (await getFeeRate(config)).hourFee;
             const utxos = await getUTXOs(config, account.address);
-            const targets = recipients.map(r => ({ address: r.address, value: r.amount }));
+
+            let assets: { exclude: string[] };
+            try {
+                assets = allowAssetUtxos
+                    ? { exclude: [] }
+                    : await getProtectedOutpoints(config, account.address, { ordUrl: midl.getNetworkProfile().ordUrl, include: coinControl.include });
+            } catch (error: any) {
+                return {
+                    content: [{ type: "text", text: `Error: ${error.message}` }],
+                    isError: true,
+                };
+            }
+
+            if (hasCoinControl(coinControl) || assets.exclude.length > 0) {
+                try {
+                    const selection = selectCoins(utxos, recipients, {
+                        ...coinControl,
+                        exclude: [...(coinControl.exclude ?? []), ...assets.exclude],
+                        feeRate: currentFeeRate,
+                        inputVsize: getAccountInputVsize(account),
+                        changeAddress: coinControl.changeAddress ?? account.address,
+                        network: getBitcoinNetwork(config),
+                    });
+                    const inputs = selection.inputs.map(u => `${u.txid}:${u.vout}`);
+                    const maxAmount = coinControl.sendMax ? selection.outputs[recipients.findIndex(r => r.amount === undefined)]!.value : undefined;
+
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: `Estimated Fee: ${selection.fee} satoshis (${satoshisToBtc(selection.fee)} BTC)\nFee Rate: ${currentFeeRate} sat/vB\n` +
+                                    `Inputs: ${selection.inputs.length} (${selection.strategy}): ${inputs.join(", ")}\nOutputs: ${selection.outputs.length}` +
+                                    `${maxAmount !== undefined ? `\nMaximum amount: ${maxAmount} satoshis (${satoshisToBtc(maxAmount)} BTC)` : ""}` +
+                                    `${assets.exclude.length > 0 ? `\nExcluded ${assets.exclude.length} rune/inscription UTXO(s)` : ""}`,
+                            },
+                        ],
+                        structuredContent: {
+                            fee: selection.fee,
+                            feeRate: currentFeeRate,
+                            inputCount: selection.inputs.length,
+                            outputCount: selection.outputs.length,
+                            inputs,
+                            ...(maxAmount !== undefined ? { maxAmount } : {}),
+                        },
+                    };
+                } catch (error: any) {
+                    return {
+                        content: [{ type: "text", text: `Error: ${error.message}` }],
+                        isError: true,
+                    };
+                }
+            }
+
+            const targets = recipients.map(r => ({ address: r.address, value: r.amount! }));
 
             const selected = coinSelect(utxos, targets, currentFeeRate);
 
@@ -93,46 +215,150 @@ export function registerTools(server: McpServer, midl: MidlConfigWrapper) {
                         text: `Estimated Fee: ${selected.fee} satoshis (${satoshisToBtc(selected.fee)} BTC)\nFee Rate: ${currentFeeRate} sat/vB\nInputs: ${selected.inputs.length}\nOutputs: ${selected.outputs.length}`,
                     },
                 ],
+                structuredContent: {
+                    fee: selected.fee,
+                    feeRate: currentFeeRate,
+                    inputCount: selected.inputs.length,
+                    outputCount: selected.outputs.length,
+                },
             };
         }
     );
 
+    // Tool: analyze-utxos
+    server.registerTool(
+        "analyze-utxos",
+        {
+            description: "Analyze UTXO fragmentation for a connected account: count, size distribution, dust that costs more to spend than it holds at the current fee rate, and the cost to spend everything. Use 'prepare-consolidation' to merge UTXOs when fees are low.",
+            inputSchema: {
+                address: z.string().optional().describe("Connected account address. If omitted, uses the default account."),
+                feeRate: z.number().positive().optional().describe("Fee rate in sat/vB. If omitted, uses the current hour fee rate."),
+            },
+            outputSchema: {
+                address: z.string(),
+                count: z.number(),
+                total: z.number().describe("Total value in satoshis"),
+                unconfirmed: z.number(),
+                feeRate: z.number(),
+                spendCost: z.number().describe("Fee to spend one input in satoshis"),
+                dust: z.object({ count: z.number(), value: z.number() }),
+                costToSpendAll: z.number().describe("Fee to spend every UTXO in one transaction"),
+                smallest: z.number().nullable(),
+                largest: z.number().nullable(),
+                median: z.number().nullable(),
+                distribution: z.array(z.object({ label: z.string(), count: z.number(), value: z.number() })),
+            },
+        },
+        async ({ address, feeRate }) => {
+            const account = address
+                ? config.getState().accounts?.find(a => a.address === address)
+                : getDefaultAccount(config);
+
+            if (!account) {
+                return {
+                    content: [{ type: "text", text: "Error: No account found for the specified address." }],
+                    isError: true,
+                };
+            }
+
+            try {
+                const rate = feeRate ?? (await getFeeRate(config)).hourFee;
+                const analysis = analyzeUtxos(await getUTXOs(config, account.address), rate, getAccountInputVsize(account));
+                return {
+                    content: [{ type: "text", text: formatUtxoAnalysis(account.address, analysis) }],
+                    structuredContent: { address: account.address, ...analysis },
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: "text", text: `Error analyzing UTXOs: ${error.message}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
     // Tool: decode-psbt
-    server.tool(
+    server.registerTool(
         "decode-psbt",
-        "Decode a base64 encoded PSBT into human-readable format",
         {
-            psbt: z.string().describe("Base64 encoded PSBT string"),
+            description: "Decode a base64 encoded PSBT: input values, fee and fee rate, size, change detection, script types, signing status, sighash types and OP_RETURN data. Warns when it spends rune or inscription UTXOs of a connected account or saved multisig wallet.",
+            inputSchema: {
+                psbt: z.string().describe("Base64 encoded PSBT string"),
+            },
+            outputSchema: {
+                txId: z.string().describe("Transaction ID (may change when non-segwit inputs are signed)"),
+                version: z.number(),
+                locktime: z.number(),
+                inputs: z.array(z.object({
+                    index: z.number(),
+                    txid: z.string(),
+                    vout: z.number(),
+                    sequence: z.number().optional(),
+                    value: z.number().nullable().describe("Input value in satoshis, or null without UTXO data"),
+                    address: z.string().optional(),
+                    scriptType: z.string().optional(),
+                    owned: z.boolean().describe("Spends from a connected account or saved multisig wallet"),
+                    signatures: z.number(),
+                    requiredSignatures: z.number().describe("Multisig threshold, or 1 for single-key inputs"),
+                    finalized: z.boolean(),
+                    sighashType: z.string().optional(),
+                })),
+                outputs: z.array(z.object({
+                    index: z.number(),
+                    value: z.number(),
+                    address: z.string().optional(),
+                    scriptType: z.string(),
+                    owned: z.boolean().describe("Pays a connected account or saved multisig wallet (change)"),
+                    opReturn: z.object({
+                        hex: z.string(),
+                        utf8: z.string().optional(),
+                    }).optional(),
+                })),
+                inputTotal: z.number().nullable(),
+                outputTotal: z.number(),
+                fee: z.number().nullable().describe("Fee in satoshis, or null when an input value is unknown"),
+                feeRate: z.number().nullable().describe("Effective fee rate in sat/vB"),
+                vsize: z.number(),
+                vsizeExact: z.boolean().describe("False when vsize is estimated for unsigned inputs"),
+                fullySigned: z.boolean(),
+                fullyFinalized: z.boolean(),
+                assetWarnings: z.array(z.object({
+                    index: z.number(),
+                    outpoint: z.string(),
+                    assets: z.string().describe("Runes and inscriptions the input carries"),
+                })).describe("Owned inputs carrying runes or inscriptions, which this transaction would move or burn"),
+            },
         },
         async ({ psbt: psbtBase64 }) => {
             try {
-                const state = config.getState();
-                const network = networks[state.network.network as keyof typeof networks] || networks.testnet;
+                const network = getBitcoinNetwork(config);
                 const psbt = Psbt.fromBase64(psbtBase64, { network });
+                const data = inspectPsbt(psbt, network, midl.getOwnAddresses());
 
-                const data = {
-                    txId: psbt.extractTransaction().getId(),
-                    locktime: psbt.locktime,
-                    inputs: psbt.txInputs.map((input: any, i: number) => ({
-                        index: i,
-                        hash: input.hash.toString("hex"),
-                        vout: input.index,
-                        sequence: input.sequence,
-                    })),
-                    outputs: psbt.txOutputs.map((output: any, i: number) => ({
-                        index: i,
-                        address: output.address,
-                        value: Number(output.value),
-                    })),
-                };
+                // Only the user's own inputs are checked against the asset indexers
+                const assetWarnings: { index: number; outpoint: string; assets: string }[] = [];
+                const indexerWarnings: string[] = [];
+                for (const address of new Set(data.inputs.filter(i => i.owned).map(i => i.address!))) {
+                    const { assets, warnings } = await classifyAssetUtxos(config, address, { ordUrl: midl.getNetworkProfile().ordUrl });
+                    indexerWarnings.push(...warnings);
+                    for (const input of data.inputs.filter(i => i.address === address)) {
+                        const held = assets.get(`${input.txid}:${input.vout}`);
+                        if (held) assetWarnings.push({ index: input.index, outpoint: `${input.txid}:${input.vout}`, assets: describeAssets(held) });
+                    }
+                }
+                const warningText = [
+                    ...assetWarnings.map(w => `⚠️ Input #${w.index} (${w.outpoint}) carries ${w.assets}. Spending it as plain BTC can burn these assets.`),
+                    ...indexerWarnings.map(w => `⚠️ ${w}`),
+                ].join("\n");
 
                 return {
                     content: [
                         {
                             type: "text",
-                            text: JSON.stringify(data, null, 2),
+                            text: `${warningText ? `${warningText}\n\n` : ""}${JSON.stringify(data, null, 2)}`,
                         },
                     ],
+                    structuredContent: { ...data, assetWarnings },
                 };
             } catch (error: any) {
                 return {
@@ -144,76 +370,118 @@ export function registerTools(server: McpServer, midl: MidlConfigWrapper) {
     );
 
     // Tool: validate-bitcoin-address
-    server.tool(
+    server.registerTool(
         "validate-bitcoin-address",
-        "Validate a Bitcoin address for the current network",
         {
-            address: z.string().describe("Bitcoin address to validate"),
+            description: "Validate a Bitcoin address for the current network: decodes it, reports its type (P2PKH, P2SH, P2WPKH, P2WSH, P2TR) and whether it belongs to a connected account",
+            inputSchema: {
+                address: z.string().describe("Bitcoin address to validate"),
+            },
+            outputSchema: {
+                address: z.string(),
+                network: z.string(),
+                valid: z.boolean(),
+                type: z.string().describe("Script type, e.g. p2wpkh"),
+                scriptPubKey: z.string(),
+                owned: z.boolean().describe("Whether a connected account or saved multisig wallet owns the address"),
+                owner: z.string().optional().describe("Owning account purpose or multisig wallet name"),
+            },
         },
         async ({ address }) => {
-            const state = config.getState();
-            const networkName = state.network.network;
-            const network = networks[networkName as keyof typeof networks] || networks.testnet;
-
-            // Simple validation attempt by trying to decode it
-            try {
-                // In a real implementation we'd use bitcoinjs-lib's address.toOutputScript
-                // but for now we'll just check if it's a string and do a basic format check
-                // matched to the network.
-                const isValid = address.length > 25; // Simple heuristic
+            const networkName = midl.getNetworkName();
+            const validation = validateAddress(address.trim(), getBitcoinNetwork(config), networkName);
+            if (!validation.valid) {
                 return {
-                    content: [
-                        {
-                            type: "text",
-                            text: `Address: ${address}\nNetwork: ${networkName}\nValid: ${isValid ? "Likely Valid" : "Invalid"}`,
-                        },
-                    ],
-                };
-            } catch (e) {
-                return {
-                    content: [{ type: "text", text: `Invalid address for ${networkName}` }],
+                    content: [{ type: "text", text: `Invalid address: ${validation.error}` }],
                     isError: true,
                 };
             }
+
+            const account = (config.getState().accounts || []).find(a => a.address === validation.address);
+            const multisig = midl.getMultisigStore().findByAddress(validation.address);
+            const owner = account ? `${account.purpose} account` : multisig ? `multisig wallet "${multisig.name}"` : undefined;
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Address: ${validation.address}\nNetwork: ${networkName}\nValid: Yes\nType: ${validation.type!.toUpperCase()}\n` +
+                            `Owned: ${owner ? `Yes (${owner})` : "No"}`,
+                    },
+                ],
+                structuredContent: {
+                    address: validation.address,
+                    network: networkName,
+                    valid: true,
+                    type: validation.type!,
+                    scriptPubKey: validation.scriptPubKey!,
+                    owned: owner !== undefined,
+                    ...(owner ? { owner } : {}),
+                },
+            };
         }
     );
 
     // Tool: get-address-transactions
-    server.tool(
+    server.registerTool(
         "get-address-transactions",
-        "Get the transaction history for a Bitcoin address",
         {
-            address: z.string().describe("Bitcoin address"),
-            limit: z.number().int().optional().default(10).describe("Number of transactions to fetch (default 10)"),
+            description: "Get the transaction history of a Bitcoin address on the active network, with what the address received, sent and paid in fees per transaction. Pages through older history with afterTxid.",
+            inputSchema: {
+                address: z.string().describe("Bitcoin address"),
+                limit: z.number().int().positive().max(200).optional().default(10).describe("Number of transactions to return (default 10)"),
+                direction: z.enum(["incoming", "outgoing", "all"]).optional().describe("Only transactions that paid the address (incoming) or spent from it (outgoing). Default: all"),
+                status: z.enum(["confirmed", "unconfirmed", "all"]).optional().describe("Filter by confirmation status. Default: all"),
+                afterTxid: z.string().optional().describe("Continue after this txid (nextAfterTxid from a previous call)"),
+            },
+            outputSchema: {
+                address: z.string(),
+                transactions: z.array(z.object({
+                    txid: z.string(),
+                    direction: z.enum(["incoming", "outgoing", "self"]),
+                    received: z.number().describe("Sats paid to the address"),
+                    sent: z.number().describe("Sats spent from the address"),
+                    net: z.number().describe("Net change of the address balance in sats (fee included)"),
+                    fee: z.number().describe("Transaction fee in sats"),
+                    confirmed: z.boolean(),
+                    blockHeight: z.number().optional(),
+                    blockTime: z.number().optional(),
+                })),
+                nextAfterTxid: z.string().optional().describe("Pass as afterTxid to fetch older transactions"),
+            },
         },
-        async ({ address, limit }) => {
+        async ({ address, limit, direction, status, afterTxid }) => {
             try {
-                const state = config.getState();
-                const network = state.network;
-                const rpcUrl = process.env.MIDL_RPC_URL || "https://mempool.regtest.midl.xyz";
-                const url = `${rpcUrl}/api/address/${address}/txs`;
-
-                const res = await fetch(url);
-                if (!res.ok) throw new Error(`Failed to fetch transactions: ${res.statusText}`);
+                const validation = validateAddress(address.trim(), getBitcoinNetwork(config), midl.getNetworkName());
+                if (!validation.valid) throw new Error(validation.error);
 
-                const txs = (await res.json()).slice(0, limit);
+                const history = await fetchAddressHistory(`${midl.getNetworkProfile().mempoolUrl}/api`, validation.address, {
+                    limit,
+                    ...(direction ? { direction } : {}),
+                    ...(status ? { status } : {}),
+                    ...(afterTxid ? { afterTxid } : {}),
+                });
 
-                const formattedTxs = txs.map((tx: any) => ({
-                    txid: tx.txid,
-                    version: tx.version,
-                    value: tx.vout.reduce((acc: number, v: any) => acc + v.value, 0),
-                    status: tx.status.confirmed ? "Confirmed" : "Unconfirmed",
-                    block_height: tx.status.block_height,
-                }));
+                const lines = history.transactions.map(tx =>
+                    `- ${tx.txid} (${tx.direction})\n  Net: ${tx.net >= 0 ? "+" : ""}${satoshisToBtc(tx.net)} BTC` +
+                    ` (received ${tx.received} sats, sent ${tx.sent} sats, fee ${tx.fee} sats)\n` +
+                    `  Status: ${tx.confirmed ? `Confirmed (Block ${tx.blockHeight})` : "Unconfirmed"}`
+                );
 
                 return {
                     content: [
                         {
                             type: "text",
-                            text: `Recent Transactions for ${address}:\n\n` +
-                                formattedTxs.map((tx: any) => `- ID: ${tx.txid}\n  Value: ${satoshisToBtc(tx.value)} BTC\n  Status: ${tx.status} (Block ${tx.block_height || "N/A"})`).join("\n\n"),
+                            text: `Transactions for ${validation.address}:\n\n` +
+                                (lines.length > 0 ? lines.join("\n\n") : "No matching transactions.") +
+                                (history.nextAfterTxid ? `\n\nMore available: call again with afterTxid "${history.nextAfterTxid}".` : ""),
                         },
                     ],
+                    structuredContent: {
+                        address: validation.address,
+                        transactions: history.transactions,
+                        ...(history.nextAfterTxid ? { nextAfterTxid: history.nextAfterTxid } : {}),
+                    },
                 };
             } catch (error: any) {
                 return {
@@ -224,11 +492,95 @@ export function registerTools(server: McpServer, midl: MidlConfigWrapper) {
         }
     );
 
+    // Tool: get-transaction
+    server.registerTool(
+        "get-transaction",
+        {
+            description: "Look up a Bitcoin transaction by txid: inputs with prevout values, outputs, fee, fee rate, size, confirmations, block height/time, RBF signalling and any MIDL EVM intention it anchors",
+            inputSchema: {
+                txid: z.string().regex(/^[0-9a-fA-F]{64}$/).describe("Transaction ID"),
+            },
+            outputSchema: {
+                txid: z.string(),
+                version: z.number(),
+                locktime: z.number(),
+                size: z.number(),
+                vsize: z.number(),
+                weight: z.number(),
+                inputs: z.array(z.object({
+                    index: z.number(),
+                    txid: z.string(),
+                    vout: z.number(),
+                    sequence: z.number(),
+                    value: z.number().nullable(),
+                    address: z.string().optional(),
+                    scriptType: z.string().optional(),
+                    owned: z.boolean(),
+                })),
+                outputs: z.array(z.object({
+                    index: z.number(),
+                    value: z.number(),
+                    address: z.string().optional(),
+                    scriptType: z.string(),
+                    owned: z.boolean(),
+                    opReturn: z.object({ hex: z.string(), utf8: z.string().optional() }).optional(),
+                })),
+                inputTotal: z.number().nullable(),
+                outputTotal: z.number(),
+                fee: z.number().nullable().describe("Fee in satoshis, or null if a prevout is unknown"),
+                feeRate: z.number().nullable(),
+                rbf: z.boolean().describe("Whether the transaction signals BIP125 replace-by-fee"),
+                confirmed: z.boolean(),
+                confirmations: z.number(),
+                blockHeight: z.number().optional(),
+                blockHash: z.string().optional(),
+                blockTime: z.number().optional(),
+                intentions: z.array(z.object({
+                    kind: z.enum(["deploy", "call"]),
+                    from: z.string().optional(),
+                    contractAddress: z.string().optional(),
+                    functionName: z.string().optional(),
+                    dataBytes: z.number().optional(),
+                })),
+            },
+        },
+        async ({ txid }) => {
+            try {
+                const details = await getTransactionDetails(config, txid.toLowerCase(), {
+                    ownAddresses: midl.getOwnAddresses(),
+                    intentions: midl.getPendingIntentions().get(txid.toLowerCase()),
+                    apiUrl: `${midl.getNetworkProfile().mempoolUrl}/api`,
+                });
+
+                return {
+                    content: [{ type: "text", text: formatTransactionDetails(details) }],
+                    structuredContent: { ...details },
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: "text", text: `Error fetching transaction: ${error.message}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
+
     // Tool: get-blockchain-info
-    server.tool(
+    server.registerTool(
         "get-blockchain-info",
-        "Get general information about the current state of the blockchain",
-        {},
+        {
+            description: "Get general information about the current state of the blockchain",
+            inputSchema: {},
+            outputSchema: {
+                network: z.string(),
+                blockHeight: z.number(),
+                fees: z.object({
+                    fastestFee: z.number(),
+                    halfHourFee: z.number(),
+                    hourFee: z.number(),
+                }),
+            },
+        },
         async () => {
             try {
                 const height = await config.getState().provider.getLatestBlockHeight(config.getState().network);
@@ -241,6 +593,15 @@ export function registerTools(server: McpServer, midl: MidlConfigWrapper) {
                             text: `Network: ${config.getState().network.id}\nBlock Height: ${height}\n\nRecommended Fees (sat/vB):\n- Fast: ${fees.fastestFee}\n- Half Hour: ${fees.halfHourFee}\n- Hour: ${fees.hourFee}`,
                         },
                     ],
+                    structuredContent: {
+                        network: config.getState().network.id,
+                        blockHeight: height,
+                        fees: {
+                            fastestFee: fees.fastestFee,
+                            halfHourFee: fees.halfHourFee,
+                            hourFee: fees.hourFee,
+                        },
+                    },
                 };
             } catch (error: any) {
                 return {
@@ -250,4 +611,221 @@ export function registerTools(server: McpServer, midl: MidlConfigWrapper) {
             }
         }
     );
+
+    // Tool: list-accounts
+    server.registerTool(
+        "list-accounts",
+        {
+            description: "List the configured sub-accounts with their purpose, address type, BTC address, derivation path and MIDL EVM address",
+            inputSchema: {},
+            outputSchema: {
+                activeIndex: z.number(),
+                accounts: z.array(z.object({
+                    index: z.number(),
+                    active: z.boolean(),
+                    purpose: z.string(),
+                    addressType: z.string(),
+                    address: z.string(),
+                    publicKey: z.string(),
+                    derivationPath: z.string().optional(),
+                    evmAddress: z.string().optional(),
+                })),
+            },
+        },
+        async () => {
+            const manager = midl.getAccountManager();
+            const accounts = manager.describe();
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: `Accounts (active: #${manager.getActiveIndex()}):\n\n` +
+                            accounts.map(a => `- [${a.index}]${a.active ? " (active)" : ""} ${a.purpose} ${a.addressType}: ${a.address}` +
+                                `${a.derivationPath ? `\n  Path: ${a.derivationPath}` : ""}` +
+                                `${a.evmAddress ? `\n  EVM: ${a.evmAddress}` : ""}`).join("\n"),
+                    },
+                ],
+                structuredContent: {
+                    activeIndex: manager.getActiveIndex(),
+                    accounts,
+                },
+            };
+        }
+    );
+
+    // Tool: list-multisig-wallets
+    server.registerTool(
+        "list-multisig-wallets",
+        {
+            description: "List the saved multisig wallets for the active network with their address, threshold, cosigner keys and descriptor",
+            inputSchema: {},
+            outputSchema: {
+                wallets: z.array(z.object({
+                    name: z.string(),
+                    type: z.string(),
+                    threshold: z.number(),
+                    publicKeys: z.array(z.string()),
+                    network: z.string(),
+                    address: z.string(),
+                    descriptor: z.string(),
+                    script: z.string(),
+                })),
+            },
+        },
+        async () => {
+            const wallets = midl.getMultisigStore().list(midl.getNetworkName());
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: wallets.length === 0
+                            ? "No multisig wallets for this network. Use 'create-multisig-wallet' to add one."
+                            : `Multisig wallets:\n\n` + wallets.map(w =>
+                                `- ${w.name}: ${w.threshold}-of-${w.publicKeys.length} ${w.type} ${w.address}\n  Descriptor: ${w.descriptor}`
+                            ).join("\n") + `\n\nBalances and UTXOs: midl://balance/{address}, midl://utxos/{address}`,
+                    },
+                ],
+                structuredContent: {
+                    wallets,
+                },
+            };
+        }
+    );
+
+    // Tool: query-audit-log
+    server.registerTool(
+        "query-audit-log",
+        {
+            description: "Search the audit log of actionable tool calls by tool, address or time range",
+            inputSchema: {
+                tool: z.string().optional().describe("Only entries for this tool (e.g. 'request-transaction-broadcast')"),
+                address: z.string().optional().describe("Only entries mentioning this BTC or EVM address"),
+                since: z.string().optional().describe("ISO 8601 start time (inclusive)"),
+                until: z.string().optional().describe("ISO 8601 end time (inclusive)"),
+                limit: z.number().int().positive().optional().default(50).describe("Maximum number of most recent entries (default 50)"),
+            },
+            outputSchema: {
+                entries: z.array(z.object({
+                    timestamp: z.string(),
+                    tool: z.string(),
+                    arguments: z.unknown(),
+                }).passthrough()),
+            },
+        },
+        async ({ tool, address, since, until, limit }) => {
+            for (const [name, value] of [["since", since], ["until", until]] as const) {
+                if (value && Number.isNaN(Date.parse(value))) {
+                    return {
+                        content: [{ type: "text", text: `Error: '${name}' is not a valid ISO 8601 date: ${value}` }],
+                        isError: true,
+                    };
+                }
+            }
+
+            const entries = midl.getAuditLog().query({
+                ...(tool ? { tool } : {}),
+                ...(address ? { address } : {}),
+                ...(since ? { since } : {}),
+                ...(until ? { until } : {}),
+                limit,
+            });
+
+            return {
+                content: [
+                    {
+                        type: "text",
+                        text: entries.length > 0
+                            ? `Found ${entries.length} audit entries:\n\n${JSON.stringify(entries, null, 2)}`
+                            : "No audit entries match the given filters.",
+                    },
+                ],
+                structuredContent: { entries },
+            };
+        }
+    );
+
+    // Tool: compile-contract
+    server.registerTool(
+        "compile-contract",
+        {
+            description: "Compile Solidity source files without preparing any transaction. Returns every error and warning with its source location, and the ABI, bytecode, deployed bytecode, metadata and storage layout of every contract.",
+            inputSchema: {
+                sources: z.record(z.string(), z.string()).describe("Solidity source files by path, e.g. { \"contracts/Token.sol\": \"...\" }. Imports between them use these paths; other imports (e.g. @openzeppelin/contracts) are resolved automatically."),
+                optimizer: z.boolean().optional().describe("Enable the optimizer (default: false)"),
+                runs: z.number().int().positive().optional().describe("Optimizer runs (default: 200)"),
+                evmVersion: z.string().optional().describe("Target EVM version, e.g. 'paris', 'shanghai' or 'cancun' (default: cancun)"),
+                viaIR: z.boolean().optional().describe("Compile through the Yul IR pipeline (default: false)"),
+                remappings: z.array(z.string()).optional().describe("Import remappings, e.g. ['@openzeppelin/=lib/openzeppelin-contracts/']"),
+            },
+            outputSchema: {
+                success: z.boolean(),
+                compilerVersion: z.string(),
+                settings: z.object({
+                    optimizer: z.boolean(),
+                    runs: z.number(),
+                    evmVersion: z.string(),
+                    viaIR: z.boolean(),
+                    remappings: z.array(z.string()),
+                }),
+                unresolvedImports: z.array(z.object({
+                    path: z.string(),
+                    importedBy: z.string(),
+                    reason: z.string(),
+                })),
+                errors: compilerDiagnosticsSchema,
+                warnings: compilerDiagnosticsSchema,
+                contracts: z.array(z.object({
+                    file: z.string(),
+                    name: z.string(),
+                    abi: z.array(z.any()),
+                    bytecode: z.string(),
+                    deployedBytecode: z.string(),
+                    metadata: z.string(),
+                    storageLayout: z.unknown(),
+                })),
+            },
+        },
+        async ({ sources, optimizer, runs, evmVersion, viaIR, remappings }) => {
+            if (Object.keys(sources).length === 0) {
+                return {
+                    content: [{ type: "text", text: "Error: Provide at least one source file." }],
+                    isError: true,
+                };
+            }
+
+            try {
+                const { sources: resolved, unresolved } = await midl.getImportResolver().resolve(sources, remappings);
+                const result = compileSolidity(resolved, { optimizer, runs, evmVersion, viaIR, remappings });
+                const { settings } = result;
+                const success = result.errors.length === 0;
+
+                const lines = [
+                    `${success ? "Compiled" : "Compilation failed"} with solc ${result.compilerVersion} ` +
+                        `(optimizer ${settings.optimizer ? `on, ${settings.runs} runs` : "off"}, EVM ${settings.evmVersion}${settings.viaIR ? ", via IR" : ""})`,
+                ];
+                if (unresolved.length > 0) lines.push(`\nUnresolved imports (${unresolved.length}):\n${formatUnresolvedImports(unresolved)}`);
+                if (result.errors.length > 0) lines.push(`\nErrors (${result.errors.length}):\n${formatDiagnostics(result.errors)}`);
+                if (result.warnings.length > 0) lines.push(`\nWarnings (${result.warnings.length}):\n${formatDiagnostics(result.warnings)}`);
+                if (success) {
+                    lines.push(`\nContracts (${result.contracts.length}):`);
+                    for (const c of result.contracts) {
+                        lines.push(`- ${c.file}:${c.name} (bytecode ${c.bytecode.length / 2} bytes, deployed ${c.deployedBytecode.length / 2} bytes)\n  ABI: ${JSON.stringify(c.abi)}`);
+                    }
+                    lines.push("\nBytecode, metadata and storage layout are in the structured output.");
+                }
+
+                return {
+                    content: [{ type: "text", text: lines.join("\n") }],
+                    structuredContent: { success, unresolvedImports: unresolved, ...result },
+                };
+            } catch (error: any) {
+                return {
+                    content: [{ type: "text", text: `Error compiling contract: ${error.message}` }],
+                    isError: true,
+                };
+            }
+        }
+    );
 }
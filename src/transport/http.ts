@@ -0,0 +1,250 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import type { Server } from "node:http";
+import type { Request, Response, NextFunction, Express } from "express";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { createMcpExpressApp } from "@modelcontextprotocol/sdk/server/express.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Options for the HTTP transport.
+ */
+export interface HttpTransportOptions {
+    port: number;
+    /** Interface to bind to. Defaults to 127.0.0.1. */
+    host?: string;
+    /** Hostnames accepted in the Host header. Defaults to loopback names when bound to loopback. */
+    allowedHosts?: string[];
+    /** Origins accepted in the Origin header. Requests without an Origin header are always accepted. */
+    allowedOrigins?: string[];
+    /** When set, every request must carry `Authorization: Bearer <token>`. */
+    authToken?: string;
+    /** Serve a non-loopback interface without `authToken`. Refused unless set. */
+    allowUnauthenticated?: boolean;
+    /** Sessions that receive no requests for this long are closed. Defaults to 30 minutes; 0 keeps them forever. */
+    sessionIdleTimeoutMs?: number;
+}
+
+/**
+ * A running HTTP transport.
+ */
+export interface HttpTransportHandle {
+    app: Express;
+    httpServer: Server;
+    close: () => Promise<void>;
+}
+
+interface Session {
+    transport: StreamableHTTPServerTransport | SSEServerTransport;
+    server: McpServer;
+    /** When the session last received a request, in ms since the epoch. */
+    lastActivity: number;
+}
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1"];
+
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** Idle sessions are looked for at most this often. */
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+function jsonRpcError(res: Response, status: number, message: string) {
+    res.status(status).json({
+        jsonrpc: "2.0",
+        error: { code: -32000, message },
+        id: null,
+    });
+}
+
+/**
+ * Rejects browser requests coming from origins that are not allowlisted.
+ */
+function originValidation(allowedOrigins: string[]) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const origin = req.headers.origin;
+        if (origin && !allowedOrigins.includes(origin)) {
+            jsonRpcError(res, 403, `Invalid Origin: ${origin}`);
+            return;
+        }
+        next();
+    };
+}
+
+/**
+ * Requires a static bearer token on every request.
+ */
+function bearerTokenAuth(token: string) {
+    const expected = Buffer.from(token);
+    return (req: Request, res: Response, next: NextFunction) => {
+        const [scheme, provided] = (req.headers.authorization || "").split(" ");
+        const actual = Buffer.from(provided || "");
+        const valid = scheme?.toLowerCase() === "bearer"
+            && actual.length === expected.length
+            && timingSafeEqual(actual, expected);
+
+        if (!valid) {
+            res.set("WWW-Authenticate", 'Bearer error="invalid_token"');
+            jsonRpcError(res, 401, "Unauthorized");
+            return;
+        }
+        next();
+    };
+}
+
+/**
+ * Builds the Express app serving Streamable HTTP on `/mcp` and legacy SSE on `/sse` + `/messages`.
+ * Each session gets its own McpServer instance from `createServer`. Throws when asked to serve a
+ * non-loopback interface without a bearer token, unless `allowUnauthenticated` is set.
+ */
+export function createHttpApp(createServer: () => McpServer, options: HttpTransportOptions) {
+    const host = options.host || "127.0.0.1";
+    if (!LOOPBACK_HOSTS.includes(host) && !options.authToken && !options.allowUnauthenticated) {
+        throw new Error(
+            `Refusing to serve ${host} without authentication. Set MIDL_MCP_AUTH_TOKEN, ` +
+            "or MIDL_MCP_ALLOW_UNAUTHENTICATED=true (--allow-unauthenticated) to accept unauthenticated clients."
+        );
+    }
+    const allowedHosts = options.allowedHosts
+        ?? (LOOPBACK_HOSTS.includes(host) ? ["127.0.0.1", "localhost", "[::1]"] : undefined);
+    const allowedOrigins = options.allowedOrigins
+        ?? [`http://localhost:${options.port}`, `http://127.0.0.1:${options.port}`];
+
+    const app = createMcpExpressApp({ host, ...(allowedHosts ? { allowedHosts } : {}) });
+    app.use(originValidation(allowedOrigins));
+    if (options.authToken) {
+        app.use(bearerTokenAuth(options.authToken));
+    }
+
+    const sessions = new Map<string, Session>();
+
+    // Looks up a session and records the request as activity
+    const touchSession = (sessionId: string | undefined): Session | undefined => {
+        const session = sessionId ? sessions.get(sessionId) : undefined;
+        if (session) session.lastActivity = Date.now();
+        return session;
+    };
+
+    // Closes sessions whose clients went away without terminating them
+    const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+    const expireIdleSessions = async (now = Date.now()) => {
+        if (idleTimeoutMs <= 0) return;
+        for (const [id, session] of sessions) {
+            if (now - session.lastActivity < idleTimeoutMs) continue;
+            sessions.delete(id);
+            await session.transport.close().catch(() => undefined);
+        }
+    };
+    const sweeper = idleTimeoutMs > 0
+        ? setInterval(() => void expireIdleSessions(), Math.min(idleTimeoutMs, SESSION_SWEEP_INTERVAL_MS)).unref()
+        : undefined;
+
+    // Streamable HTTP: initialization and client -> server messages
+    app.post("/mcp", async (req, res) => {
+        const sessionId = req.headers["mcp-session-id"] as string | undefined;
+        try {
+            if (sessionId) {
+                const session = touchSession(sessionId);
+                if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+                    jsonRpcError(res, 404, "Session not found");
+                    return;
+                }
+                await session.transport.handleRequest(req, res, req.body);
+                return;
+            }
+
+            if (!isInitializeRequest(req.body)) {
+                jsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+                return;
+            }
+
+            const server = createServer();
+            const transport = new StreamableHTTPServerTransport({
+                sessionIdGenerator: () => randomUUID(),
+                onsessioninitialized: (id) => {
+                    sessions.set(id, { transport, server, lastActivity: Date.now() });
+                },
+            });
+            transport.onclose = () => {
+                if (transport.sessionId) sessions.delete(transport.sessionId);
+            };
+
+            await server.connect(transport as Transport);
+            await transport.handleRequest(req, res, req.body);
+        } catch (error: any) {
+            console.error("Error handling MCP request:", error.message);
+            if (!res.headersSent) {
+                jsonRpcError(res, 500, "Internal server error");
+            }
+        }
+    });
+
+    // Streamable HTTP: server -> client stream and session termination
+    const handleSessionRequest = async (req: Request, res: Response) => {
+        const sessionId = req.headers["mcp-session-id"] as string | undefined;
+        const session = touchSession(sessionId);
+        if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+            jsonRpcError(res, sessionId ? 404 : 400, sessionId ? "Session not found" : "Missing session ID");
+            return;
+        }
+        await session.transport.handleRequest(req, res);
+    };
+    app.get("/mcp", handleSessionRequest);
+    app.delete("/mcp", handleSessionRequest);
+
+    // Legacy HTTP+SSE transport (protocol version 2024-11-05)
+    app.get("/sse", async (_req, res) => {
+        const server = createServer();
+        const transport = new SSEServerTransport("/messages", res);
+        sessions.set(transport.sessionId, { transport, server, lastActivity: Date.now() });
+        res.on("close", () => {
+            sessions.delete(transport.sessionId);
+        });
+        await server.connect(transport);
+    });
+
+    app.post("/messages", async (req, res) => {
+        const sessionId = req.query.sessionId as string | undefined;
+        const session = touchSession(sessionId);
+        if (!session || !(session.transport instanceof SSEServerTransport)) {
+            jsonRpcError(res, 404, "Session not found");
+            return;
+        }
+        await session.transport.handlePostMessage(req, res, req.body);
+    });
+
+    const closeSessions = async () => {
+        clearInterval(sweeper);
+        for (const { transport } of sessions.values()) {
+            await transport.close().catch(() => undefined);
+        }
+        sessions.clear();
+    };
+
+    return { app, sessions, expireIdleSessions, closeSessions };
+}
+
+/**
+ * Starts listening for MCP clients over HTTP.
+ */
+export async function startHttpTransport(createServer: () => McpServer, options: HttpTransportOptions): Promise<HttpTransportHandle> {
+    const { app, closeSessions } = createHttpApp(createServer, options);
+    const host = options.host || "127.0.0.1";
+
+    const httpServer = await new Promise<Server>((resolve, reject) => {
+        const listener = app.listen(options.port, host, (error?: Error) => {
+            if (error) reject(error);
+            else resolve(listener);
+        });
+    });
+
+    return {
+        app,
+        httpServer,
+        close: async () => {
+            await closeSessions();
+            await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+        },
+    };
+}
@@ -1,17 +1,29 @@
 declare module 'solc' {
     interface SolcOutput {
         errors?: Array<{
-            severity: 'error' | 'warning';
+            severity: 'error' | 'warning' | 'info';
+            type: string;
+            message: string;
             formattedMessage: string;
+            sourceLocation?: {
+                file: string;
+                start: number;
+                end: number;
+            };
         }>;
         contracts: {
             [fileName: string]: {
                 [contractName: string]: {
                     abi: any;
+                    metadata?: string;
+                    storageLayout?: any;
                     evm: {
                         bytecode: {
                             object: string;
                         };
+                        deployedBytecode?: {
+                            object: string;
+                        };
                     };
                 };
             };
@@ -19,5 +31,6 @@ declare module 'solc' {
     }
 
     function compile(input: string, callbacks?: any): string;
+    function version(): string;
     const features: any;
 }
@@ -0,0 +1,67 @@
+import { address as btcAddress, networks } from "bitcoinjs-lib";
+import { getScriptType, type ScriptType } from "./psbt.js";
+
+/**
+ * Result of decoding an address against the configured network.
+ */
+export interface AddressValidation {
+    address: string;
+    valid: boolean;
+    /** Script template of the decoded address, e.g. "p2wpkh". */
+    type?: ScriptType;
+    scriptPubKey?: string;
+    /** Network the address belongs to when it does not match the configured one. */
+    detectedNetwork?: string;
+    error?: string;
+}
+
+const KNOWN_NETWORKS: [string, networks.Network][] = [
+    ["mainnet", networks.bitcoin],
+    ["testnet/signet", networks.testnet],
+    ["regtest", networks.regtest],
+];
+
+/**
+ * Decodes an address with bitcoinjs-lib against the given network. When that fails, the other
+ * networks are tried so a mainnet address on testnet gets an explicit mismatch error.
+ */
+export function validateAddress(address: string, network: networks.Network, networkName: string): AddressValidation {
+    try {
+        const script = btcAddress.toOutputScript(address, network);
+        return {
+            address,
+            valid: true,
+            type: getScriptType(script),
+            scriptPubKey: Buffer.from(script).toString("hex"),
+        };
+    } catch {
+        // Fall through to the network mismatch check
+    }
+
+    for (const [name, candidate] of KNOWN_NETWORKS) {
+        if (candidate === network) continue;
+        try {
+            btcAddress.toOutputScript(address, candidate);
+            return {
+                address,
+                valid: false,
+                detectedNetwork: name,
+                error: `${address} is a ${name} address, but the server is on ${networkName}.`,
+            };
+        } catch {
+            // Not this network either
+        }
+    }
+
+    return { address, valid: false, error: `${address} is not a valid Bitcoin address.` };
+}
+
+/**
+ * Throws the validation error of the first recipient address that does not decode on the given network.
+ */
+export function assertValidRecipients(recipients: { address: string }[], network: networks.Network, networkName: string) {
+    for (const { address } of recipients) {
+        const validation = validateAddress(address, network, networkName);
+        if (!validation.valid) throw new Error(`Invalid recipient: ${validation.error}`);
+    }
+}
@@ -0,0 +1,106 @@
+import type { Config } from "@midl/core";
+
+/**
+ * Runes and inscriptions held by one output.
+ */
+export interface UtxoAssets {
+    runes: { runeId: string; name?: string; amount: string }[];
+    inscriptions: string[];
+}
+
+/**
+ * Asset-bearing outputs of an address, keyed by `txid:vout`.
+ */
+export interface AssetClassification {
+    assets: Map<string, UtxoAssets>;
+    /** Indexers that could not be queried, so some assets may be missing. */
+    warnings: string[];
+}
+
+/** Runes fetched per `getRunes` page. */
+const RUNES_PAGE_SIZE = 50;
+
+const entryFor = (assets: Map<string, UtxoAssets>, outpoint: string) => {
+    let entry = assets.get(outpoint);
+    if (!entry) assets.set(outpoint, entry = { runes: [], inscriptions: [] });
+    return entry;
+};
+
+/**
+ * Finds the outputs of an address that carry runes (through the configured runes provider) or
+ * inscriptions (through an ord server's `/outputs/{address}?type=inscribed`). An unreachable or
+ * unconfigured indexer is reported as a warning, since the result may then be incomplete.
+ */
+export async function classifyAssetUtxos(config: Config, address: string, options: { ordUrl?: string | undefined } = {}): Promise<AssetClassification> {
+    const { runesProvider: provider, network } = config.getState();
+    const assets = new Map<string, UtxoAssets>();
+    const warnings: string[] = [];
+
+    if (!provider) {
+        warnings.push(`No runes indexer is configured, so ${address} was not checked for runes.`);
+    } else {
+        try {
+            for (let offset = 0; ; offset += RUNES_PAGE_SIZE) {
+                const page = await provider.getRunes(network, address, { limit: RUNES_PAGE_SIZE, offset });
+                for (const { rune } of page.results) {
+                    for (const utxo of await provider.getRuneUTXOs(network, address, rune.id)) {
+                        const amount = utxo.runes.find(r => r.runeid === rune.id)?.amount ?? 0n;
+                        entryFor(assets, `${utxo.txid}:${utxo.vout}`).runes.push({ runeId: rune.id, name: rune.spaced_name, amount: amount.toString() });
+                    }
+                }
+                if (page.results.length < RUNES_PAGE_SIZE || offset + RUNES_PAGE_SIZE >= page.total) break;
+            }
+        } catch (error: any) {
+            warnings.push(`Could not check ${address} for runes: ${error.message}.`);
+        }
+    }
+
+    if (!options.ordUrl) {
+        warnings.push(`No inscription index (ordUrl / MIDL_ORD_URL) is configured, so ${address} was not checked for inscriptions.`);
+    } else {
+        try {
+            const res = await fetch(`${options.ordUrl}/outputs/${address}?type=inscribed`, { headers: { Accept: "application/json" } });
+            if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+            const outputs = await res.json() as { outpoint: string; inscriptions?: string[] | null }[];
+            for (const output of outputs) {
+                if (output.inscriptions?.length) entryFor(assets, output.outpoint).inscriptions.push(...output.inscriptions);
+            }
+        } catch (error: any) {
+            warnings.push(`Could not check ${address} for inscriptions: ${error.message}.`);
+        }
+    }
+
+    return { assets, warnings };
+}
+
+/**
+ * Describes what an output holds, e.g. "100 UNCOMMON•GOODS, 1 inscription".
+ */
+export function describeAssets(assets: UtxoAssets): string {
+    const parts = assets.runes.map(r => `${r.amount} ${r.name ?? r.runeId}`);
+    if (assets.inscriptions.length > 0) {
+        parts.push(`${assets.inscriptions.length} inscription${assets.inscriptions.length === 1 ? "" : "s"}`);
+    }
+    return parts.join(", ");
+}
+
+/**
+ * Outpoints of an address that BTC coin selection must leave alone. Fails closed: throws when an
+ * indexer could not be queried or is not configured, since any UTXO could then carry assets, and
+ * when an asset-bearing outpoint was explicitly included.
+ */
+export async function getProtectedOutpoints(
+    config: Config,
+    address: string,
+    options: { ordUrl?: string | undefined; include?: string[] | undefined }
+): Promise<{ exclude: string[] }> {
+    const { assets, warnings } = await classifyAssetUtxos(config, address, options);
+    if (warnings.length > 0) {
+        throw new Error(`${warnings.join(" ")} Set allowAssetUtxos to spend without rune and inscription protection.`);
+    }
+    for (const outpoint of options.include ?? []) {
+        const held = assets.get(outpoint.toLowerCase());
+        if (held) throw new Error(`Outpoint ${outpoint} carries ${describeAssets(held)}; set allowAssetUtxos to spend it.`);
+    }
+    return { exclude: [...assets.keys()] };
+}
@@ -0,0 +1,126 @@
+import type { Config } from "@midl/core";
+import { Psbt, Transaction, address as btcAddress, networks } from "bitcoinjs-lib";
+
+/**
+ * Gets the bitcoinjs-lib network for the configured MIDL network.
+ */
+export function getBitcoinNetwork(config: Config): networks.Network {
+    const networkName = config.getState().network.network;
+    return networks[networkName as keyof typeof networks] as networks.Network || networks.testnet;
+}
+
+/**
+ * Gets the txid an input spends from (bitcoinjs stores the hash in little-endian order).
+ */
+export function getInputTxId(input: { hash: Uint8Array }): string {
+    return Buffer.from(input.hash).reverse().toString("hex");
+}
+
+/**
+ * Looks up every input's previous output through the configured provider.
+ * Null entries are inputs whose previous transaction cannot be fetched.
+ */
+export async function getPrevouts(config: Config, tx: Transaction): Promise<({ value: number; script: Uint8Array } | null)[]> {
+    const { provider, network } = config.getState();
+    const cache = new Map<string, Promise<Transaction | null>>();
+
+    return Promise.all(tx.ins.map(async input => {
+        const txid = getInputTxId(input);
+        if (!cache.has(txid)) {
+            cache.set(txid, provider.getTransactionHex(network, txid).then((hex: string) => Transaction.fromHex(hex)).catch(() => null));
+        }
+        const prevOut = (await cache.get(txid))?.outs[input.index];
+        return prevOut ? { value: Number(prevOut.value), script: prevOut.script } : null;
+    }));
+}
+
+/**
+ * Looks up the value of every input's previous output through the configured provider.
+ * Returns null when any previous transaction cannot be fetched.
+ */
+export async function getPrevoutValues(config: Config, tx: Transaction): Promise<number[] | null> {
+    const prevouts = await getPrevouts(config, tx);
+    return prevouts.some(p => p === null) ? null : prevouts.map(p => p!.value);
+}
+
+/**
+ * What a raw transaction sends outside the connected accounts.
+ */
+export interface TransactionSpend {
+    recipients: { address: string; amount: number }[];
+    total: number;
+    vsize: number;
+    fee?: number;
+    feeRate?: number;
+}
+
+/**
+ * Works out the external recipients, fee and fee rate of a raw transaction. Outputs to
+ * `ownAddresses` (by default the connected accounts) are change, not recipients.
+ * Fee fields are omitted when previous outputs cannot be looked up.
+ */
+export async function analyzeTransactionSpend(
+    config: Config,
+    txHex: string,
+    ownAddresses: Set<string> = new Set((config.getState().accounts || []).map(a => a.address))
+): Promise<TransactionSpend> {
+    const tx = Transaction.fromHex(txHex);
+    const network = getBitcoinNetwork(config);
+
+    const recipients: { address: string; amount: number }[] = [];
+    for (const out of tx.outs) {
+        let address: string;
+        try {
+            address = btcAddress.fromOutputScript(out.script, network);
+        } catch {
+            continue; // OP_RETURN and non-standard outputs carry no recipient
+        }
+        if (!ownAddresses.has(address)) {
+            recipients.push({ address, amount: Number(out.value) });
+        }
+    }
+
+    const vsize = tx.virtualSize();
+    const spend: TransactionSpend = {
+        recipients,
+        total: recipients.reduce((acc, r) => acc + r.amount, 0),
+        vsize,
+    };
+
+    const prevoutValues = await getPrevoutValues(config, tx);
+    if (prevoutValues) {
+        const inputTotal = prevoutValues.reduce((acc, v) => acc + v, 0);
+        const outputTotal = tx.outs.reduce((acc, out) => acc + Number(out.value), 0);
+        spend.fee = inputTotal - outputTotal;
+        spend.feeRate = Number((spend.fee / vsize).toFixed(2));
+    }
+
+    return spend;
+}
+
+/**
+ * Reads each input's value from its witnessUtxo or nonWitnessUtxo. Null entries are inputs without UTXO data.
+ */
+export function getPsbtInputValues(psbt: Psbt): (number | null)[] {
+    return psbt.data.inputs.map((input, i) => {
+        if (input.witnessUtxo) return Number(input.witnessUtxo.value);
+        if (input.nonWitnessUtxo) {
+            const prevTx = Transaction.fromBuffer(input.nonWitnessUtxo);
+            const vout = psbt.txInputs[i]!.index;
+            const prevOut = prevTx.outs[vout];
+            return prevOut ? Number(prevOut.value) : null;
+        }
+        return null;
+    });
+}
+
+/**
+ * Computes a PSBT's fee from its input UTXO data, or null when any input value is unknown.
+ */
+export function getPsbtFee(psbt: Psbt): number | null {
+    const inputValues = getPsbtInputValues(psbt);
+    if (inputValues.some(v => v === null)) return null;
+    const inputTotal = inputValues.reduce<number>((acc, v) => acc + v!, 0);
+    const outputTotal = psbt.txOutputs.reduce((acc, out) => acc + Number(out.value), 0);
+    return inputTotal - outputTotal;
+}
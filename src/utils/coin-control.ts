@@ -0,0 +1,227 @@
+import type { Account, Config } from "@midl/core";
+import { Psbt, address as btcAddress, networks } from "bitcoinjs-lib";
+import { getBitcoinNetwork } from "./bitcoin.js";
+import { RBF_SEQUENCE, makeAccountInput, type SpendableOutput } from "./inputs.js";
+
+export const SELECTION_STRATEGIES = ["accumulative", "branch-and-bound", "largest-first"] as const;
+export type SelectionStrategy = (typeof SELECTION_STRATEGIES)[number];
+
+/**
+ * Explicit UTXO choices for a transfer.
+ */
+export interface CoinControlOptions {
+    /** Outpoints (`txid:vout`) that must be spent. With `sendMax`, only these are spent. */
+    include?: string[] | undefined;
+    /** Outpoints (`txid:vout`) that must not be spent. */
+    exclude?: string[] | undefined;
+    strategy?: SelectionStrategy | undefined;
+    /** The recipient without an amount receives everything left after the other recipients and the fee. */
+    sendMax?: boolean | undefined;
+}
+
+export interface CoinSelectionParams extends CoinControlOptions {
+    feeRate: number;
+    /** Virtual bytes each signed input adds (see `getAccountInputVsize`). */
+    inputVsize: number;
+    changeAddress: string;
+    network: networks.Network;
+}
+
+export interface SelectedOutput {
+    address: string;
+    value: number;
+    change: boolean;
+}
+
+export interface CoinSelection {
+    inputs: SpendableOutput[];
+    outputs: SelectedOutput[];
+    fee: number;
+    /** Change returned to the change address, 0 when the remainder went to the fee. */
+    change: number;
+    vsize: number;
+    /** Strategy that produced the selection; branch-and-bound falls back to largest-first. */
+    strategy: SelectionStrategy | "send-max";
+}
+
+const DUST_LIMIT = 546;
+/** Version, locktime, counts and the segwit marker. */
+const TX_OVERHEAD_VSIZE = 10.5;
+/** Branches explored before branch-and-bound gives up on a changeless match. */
+const BNB_MAX_TRIES = 100_000;
+
+/**
+ * Whether any coin control option is set, as opposed to leaving selection to MIDL.js.
+ */
+export function hasCoinControl(options: CoinControlOptions & { changeAddress?: string | undefined }): boolean {
+    return Boolean(options.include?.length || options.exclude?.length || options.strategy || options.sendMax || options.changeAddress);
+}
+
+const outpointOf = (utxo: SpendableOutput) => `${utxo.txid}:${utxo.vout}`;
+
+function parseOutpoints(outpoints: string[]): Set<string> {
+    for (const outpoint of outpoints) {
+        if (!/^[0-9a-fA-F]{64}:\d+$/.test(outpoint)) throw new Error(`Invalid outpoint "${outpoint}", expected txid:vout.`);
+    }
+    return new Set(outpoints.map(o => o.toLowerCase()));
+}
+
+/**
+ * Searches for a subset of `pool` (sorted by descending effective value) whose effective value
+ * lands in [target, target + costOfChange], so no change output is needed. Returns the match with
+ * the least excess, or null.
+ */
+function branchAndBound(pool: { utxo: SpendableOutput; effective: number }[], target: number, costOfChange: number): SpendableOutput[] | null {
+    const remaining: number[] = [];
+    for (let i = pool.length - 1, acc = 0; i >= 0; i--) remaining[i] = acc += pool[i]!.effective;
+
+    let best: number[] | null = null;
+    let bestExcess = Infinity;
+    let tries = 0;
+    const selected: number[] = [];
+
+    const search = (i: number, value: number) => {
+        if (++tries > BNB_MAX_TRIES || value > target + costOfChange) return;
+        if (value >= target) {
+            if (value - target < bestExcess) {
+                best = [...selected];
+                bestExcess = value - target;
+            }
+            return;
+        }
+        if (i >= pool.length || value + remaining[i]! < target) return;
+        selected.push(i);
+        search(i + 1, value + pool[i]!.effective);
+        selected.pop();
+        search(i + 1, value);
+    };
+    search(0, 0);
+
+    return best ? (best as number[]).map(i => pool[i]!.utxo) : null;
+}
+
+/**
+ * Chooses the UTXOs, outputs and fee for a transfer from one account. Included outpoints are
+ * always spent and excluded ones never; the rest are picked with the chosen strategy (largest-first
+ * by default). Change below the dust limit is left to the fee.
+ */
+export function selectCoins(
+    utxos: SpendableOutput[],
+    recipients: { address: string; amount?: number | undefined }[],
+    params: CoinSelectionParams
+): CoinSelection {
+    const include = parseOutpoints(params.include ?? []);
+    const exclude = parseOutpoints(params.exclude ?? []);
+    const known = new Set(utxos.map(outpointOf));
+    for (const outpoint of include) {
+        if (exclude.has(outpoint)) throw new Error(`Outpoint ${outpoint} is both included and excluded.`);
+        if (!known.has(outpoint)) throw new Error(`Outpoint ${outpoint} is not an unspent output of this account.`);
+    }
+
+    const open = recipients.filter(r => r.amount === undefined);
+    if (params.sendMax ? open.length !== 1 : open.length > 0) {
+        throw new Error(params.sendMax
+            ? "sendMax needs exactly one recipient without an amount."
+            : "Every recipient needs an amount unless sendMax is set.");
+    }
+
+    const outputVsize = (address: string) => 9 + btcAddress.toOutputScript(address, params.network).length;
+    const baseVsize = TX_OVERHEAD_VSIZE + recipients.reduce((acc, r) => acc + outputVsize(r.address), 0);
+    const changeVsize = outputVsize(params.changeAddress);
+    const vsizeOf = (inputs: number, withChange: boolean) =>
+        Math.ceil(baseVsize + inputs * params.inputVsize + (withChange ? changeVsize : 0));
+    const sum = (list: SpendableOutput[]) => list.reduce((acc, u) => acc + u.value, 0);
+
+    const forced = utxos.filter(u => include.has(outpointOf(u)));
+    const pool = utxos.filter(u => !include.has(outpointOf(u)) && !exclude.has(outpointOf(u)));
+    const fixed = recipients.reduce((acc, r) => acc + (r.amount ?? 0), 0);
+    const insufficient = (available: SpendableOutput[]) => new Error(
+        `Insufficient funds: ${sum(available)} sats available across ${available.length} UTXOs, ${fixed} sats needed plus fees.`
+    );
+
+    if (params.sendMax) {
+        const inputs = forced.length > 0 ? forced : pool;
+        const vsize = vsizeOf(inputs.length, false);
+        const fee = Math.ceil(params.feeRate * vsize);
+        const max = sum(inputs) - fixed - fee;
+        if (max < DUST_LIMIT) throw insufficient(inputs);
+        return {
+            inputs,
+            outputs: recipients.map(r => ({ address: r.address, value: r.amount ?? max, change: false })),
+            fee,
+            change: 0,
+            vsize,
+            strategy: "send-max",
+        };
+    }
+
+    // Builds the selection for a set of inputs, adding change when it is above dust
+    const finish = (inputs: SpendableOutput[], strategy: SelectionStrategy): CoinSelection | null => {
+        const total = sum(inputs);
+        const withChange = vsizeOf(inputs.length, true);
+        const change = total - fixed - Math.ceil(params.feeRate * withChange);
+        const outputs = recipients.map(r => ({ address: r.address, value: r.amount!, change: false }));
+        if (change >= DUST_LIMIT) {
+            return {
+                inputs,
+                outputs: [...outputs, { address: params.changeAddress, value: change, change: true }],
+                fee: total - fixed - change,
+                change,
+                vsize: withChange,
+                strategy,
+            };
+        }
+        const vsize = vsizeOf(inputs.length, false);
+        if (total - fixed < Math.ceil(params.feeRate * vsize)) return null;
+        return { inputs, outputs, fee: total - fixed, change: 0, vsize, strategy };
+    };
+
+    const accumulate = (order: SpendableOutput[], strategy: SelectionStrategy) => {
+        const inputs = [...forced];
+        let result = inputs.length > 0 ? finish(inputs, strategy) : null;
+        for (const utxo of order) {
+            if (result) break;
+            inputs.push(utxo);
+            result = finish(inputs, strategy);
+        }
+        return result;
+    };
+    const largestFirst = () => accumulate([...pool].sort((a, b) => b.value - a.value), "largest-first");
+
+    let result: CoinSelection | null;
+    switch (params.strategy ?? "largest-first") {
+        case "accumulative":
+            result = accumulate(pool, "accumulative");
+            break;
+        case "branch-and-bound": {
+            const effective = (u: SpendableOutput) => u.value - params.feeRate * params.inputVsize;
+            const target = fixed + params.feeRate * baseVsize - forced.reduce((acc, u) => acc + effective(u), 0);
+            const candidates = pool
+                .map(utxo => ({ utxo, effective: effective(utxo) }))
+                .filter(c => c.effective > 0)
+                .sort((a, b) => b.effective - a.effective);
+            const match = target > 0 ? branchAndBound(candidates, target, params.feeRate * (changeVsize + params.inputVsize)) : [];
+            result = (match && finish([...forced, ...match], "branch-and-bound")) || largestFirst();
+            break;
+        }
+        default:
+            result = largestFirst();
+    }
+    if (!result) throw insufficient([...forced, ...pool]);
+    return result;
+}
+
+/**
+ * Builds the unsigned PSBT for a coin selection spending from `account`. Inputs signal
+ * replace-by-fee, so a stuck transfer can be bumped with `prepare-rbf-bump`.
+ */
+export async function buildSelectionPsbt(config: Config, account: Account, selection: CoinSelection): Promise<Psbt> {
+    const psbt = new Psbt({ network: getBitcoinNetwork(config) });
+    for (const utxo of selection.inputs) {
+        psbt.addInput(await makeAccountInput(config, account, utxo, RBF_SEQUENCE));
+    }
+    for (const output of selection.outputs) {
+        psbt.addOutput({ address: output.address, value: BigInt(output.value) });
+    }
+    return psbt;
+}
@@ -0,0 +1,164 @@
+import type { Account, Config } from "@midl/core";
+import { Psbt, Transaction } from "bitcoinjs-lib";
+import { getBitcoinNetwork } from "./bitcoin.js";
+import { RBF_SEQUENCE, makeAccountInput } from "./inputs.js";
+import { inspectPsbt } from "./psbt.js";
+import type { TransactionDetails } from "./transaction.js";
+
+/** Minimum fee rate increase (sat/vB) a replacement must pay for its own size (BIP125 rule 4). */
+export const INCREMENTAL_RELAY_FEE_RATE = 1;
+const DUST_LIMIT = 546;
+
+/**
+ * An unsigned replacement for a stuck transaction.
+ */
+export interface RbfReplacement {
+    psbt: Psbt;
+    fee: number;
+    feeRate: number;
+    originalFee: number;
+    originalFeeRate: number;
+    /** Index of the change output the extra fee was taken from. */
+    changeIndex: number;
+    change: number;
+    /** True when the requested rate was raised to the BIP125 minimum. */
+    raisedToMinimum: boolean;
+}
+
+/**
+ * An unsigned child transaction that pays for its unconfirmed parent.
+ */
+export interface CpfpChild {
+    psbt: Psbt;
+    fee: number;
+    vsize: number;
+    /** Parent output spent by the child. */
+    vout: number;
+    value: number;
+    address: string;
+    /** Combined fee rate of parent and child, as miners evaluate the package. */
+    packageFeeRate: number;
+}
+
+const assertUnconfirmed = (tx: TransactionDetails, action: string) => {
+    if (tx.confirmed) throw new Error(`Transaction ${tx.txid} is already confirmed; there is nothing to ${action}.`);
+    if (tx.fee === null) throw new Error(`Cannot determine the fee of ${tx.txid} because its previous outputs are unavailable.`);
+};
+
+/**
+ * Rebuilds an unconfirmed transaction with the same inputs and outputs and a higher fee taken from
+ * its change (the largest output owned by a connected account). Follows BIP125: the original must
+ * signal replaceability and the replacement pays the old fee plus the incremental relay fee for
+ * its own size, whatever the requested rate.
+ */
+export async function buildRbfReplacement(config: Config, original: TransactionDetails, accounts: Account[], feeRate: number): Promise<RbfReplacement> {
+    assertUnconfirmed(original, "replace");
+    if (!original.rbf) {
+        throw new Error(`Transaction ${original.txid} does not signal replace-by-fee (BIP125); use CPFP instead.`);
+    }
+    const accountOf = new Map(accounts.map(a => [a.address, a]));
+    for (const input of original.inputs) {
+        if (!input.address || !accountOf.has(input.address)) {
+            throw new Error(`Input #${input.index} (${input.txid}:${input.vout}) is not owned by a connected account, so the transaction cannot be re-signed.`);
+        }
+    }
+    const change = original.outputs
+        .filter(o => o.address && accountOf.has(o.address))
+        .sort((a, b) => b.value - a.value)[0];
+    if (!change) throw new Error(`Transaction ${original.txid} has no change output to take the extra fee from.`);
+
+    const minimumFee = original.fee! + Math.ceil(original.vsize * INCREMENTAL_RELAY_FEE_RATE);
+    const requestedFee = Math.ceil(feeRate * original.vsize);
+    const fee = Math.max(requestedFee, minimumFee);
+    const changeValue = change.value - (fee - original.fee!);
+    if (changeValue < DUST_LIMIT) {
+        throw new Error(`Change output #${change.index} (${change.value} sats) cannot cover a fee of ${fee} sats without dropping below the ${DUST_LIMIT} sat dust limit.`);
+    }
+
+    const { provider, network: bitcoinNetwork } = config.getState();
+    const tx = Transaction.fromHex(await provider.getTransactionHex(bitcoinNetwork, original.txid));
+    const psbt = new Psbt({ network: getBitcoinNetwork(config) });
+    psbt.setVersion(tx.version);
+    psbt.setLocktime(tx.locktime);
+    for (const input of original.inputs) {
+        const utxo = { txid: input.txid, vout: input.vout, value: input.value! };
+        psbt.addInput(await makeAccountInput(config, accountOf.get(input.address!)!, utxo, input.sequence));
+    }
+    tx.outs.forEach((output, index) => {
+        psbt.addOutput({ script: output.script, value: index === change.index ? BigInt(changeValue) : output.value });
+    });
+
+    return {
+        psbt,
+        fee,
+        feeRate: Number((fee / original.vsize).toFixed(2)),
+        originalFee: original.fee!,
+        originalFeeRate: original.feeRate!,
+        changeIndex: change.index,
+        change: changeValue,
+        raisedToMinimum: requestedFee < minimumFee,
+    };
+}
+
+/**
+ * Builds a child spending an unconfirmed parent's output back to the same address, with a fee
+ * that lifts the parent and child package to `feeRate`. Spends the largest output owned by a
+ * connected account unless `vout` is given; the output must still be unspent.
+ */
+export async function buildCpfpChild(
+    config: Config,
+    parent: TransactionDetails,
+    accounts: Account[],
+    options: { feeRate: number; vout?: number }
+): Promise<CpfpChild> {
+    assertUnconfirmed(parent, "accelerate");
+    const accountOf = new Map(accounts.map(a => [a.address, a]));
+    const owned = parent.outputs.filter(o => o.address && accountOf.has(o.address));
+    const output = options.vout === undefined
+        ? owned.sort((a, b) => b.value - a.value)[0]
+        : owned.find(o => o.index === options.vout);
+    if (!output) {
+        throw new Error(options.vout === undefined
+            ? `Transaction ${parent.txid} has no output owned by a connected account.`
+            : `Output #${options.vout} of ${parent.txid} is not owned by a connected account.`);
+    }
+    if (parent.feeRate! >= options.feeRate) {
+        throw new Error(`Transaction ${parent.txid} already pays ${parent.feeRate} sat/vB, at or above the target of ${options.feeRate} sat/vB.`);
+    }
+
+    const { provider, network: bitcoinNetwork } = config.getState();
+    const utxos = await provider.getUTXOs(bitcoinNetwork, output.address!);
+    if (!utxos.some(u => u.txid === parent.txid && u.vout === output.index)) {
+        throw new Error(`Output #${output.index} of ${parent.txid} has already been spent.`);
+    }
+
+    const network = getBitcoinNetwork(config);
+    const account = accountOf.get(output.address!)!;
+    const input = await makeAccountInput(config, account, { txid: parent.txid, vout: output.index, value: output.value }, RBF_SEQUENCE);
+    const build = (value: number) => {
+        const psbt = new Psbt({ network });
+        psbt.addInput(input);
+        psbt.addOutput({ address: output.address!, value: BigInt(value) });
+        return psbt;
+    };
+
+    const vsize = inspectPsbt(build(output.value), network, new Set()).vsize;
+    const fee = Math.max(
+        Math.ceil(options.feeRate * (parent.vsize + vsize)) - parent.fee!,
+        Math.ceil(vsize * INCREMENTAL_RELAY_FEE_RATE)
+    );
+    const value = output.value - fee;
+    if (value < DUST_LIMIT) {
+        throw new Error(`Output #${output.index} (${output.value} sats) cannot pay a ${fee} sat child fee without dropping below the ${DUST_LIMIT} sat dust limit.`);
+    }
+
+    return {
+        psbt: build(value),
+        fee,
+        vsize,
+        vout: output.index,
+        value,
+        address: output.address!,
+        packageFeeRate: Number(((parent.fee! + fee) / (parent.vsize + vsize)).toFixed(2)),
+    };
+}
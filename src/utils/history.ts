@@ -0,0 +1,125 @@
+/**
+ * The parts of an Esplora (mempool.space) transaction the history tool reads.
+ */
+export interface EsploraTransaction {
+    txid: string;
+    fee: number;
+    vin: { prevout: { scriptpubkey_address?: string; value: number } | null }[];
+    vout: { scriptpubkey_address?: string; value: number }[];
+    status: { confirmed: boolean; block_height?: number; block_time?: number };
+}
+
+export type TransactionDirection = "incoming" | "outgoing" | "self";
+
+/**
+ * A transaction from the point of view of one address.
+ */
+export interface AddressTransaction {
+    txid: string;
+    direction: TransactionDirection;
+    /** Sats paid to the address. */
+    received: number;
+    /** Sats the address spent (its inputs). */
+    sent: number;
+    /** received - sent: what the address gained (positive) or lost (negative), fee included. */
+    net: number;
+    fee: number;
+    confirmed: boolean;
+    blockHeight?: number;
+    blockTime?: number;
+}
+
+export interface AddressHistoryOptions {
+    limit: number;
+    direction?: "incoming" | "outgoing" | "all";
+    status?: "confirmed" | "unconfirmed" | "all";
+    /** Resume after this txid (the `nextAfterTxid` of a previous page). */
+    afterTxid?: string;
+}
+
+export interface AddressHistory {
+    transactions: AddressTransaction[];
+    /** Pass as `afterTxid` to continue with the next transactions. Absent when the history is exhausted. */
+    nextAfterTxid?: string;
+}
+
+/** Confirmed transactions per Esplora page. */
+const ESPLORA_PAGE_SIZE = 25;
+/** Upper bound on pages fetched per call, so sparse filters cannot walk an entire history. */
+const MAX_PAGES = 20;
+
+/**
+ * Works out what a transaction received from and sent to an address.
+ */
+export function summarizeAddressTransaction(tx: EsploraTransaction, address: string): AddressTransaction {
+    const sent = tx.vin.reduce((acc, input) => acc + (input.prevout?.scriptpubkey_address === address ? input.prevout.value : 0), 0);
+    const received = tx.vout.reduce((acc, output) => acc + (output.scriptpubkey_address === address ? output.value : 0), 0);
+    const external = tx.vout.some(output => output.scriptpubkey_address !== address && output.value > 0);
+
+    return {
+        txid: tx.txid,
+        direction: sent === 0 ? "incoming" : external ? "outgoing" : "self",
+        received,
+        sent,
+        net: received - sent,
+        fee: tx.fee,
+        confirmed: tx.status.confirmed,
+        ...(tx.status.block_height !== undefined ? { blockHeight: tx.status.block_height } : {}),
+        ...(tx.status.block_time !== undefined ? { blockTime: tx.status.block_time } : {}),
+    };
+}
+
+function matches(tx: AddressTransaction, { direction = "all", status = "all" }: AddressHistoryOptions): boolean {
+    if (status !== "all" && tx.confirmed !== (status === "confirmed")) return false;
+    if (direction === "incoming" && tx.direction !== "incoming") return false;
+    if (direction === "outgoing" && tx.direction === "incoming") return false;
+    return true;
+}
+
+/**
+ * Fetches an address's history from an Esplora API, newest first. The first page holds mempool
+ * transactions plus 25 confirmed ones; older confirmed pages are requested with `after_txid`
+ * until `limit` matching transactions are found. A cursor on the first page, such as a mempool
+ * transaction, resumes right after it on that page.
+ */
+export async function fetchAddressHistory(apiUrl: string, address: string, options: AddressHistoryOptions): Promise<AddressHistory> {
+    const fetchPage = async (afterTxid?: string) => {
+        const url = `${apiUrl}/address/${address}/txs${afterTxid ? `?after_txid=${afterTxid}` : ""}`;
+        const res = await fetch(url);
+        if (!res.ok) throw new Error(`Failed to fetch transactions: ${res.status} ${res.statusText}`);
+        return await res.json() as EsploraTransaction[];
+    };
+
+    const transactions: AddressTransaction[] = [];
+    let txs = await fetchPage();
+    let start = 0;
+    if (options.afterTxid) {
+        const index = txs.findIndex(tx => tx.txid === options.afterTxid);
+        if (index >= 0) start = index + 1;
+        else txs = await fetchPage(options.afterTxid);
+    }
+
+    let afterTxid = options.afterTxid;
+    for (let page = 0; page < MAX_PAGES; page++) {
+        if (page > 0) txs = await fetchPage(afterTxid);
+        const confirmed = txs.filter(tx => tx.status.confirmed);
+
+        for (const tx of txs.slice(start)) {
+            const summary = summarizeAddressTransaction(tx, address);
+            if (!matches(summary, options)) continue;
+            transactions.push(summary);
+            if (transactions.length >= options.limit) {
+                // More may follow unless this was the last transaction of a short, final page
+                const exhausted = confirmed.length < ESPLORA_PAGE_SIZE && tx === txs.at(-1);
+                return { transactions, ...(!exhausted ? { nextAfterTxid: tx.txid } : {}) };
+            }
+        }
+        start = 0;
+        afterTxid = confirmed.at(-1)?.txid ?? afterTxid;
+
+        // Unconfirmed transactions only appear on the first page
+        if (confirmed.length < ESPLORA_PAGE_SIZE || options.status === "unconfirmed") return { transactions };
+    }
+
+    return { transactions, ...(afterTxid ? { nextAfterTxid: afterTxid } : {}) };
+}
@@ -0,0 +1,66 @@
+import ecc from "@bitcoinerlab/secp256k1";
+import type { Account, Config } from "@midl/core";
+import { initEccLib, payments } from "bitcoinjs-lib";
+import { getBitcoinNetwork } from "./bitcoin.js";
+
+initEccLib(ecc);
+
+/** Input sequence that opts a transaction in to replace-by-fee (BIP125), so it can be bumped later. */
+export const RBF_SEQUENCE = 0xfffffffd;
+
+/**
+ * A previous output to spend.
+ */
+export interface SpendableOutput {
+    txid: string;
+    vout: number;
+    value: number;
+}
+
+/**
+ * Builds the PSBT input for an output owned by a connected account, with the UTXO data each
+ * address type needs for signing (the same layout MIDL.js uses when it builds transfers).
+ */
+export async function makeAccountInput(config: Config, account: Account, utxo: SpendableOutput, sequence?: number) {
+    const network = getBitcoinNetwork(config);
+    const { provider, network: bitcoinNetwork } = config.getState();
+    const publicKey = Buffer.from(account.publicKey, "hex");
+    const base = { hash: utxo.txid, index: utxo.vout, ...(sequence !== undefined ? { sequence } : {}) };
+
+    switch (account.addressType as string) {
+        case "p2sh_p2wpkh": {
+            const redeem = payments.p2wpkh({ pubkey: publicKey, network });
+            const hex = await provider.getTransactionHex(bitcoinNetwork, utxo.txid);
+            return { ...base, nonWitnessUtxo: Buffer.from(hex, "hex"), redeemScript: redeem.output! };
+        }
+        case "p2tr": {
+            const xOnly = publicKey.length === 33 ? publicKey.subarray(1) : publicKey;
+            return {
+                ...base,
+                witnessUtxo: { script: payments.p2tr({ internalPubkey: xOnly, network }).output!, value: BigInt(utxo.value) },
+                tapInternalKey: xOnly,
+            };
+        }
+        case "p2wpkh":
+            return {
+                ...base,
+                witnessUtxo: { script: payments.p2wpkh({ pubkey: publicKey, network }).output!, value: BigInt(utxo.value) },
+            };
+        default:
+            throw new Error(`Unsupported address type ${account.addressType} for ${account.address}.`);
+    }
+}
+
+/**
+ * Virtual bytes a signed input of the account's address type adds to a transaction.
+ */
+export function getAccountInputVsize(account: Account): number {
+    switch (account.addressType as string) {
+        case "p2sh_p2wpkh":
+            return 41 + 23 + 27;
+        case "p2tr":
+            return 41 + 16.5;
+        default:
+            return 41 + 27;
+    }
+}
@@ -0,0 +1,341 @@
+import ecc from "@bitcoinerlab/secp256k1";
+import { Psbt, address as btcAddress, initEccLib, networks, opcodes, payments, script as btcScript } from "bitcoinjs-lib";
+
+initEccLib(ecc);
+
+/**
+ * Multisig script templates: P2WSH `sortedmulti` or a Taproot script-path `sortedmulti_a` leaf.
+ */
+export type MultisigType = "p2wsh" | "p2tr";
+
+/**
+ * An m-of-n multisig wallet, as persisted by `MultisigStore`.
+ */
+export interface MultisigWallet {
+    name: string;
+    type: MultisigType;
+    threshold: number;
+    /** Cosigner keys in script order: compressed for P2WSH, x-only for Taproot. */
+    publicKeys: string[];
+    /** bitcoinjs-lib network name the address was derived for, e.g. "testnet". */
+    network: string;
+    address: string;
+    /** Output descriptor with checksum, importable into Bitcoin Core and descriptor wallets. */
+    descriptor: string;
+    /** P2WSH witness script or Taproot leaf script (hex). */
+    script: string;
+}
+
+export interface MultisigParams {
+    name: string;
+    type: MultisigType;
+    threshold: number;
+    publicKeys: string[];
+}
+
+/**
+ * Unspendable BIP341 "nothing up my sleeve" internal key, so Taproot multisig outputs can only be
+ * spent through the script path.
+ */
+export const NUMS_INTERNAL_KEY = "50929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0";
+
+const TAPSCRIPT_LEAF_VERSION = 0xc0;
+/** Consensus limit of keys in CHECKMULTISIG, also applied to Taproot for parity. */
+const MAX_COSIGNERS = 20;
+const DUST_LIMIT = 546;
+
+const DESCRIPTOR_INPUT_CHARSET = "0123456789()[],'/*abcdefgh@:$%{}IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~ijklmnopqrstuvwxyzABCDEFGH`#\"\\ ";
+const DESCRIPTOR_CHECKSUM_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const DESCRIPTOR_GENERATORS = [0xf5dee51989n, 0xa9fdca3312n, 0x1bab10e32dn, 0x3706b1677an, 0x644d626ffdn];
+
+function descriptorPolymod(c: bigint, value: number): bigint {
+    const c0 = c >> 35n;
+    let result = ((c & 0x7ffffffffn) << 5n) ^ BigInt(value);
+    DESCRIPTOR_GENERATORS.forEach((generator, i) => {
+        if ((c0 >> BigInt(i)) & 1n) result ^= generator;
+    });
+    return result;
+}
+
+/**
+ * Computes the 8 character BIP380 checksum of an output descriptor.
+ */
+export function getDescriptorChecksum(descriptor: string): string {
+    let c = 1n;
+    let cls = 0;
+    let clsCount = 0;
+    for (const ch of descriptor) {
+        const pos = DESCRIPTOR_INPUT_CHARSET.indexOf(ch);
+        if (pos === -1) throw new Error(`Invalid descriptor character: ${ch}`);
+        c = descriptorPolymod(c, pos & 31);
+        cls = cls * 3 + (pos >> 5);
+        if (++clsCount === 3) {
+            c = descriptorPolymod(c, cls);
+            cls = 0;
+            clsCount = 0;
+        }
+    }
+    if (clsCount > 0) c = descriptorPolymod(c, cls);
+    for (let i = 0; i < 8; i++) c = descriptorPolymod(c, 0);
+    c ^= 1n;
+
+    let checksum = "";
+    for (let i = 0; i < 8; i++) {
+        checksum += DESCRIPTOR_CHECKSUM_CHARSET[Number((c >> BigInt(5 * (7 - i))) & 31n)];
+    }
+    return checksum;
+}
+
+/**
+ * Validates cosigner keys and converts them to the form the script type needs. Taproot accepts
+ * compressed keys and drops their parity byte.
+ */
+function normalizePublicKeys(type: MultisigType, publicKeys: string[]): Buffer[] {
+    const keys = publicKeys.map((hex, i) => {
+        const key = Buffer.from(hex.replace(/^0x/, ""), "hex");
+        if (type === "p2wsh") {
+            if (key.length !== 33 || !ecc.isPoint(key)) {
+                throw new Error(`Public key #${i + 1} is not a valid compressed public key: ${hex}`);
+            }
+            return key;
+        }
+        const xOnly = key.length === 33 ? key.subarray(1) : key;
+        if (xOnly.length !== 32 || !ecc.isXOnlyPoint(xOnly)) {
+            throw new Error(`Public key #${i + 1} is not a valid compressed or x-only public key: ${hex}`);
+        }
+        return Buffer.from(xOnly);
+    });
+
+    const unique = new Set(keys.map(k => k.toString("hex")));
+    if (unique.size !== keys.length) throw new Error("Public keys must be unique.");
+
+    // BIP67 / sortedmulti_a order, so every cosigner derives the same script from the same key set
+    return keys.sort(Buffer.compare);
+}
+
+/**
+ * Builds the multisig script: `OP_m <keys> OP_n OP_CHECKMULTISIG` for P2WSH, and
+ * `<k1> OP_CHECKSIG <k2> OP_CHECKSIGADD ... OP_m OP_NUMEQUAL` for a Taproot leaf.
+ */
+function buildMultisigScript(type: MultisigType, threshold: number, keys: Buffer[]): Buffer {
+    if (type === "p2wsh") {
+        return Buffer.from(payments.p2ms({ m: threshold, pubkeys: keys }).output!);
+    }
+    return Buffer.from(btcScript.compile([
+        ...keys.flatMap((key, i) => [key, i === 0 ? opcodes.OP_CHECKSIG! : opcodes.OP_CHECKSIGADD!]),
+        btcScript.number.encode(threshold),
+        opcodes.OP_NUMEQUAL!,
+    ]));
+}
+
+function getTaprootPayment(leafScript: Uint8Array, network: networks.Network) {
+    return payments.p2tr({
+        internalPubkey: Buffer.from(NUMS_INTERNAL_KEY, "hex"),
+        scriptTree: { output: leafScript },
+        redeem: { output: leafScript, redeemVersion: TAPSCRIPT_LEAF_VERSION },
+        network,
+    });
+}
+
+/**
+ * Derives an m-of-n multisig wallet (address, script and descriptor) from a set of public keys.
+ */
+export function createMultisigWallet(params: MultisigParams, network: networks.Network, networkName: string): MultisigWallet {
+    const { name, type, threshold, publicKeys } = params;
+    if (publicKeys.length < 1 || publicKeys.length > MAX_COSIGNERS) {
+        throw new Error(`A multisig wallet needs between 1 and ${MAX_COSIGNERS} public keys.`);
+    }
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > publicKeys.length) {
+        throw new Error(`Threshold must be between 1 and ${publicKeys.length}.`);
+    }
+
+    const keys = normalizePublicKeys(type, publicKeys);
+    const script = buildMultisigScript(type, threshold, keys);
+    const keyList = keys.map(k => k.toString("hex")).join(",");
+
+    const address = type === "p2wsh"
+        ? payments.p2wsh({ redeem: { output: script }, network }).address!
+        : getTaprootPayment(script, network).address!;
+    const descriptor = type === "p2wsh"
+        ? `wsh(sortedmulti(${threshold},${keyList}))`
+        : `tr(${NUMS_INTERNAL_KEY},sortedmulti_a(${threshold},${keyList}))`;
+
+    return {
+        name,
+        type,
+        threshold,
+        publicKeys: keys.map(k => k.toString("hex")),
+        network: networkName,
+        address,
+        descriptor: `${descriptor}#${getDescriptorChecksum(descriptor)}`,
+        script: script.toString("hex"),
+    };
+}
+
+/**
+ * Whether a connected account's public key is one of the wallet's cosigners.
+ */
+export function isCosigner(wallet: MultisigWallet, publicKey: string): boolean {
+    const key = publicKey.replace(/^0x/, "").toLowerCase();
+    const candidate = wallet.type === "p2tr" && key.length === 66 ? key.slice(2) : key;
+    return wallet.publicKeys.includes(candidate);
+}
+
+/**
+ * Reads the threshold and key count of a P2WSH `multi` or Taproot `multi_a` script, or null for other scripts.
+ */
+export function parseMultisigScript(type: MultisigType, script: Uint8Array): { threshold: number; keys: number } | null {
+    if (type === "p2wsh") {
+        try {
+            const p2ms = payments.p2ms({ output: script });
+            return { threshold: p2ms.m!, keys: p2ms.n! };
+        } catch {
+            return null;
+        }
+    }
+
+    const chunks = btcScript.decompile(script);
+    if (!chunks || chunks.length < 4 || chunks.at(-1) !== opcodes.OP_NUMEQUAL) return null;
+    const keyChunks = chunks.slice(0, -2);
+    if (keyChunks.length % 2 !== 0) return null;
+    for (let i = 0; i < keyChunks.length; i += 2) {
+        const key = keyChunks[i];
+        const op = keyChunks[i + 1];
+        if (typeof key === "number" || key?.length !== 32) return null;
+        if (op !== (i === 0 ? opcodes.OP_CHECKSIG : opcodes.OP_CHECKSIGADD)) return null;
+    }
+
+    const m = chunks.at(-2)!;
+    const threshold = typeof m === "number"
+        ? (m >= opcodes.OP_1! && m <= opcodes.OP_16! ? m - opcodes.OP_1! + 1 : NaN)
+        : btcScript.number.decode(Buffer.from(m));
+    return Number.isInteger(threshold) ? { threshold, keys: keyChunks.length / 2 } : null;
+}
+
+/**
+ * Virtual bytes the witness of a multisig input adds once finalized: m signatures (72 byte ECDSA or
+ * 64 byte Schnorr), empty elements for absent Taproot signers, the script and the control block.
+ */
+export function estimateMultisigWitnessVsize(type: MultisigType, threshold: number, keys: number, scriptLength: number): number {
+    const scriptItem = (scriptLength < 253 ? 1 : 3) + scriptLength;
+    const witness = type === "p2wsh"
+        ? 1 + 1 + threshold * 73 + scriptItem
+        : 1 + threshold * 65 + (keys - threshold) + scriptItem + 1 + 33;
+    return witness / 4;
+}
+
+/**
+ * Finalizes a Taproot `multi_a` input. The witness needs one element per key in reverse script
+ * order, empty for cosigners that did not sign, which bitcoinjs-lib's generic finalizer omits.
+ */
+export function finalizeTaprootMultisigInput(psbt: Psbt, index: number) {
+    const input = psbt.data.inputs[index]!;
+    const leaf = input.tapLeafScript?.[0];
+    const parsed = leaf ? parseMultisigScript("p2tr", leaf.script) : null;
+    if (!leaf || !parsed) throw new Error(`Input ${index} is not a Taproot multisig input.`);
+
+    psbt.finalizeInput(index, () => {
+        const chunks = btcScript.decompile(leaf.script)!;
+        const keys = chunks.filter((c): c is Uint8Array => typeof c !== "number" && c.length === 32);
+        const signatures = keys.map(key =>
+            input.tapScriptSig?.find(sig => Buffer.compare(Buffer.from(sig.pubkey), Buffer.from(key)) === 0)?.signature
+        );
+        const count = signatures.filter(Boolean).length;
+        if (count < parsed.threshold) {
+            throw new Error(`Needs ${parsed.threshold} of ${parsed.keys} signatures, has ${count}.`);
+        }
+
+        // Drop surplus signatures: OP_NUMEQUAL requires exactly m valid ones
+        let remaining = parsed.threshold;
+        const stack = signatures
+            .map(sig => (sig && remaining-- > 0 ? sig : new Uint8Array(0)))
+            .reverse();
+        return { finalScriptWitness: witnessStackToBuffer([...stack, leaf.script, leaf.controlBlock]) };
+    });
+}
+
+function witnessStackToBuffer(stack: Uint8Array[]): Buffer {
+    const varint = (n: number) => n < 253 ? Buffer.from([n]) : Buffer.from([253, n & 0xff, n >> 8]);
+    return Buffer.concat([varint(stack.length), ...stack.flatMap(item => [varint(item.length), Buffer.from(item)])]);
+}
+
+/**
+ * A UTXO of the multisig address.
+ */
+export interface MultisigUtxo {
+    txid: string;
+    vout: number;
+    value: number;
+}
+
+/**
+ * Builds an unsigned PSBT spending from a multisig wallet. UTXOs are selected largest first, change
+ * returns to the multisig address, and each input carries the witness script or Taproot leaf so
+ * every cosigner can sign it independently.
+ */
+export function buildMultisigSpendPsbt(
+    wallet: MultisigWallet,
+    utxos: MultisigUtxo[],
+    recipients: { address: string; amount: number }[],
+    feeRate: number,
+    network: networks.Network
+): { psbt: Psbt; fee: number; change: number; inputs: MultisigUtxo[] } {
+    const script = Buffer.from(wallet.script, "hex");
+    const outputScript = wallet.type === "p2wsh"
+        ? payments.p2wsh({ redeem: { output: script }, network }).output!
+        : getTaprootPayment(script, network).output!;
+    const controlBlock = wallet.type === "p2tr" ? getTaprootPayment(script, network).witness!.at(-1)! : undefined;
+
+    const inputVsize = 41 + estimateMultisigWitnessVsize(wallet.type, wallet.threshold, wallet.publicKeys.length, script.length);
+    const recipientsVsize = recipients.reduce((acc, r) => acc + 9 + btcAddress.toOutputScript(r.address, network).length, 0);
+    const changeVsize = 9 + outputScript.length;
+
+    const amount = recipients.reduce((acc, r) => acc + r.amount, 0);
+    const selected: MultisigUtxo[] = [];
+    let total = 0;
+    let fee = 0;
+    let change = 0;
+    for (const utxo of [...utxos].sort((a, b) => b.value - a.value)) {
+        selected.push(utxo);
+        total += utxo.value;
+
+        const baseVsize = 10.5 + selected.length * inputVsize + recipientsVsize;
+        const feeWithChange = Math.ceil((baseVsize + changeVsize) * feeRate);
+        if (total - amount - feeWithChange >= DUST_LIMIT) {
+            fee = feeWithChange;
+            change = total - amount - fee;
+            break;
+        }
+        const feeWithoutChange = Math.ceil(baseVsize * feeRate);
+        if (total - amount >= feeWithoutChange) {
+            fee = total - amount;
+            break;
+        }
+    }
+    if (fee === 0) {
+        throw new Error(`Insufficient funds in ${wallet.name}: ${total} sats available across ${utxos.length} UTXOs.`);
+    }
+
+    const psbt = new Psbt({ network });
+    for (const utxo of selected) {
+        psbt.addInput({
+            hash: utxo.txid,
+            index: utxo.vout,
+            witnessUtxo: { script: outputScript, value: BigInt(utxo.value) },
+            ...(wallet.type === "p2wsh"
+                ? { witnessScript: script }
+                : {
+                    tapInternalKey: Buffer.from(NUMS_INTERNAL_KEY, "hex"),
+                    tapLeafScript: [{ leafVersion: TAPSCRIPT_LEAF_VERSION, script, controlBlock: controlBlock! }],
+                }),
+        });
+    }
+    for (const recipient of recipients) {
+        psbt.addOutput({ address: recipient.address, value: BigInt(recipient.amount) });
+    }
+    if (change > 0) {
+        psbt.addOutput({ script: outputScript, value: BigInt(change) });
+    }
+
+    return { psbt, fee, change, inputs: selected };
+}
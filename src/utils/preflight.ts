@@ -0,0 +1,215 @@
+import type { Config } from "@midl/core";
+import { Transaction } from "bitcoinjs-lib";
+import type { BroadcastLimits } from "../config/policy.js";
+import { getInputTxId, getPrevouts } from "./bitcoin.js";
+import { getScriptType, type ScriptType } from "./psbt.js";
+
+/**
+ * A later transaction already spending one of the inputs.
+ */
+export interface InputConflict {
+    txid: string;
+    confirmed: boolean;
+    /** Whether the conflicting transaction signals BIP125 replace-by-fee. */
+    replaceable: boolean;
+}
+
+export interface PreflightInput {
+    index: number;
+    outpoint: string;
+    /** Previous output value, or null when the previous transaction cannot be fetched. */
+    value: number | null;
+    signed: boolean;
+    conflict?: InputConflict;
+}
+
+/**
+ * Result of checking a raw transaction before broadcast. Any error blocks the broadcast.
+ */
+export interface PreflightReport {
+    txid: string;
+    vsize: number;
+    fee: number | null;
+    feeRate: number | null;
+    fastestFeeRate?: number;
+    inputs: PreflightInput[];
+    /** Whether the inputs were looked up for spends by other transactions. */
+    doubleSpendsChecked: boolean;
+    errors: string[];
+    warnings: string[];
+}
+
+export interface PreflightOptions {
+    limits: BroadcastLimits;
+    /** Current fastest recommended fee rate. The multiple check is skipped without it. */
+    fastestFeeRate?: number | undefined;
+    /** Esplora API base URL used to look up spends of the inputs. */
+    apiUrl?: string | undefined;
+}
+
+/** Inputs with a sequence below this value signal replaceability (BIP125). */
+const RBF_SEQUENCE_LIMIT = 0xfffffffe;
+
+const WITNESS_TYPES: ScriptType[] = ["p2wpkh", "p2wsh", "p2tr"];
+
+/**
+ * Whether an input carries the data that unlocks its previous output. P2WPKH needs a signature
+ * and public key, other segwit outputs a witness, and legacy outputs a scriptSig.
+ */
+function isInputSigned(input: Transaction["ins"][number], scriptType: ScriptType | undefined): boolean {
+    if (scriptType === "p2wpkh") return input.witness.length === 2;
+    if (scriptType && WITNESS_TYPES.includes(scriptType)) return input.witness.length > 0;
+    if (scriptType === "p2pkh" || scriptType === "p2sh") return input.script.length > 0;
+    return input.script.length > 0 || input.witness.length > 0;
+}
+
+/** How long an outspend lookup may take before it is abandoned. */
+export const OUTSPEND_TIMEOUT_MS = 10_000;
+
+/**
+ * Finds the transaction spending an outpoint through Esplora's `/tx/{txid}/outspend/{vout}`.
+ * A lookup that takes longer than `timeoutMs` throws, like any other failed lookup.
+ */
+export async function fetchOutspend(apiUrl: string, txid: string, vout: number, timeoutMs = OUTSPEND_TIMEOUT_MS): Promise<{ txid: string; confirmed: boolean } | null> {
+    let res: Response;
+    try {
+        res = await fetch(`${apiUrl}/tx/${txid}/outspend/${vout}`, { signal: AbortSignal.timeout(timeoutMs) });
+    } catch (error: any) {
+        if (error?.name === "TimeoutError") throw new Error(`timed out after ${timeoutMs} ms`);
+        throw error;
+    }
+    if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+    const outspend = await res.json() as { spent: boolean; txid?: string; status?: { confirmed: boolean } };
+    return outspend.spent && outspend.txid ? { txid: outspend.txid, confirmed: outspend.status?.confirmed ?? false } : null;
+}
+
+/**
+ * Whether a transaction fetched through the provider signals replace-by-fee. Unknown transactions do not.
+ */
+async function signalsRbf(config: Config, txid: string): Promise<boolean> {
+    const { provider, network } = config.getState();
+    try {
+        return Transaction.fromHex(await provider.getTransactionHex(network, txid)).ins.some(i => i.sequence < RBF_SEQUENCE_LIMIT);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Checks a signed raw transaction before it is broadcast: every input is signed, the fee can be
+ * worked out from the previous outputs and is within the absurd-fee limits, and no input is
+ * already spent by another transaction in the mempool or a block. A double-spend lookup that
+ * fails or times out is a warning, not an error, and leaves `doubleSpendsChecked` false.
+ */
+export async function preflightTransaction(config: Config, txHex: string, options: PreflightOptions): Promise<PreflightReport> {
+    let tx: Transaction;
+    try {
+        tx = Transaction.fromHex(txHex);
+    } catch (error: any) {
+        throw new Error(`Invalid transaction hex: ${error.message}`);
+    }
+    const txid = tx.getId();
+    const vsize = tx.virtualSize();
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const prevouts = await getPrevouts(config, tx);
+    const inputs = tx.ins.map((input, index): PreflightInput => {
+        const prevout = prevouts[index];
+        return {
+            index,
+            outpoint: `${getInputTxId(input)}:${input.index}`,
+            value: prevout?.value ?? null,
+            signed: isInputSigned(input, prevout ? getScriptType(prevout.script) : undefined),
+        };
+    });
+
+    const unsigned = inputs.filter(i => !i.signed);
+    if (unsigned.length > 0) {
+        errors.push(`Input${unsigned.length === 1 ? "" : "s"} ${unsigned.map(i => i.index).join(", ")} ${unsigned.length === 1 ? "is" : "are"} not signed.`);
+    }
+
+    let fee: number | null = null;
+    let feeRate: number | null = null;
+    if (inputs.some(i => i.value === null)) {
+        warnings.push("The fee could not be checked because some previous outputs could not be looked up.");
+    } else {
+        const inputTotal = inputs.reduce((acc, i) => acc + i.value!, 0);
+        const outputTotal = tx.outs.reduce((acc, out) => acc + Number(out.value), 0);
+        fee = inputTotal - outputTotal;
+        feeRate = Number((fee / vsize).toFixed(2));
+
+        const { maxFeeSats, maxFeeRateMultiple } = options.limits;
+        if (fee < 0) {
+            errors.push(`Outputs (${outputTotal} sats) exceed inputs (${inputTotal} sats).`);
+        } else if (maxFeeSats > 0 && fee > maxFeeSats) {
+            errors.push(`Absurd fee: ${fee} sats exceeds the maximum of ${maxFeeSats} sats.`);
+        } else if (maxFeeRateMultiple > 0 && options.fastestFeeRate && feeRate > options.fastestFeeRate * maxFeeRateMultiple) {
+            errors.push(`Absurd fee rate: ${feeRate} sat/vB is more than ${maxFeeRateMultiple}x the current fastest rate (${options.fastestFeeRate} sat/vB).`);
+        }
+    }
+    if (!options.fastestFeeRate) {
+        warnings.push("The current fee rate could not be fetched, so the fee rate was not compared against it.");
+    }
+
+    let doubleSpendsChecked = false;
+    if (options.apiUrl) {
+        try {
+            await Promise.all(inputs.map(async input => {
+                const [prevTxid, vout] = input.outpoint.split(":") as [string, string];
+                const spender = await fetchOutspend(options.apiUrl!, prevTxid, Number(vout));
+                if (!spender || spender.txid === txid) return;
+                input.conflict = { ...spender, replaceable: !spender.confirmed && await signalsRbf(config, spender.txid) };
+            }));
+            doubleSpendsChecked = true;
+        } catch (error: any) {
+            warnings.push(`Could not check the inputs for double-spends: ${error.message}`);
+        }
+
+        for (const input of inputs.filter(i => i.conflict)) {
+            const { txid: spender, confirmed, replaceable } = input.conflict!;
+            if (confirmed) {
+                errors.push(`Input ${input.index} (${input.outpoint}) is already spent by confirmed transaction ${spender}.`);
+            } else if (replaceable) {
+                warnings.push(`Input ${input.index} (${input.outpoint}) is spent by mempool transaction ${spender}, which signals RBF; this transaction replaces it if its fee is higher.`);
+            } else {
+                errors.push(`Double-spend: input ${input.index} (${input.outpoint}) is already spent by mempool transaction ${spender}, which does not signal RBF.`);
+            }
+        }
+    }
+
+    return {
+        txid,
+        vsize,
+        fee,
+        feeRate,
+        ...(options.fastestFeeRate ? { fastestFeeRate: options.fastestFeeRate } : {}),
+        inputs,
+        doubleSpendsChecked,
+        errors,
+        warnings,
+    };
+}
+
+/**
+ * Renders a preflight report for the broadcast confirmation.
+ */
+export function formatPreflight(report: PreflightReport, limits: BroadcastLimits): string {
+    const signed = report.inputs.filter(i => i.signed).length;
+    const conflicts = report.inputs.filter(i => i.conflict).length;
+    const limitText = [
+        limits.maxFeeSats > 0 ? `max ${limits.maxFeeSats} sats` : null,
+        limits.maxFeeRateMultiple > 0 && report.fastestFeeRate ? `max ${limits.maxFeeRateMultiple}x the fastest rate of ${report.fastestFeeRate} sat/vB` : null,
+    ].filter(Boolean).join(", ");
+
+    const lines = [
+        "Preflight checks:",
+        `- Signatures: ${signed}/${report.inputs.length} inputs signed`,
+        report.fee === null
+            ? "- Fee: unknown"
+            : `- Fee: ${report.fee} sats at ${report.feeRate} sat/vB${limitText ? ` (${limitText})` : ""}`,
+        `- Double-spends: ${!report.doubleSpendsChecked ? "not checked" : conflicts > 0 ? `${conflicts} input(s) already spent` : "none found"}`,
+    ];
+    lines.push(...report.errors.map(e => `❌ ${e}`), ...report.warnings.map(w => `⚠️ ${w}`));
+    return lines.join("\n");
+}
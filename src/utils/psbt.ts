@@ -0,0 +1,370 @@
+import { Psbt, Transaction, address as btcAddress, script as btcScript, networks } from "bitcoinjs-lib";
+import { getInputTxId, getPsbtInputValues } from "./bitcoin.js";
+import { estimateMultisigWitnessVsize, finalizeTaprootMultisigInput, parseMultisigScript } from "./multisig.js";
+
+/**
+ * Output script templates recognised by `getScriptType`.
+ */
+export type ScriptType =
+    | "p2pkh"
+    | "p2sh"
+    | "p2sh-p2wpkh"
+    | "p2sh-p2wsh"
+    | "p2wpkh"
+    | "p2wsh"
+    | "p2tr"
+    | "op_return"
+    | "nonstandard";
+
+export interface PsbtInputInspection {
+    index: number;
+    txid: string;
+    vout: number;
+    sequence?: number;
+    value: number | null;
+    address?: string;
+    scriptType?: ScriptType;
+    owned: boolean;
+    signatures: number;
+    /** Signatures needed before the input can be finalized: the threshold of a multisig script, otherwise 1. */
+    requiredSignatures: number;
+    finalized: boolean;
+    sighashType?: string;
+}
+
+export interface PsbtOutputInspection {
+    index: number;
+    value: number;
+    address?: string;
+    scriptType: ScriptType;
+    owned: boolean;
+    opReturn?: { hex: string; utf8?: string };
+}
+
+export interface PsbtInspection {
+    txId: string;
+    version: number;
+    locktime: number;
+    inputs: PsbtInputInspection[];
+    outputs: PsbtOutputInspection[];
+    inputTotal: number | null;
+    outputTotal: number;
+    fee: number | null;
+    feeRate: number | null;
+    vsize: number;
+    /** False when vsize is estimated from script types because some inputs are not finalized. */
+    vsizeExact: boolean;
+    fullySigned: boolean;
+    fullyFinalized: boolean;
+}
+
+const SIGHASH_NAMES: Record<number, string> = {
+    [Transaction.SIGHASH_DEFAULT]: "DEFAULT",
+    [Transaction.SIGHASH_ALL]: "ALL",
+    [Transaction.SIGHASH_NONE]: "NONE",
+    [Transaction.SIGHASH_SINGLE]: "SINGLE",
+    [Transaction.SIGHASH_ALL | Transaction.SIGHASH_ANYONECANPAY]: "ALL|ANYONECANPAY",
+    [Transaction.SIGHASH_NONE | Transaction.SIGHASH_ANYONECANPAY]: "NONE|ANYONECANPAY",
+    [Transaction.SIGHASH_SINGLE | Transaction.SIGHASH_ANYONECANPAY]: "SINGLE|ANYONECANPAY",
+};
+
+/**
+ * Virtual bytes added to an unsigned input once its scriptSig and witness are filled in.
+ * Based on a 72 byte ECDSA or 64 byte Schnorr signature and a compressed public key.
+ */
+const INPUT_VSIZE_ESTIMATE: Partial<Record<ScriptType, number>> = {
+    "p2pkh": 107,
+    "p2sh-p2wpkh": 23 + 27,
+    "p2wpkh": 27,
+    "p2tr": 16.5,
+};
+
+/**
+ * The multisig script an input spends through: its P2WSH witness script or first Taproot leaf.
+ */
+function getInputMultisig(input: Psbt["data"]["inputs"][number]) {
+    const leaf = input.tapLeafScript?.[0];
+    const script = input.witnessScript ?? leaf?.script;
+    const type = input.witnessScript ? "p2wsh" : "p2tr";
+    const parsed = script ? parseMultisigScript(type, script) : null;
+    return parsed ? { type, script: script!, ...parsed } as const : null;
+}
+
+/**
+ * Virtual bytes an unsigned input is expected to add once finalized. Multisig inputs are sized from
+ * their witness script or Taproot leaf, other inputs from their script type.
+ */
+function estimateInputVsize(input: Psbt["data"]["inputs"][number], scriptType: ScriptType | undefined): number {
+    const multisig = getInputMultisig(input);
+    if (multisig) {
+        return estimateMultisigWitnessVsize(multisig.type, multisig.threshold, multisig.keys, multisig.script.length);
+    }
+    return scriptType ? INPUT_VSIZE_ESTIMATE[scriptType] ?? 0 : 0;
+}
+
+/**
+ * Formats a sighash flag, e.g. `ALL|ANYONECANPAY`.
+ */
+export function getSighashName(sighashType: number): string {
+    return SIGHASH_NAMES[sighashType] ?? `0x${sighashType.toString(16).padStart(2, "0")}`;
+}
+
+/**
+ * Classifies an output script. Pass the redeem script to tell nested segwit from plain P2SH.
+ */
+export function getScriptType(script: Uint8Array, redeemScript?: Uint8Array): ScriptType {
+    const s = script;
+    if (s.length === 25 && s[0] === 0x76 && s[1] === 0xa9 && s[2] === 0x14 && s[23] === 0x88 && s[24] === 0xac) return "p2pkh";
+    if (s.length === 23 && s[0] === 0xa9 && s[1] === 0x14 && s[22] === 0x87) {
+        if (redeemScript) {
+            const nested = getScriptType(redeemScript);
+            if (nested === "p2wpkh") return "p2sh-p2wpkh";
+            if (nested === "p2wsh") return "p2sh-p2wsh";
+        }
+        return "p2sh";
+    }
+    if (s.length === 22 && s[0] === 0x00 && s[1] === 0x14) return "p2wpkh";
+    if (s.length === 34 && s[0] === 0x00 && s[1] === 0x20) return "p2wsh";
+    if (s.length === 34 && s[0] === 0x51 && s[1] === 0x20) return "p2tr";
+    if (s.length > 0 && s[0] === 0x6a) return "op_return";
+    return "nonstandard";
+}
+
+/**
+ * Extracts the data pushed by an OP_RETURN output, with a UTF-8 rendering when it is printable text.
+ */
+export function decodeOpReturn(script: Uint8Array): { hex: string; utf8?: string } {
+    const chunks = btcScript.decompile(script) || [];
+    const data = Buffer.concat(chunks.slice(1).filter((c): c is Uint8Array => typeof c !== "number"));
+    const utf8 = data.toString("utf8");
+    const printable = data.length > 0 && !utf8.includes("�") && /^[\x20-\x7E\s]*$/.test(utf8);
+    return { hex: data.toString("hex"), ...(printable ? { utf8 } : {}) };
+}
+
+function toAddress(script: Uint8Array, network: networks.Network): string | undefined {
+    try {
+        return btcAddress.fromOutputScript(script, network);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Describes transaction outputs: value, address, script type, whether they pay a connected account and OP_RETURN data.
+ */
+export function inspectOutputs(
+    outs: { script: Uint8Array; value: bigint | number }[],
+    network: networks.Network,
+    ownAddresses: Set<string>
+): PsbtOutputInspection[] {
+    return outs.map((output, i): PsbtOutputInspection => {
+        const scriptType = getScriptType(output.script);
+        const address = toAddress(output.script, network);
+        return {
+            index: i,
+            value: Number(output.value),
+            ...(address ? { address } : {}),
+            scriptType,
+            owned: address !== undefined && ownAddresses.has(address),
+            ...(scriptType === "op_return" ? { opReturn: decodeOpReturn(output.script) } : {}),
+        };
+    });
+}
+
+/**
+ * Reads the unsigned transaction embedded in a PSBT.
+ */
+export function getUnsignedTransaction(psbt: Psbt): Transaction {
+    return Transaction.fromBuffer((psbt.data.globalMap.unsignedTx as unknown as { toBuffer(): Uint8Array }).toBuffer());
+}
+
+/**
+ * Describes every input and output of a PSBT: values, script types, ownership, signing state,
+ * fee and (estimated when unsigned) virtual size. Works on unsigned and partially signed PSBTs.
+ */
+export function inspectPsbt(psbt: Psbt, network: networks.Network, ownAddresses: Set<string>): PsbtInspection {
+    const unsignedTx = getUnsignedTransaction(psbt);
+    const inputValues = getPsbtInputValues(psbt);
+
+    const inputs = psbt.data.inputs.map((input, i): PsbtInputInspection => {
+        const txInput = psbt.txInputs[i]!;
+        let prevScript: Uint8Array | undefined;
+        if (input.witnessUtxo) {
+            prevScript = input.witnessUtxo.script;
+        } else if (input.nonWitnessUtxo) {
+            prevScript = Transaction.fromBuffer(input.nonWitnessUtxo).outs[txInput.index]?.script;
+        }
+
+        const address = prevScript ? toAddress(prevScript, network) : undefined;
+        const signatureSighash = input.partialSig?.[0]?.signature.at(-1)
+            ?? (input.tapKeySig?.length === 65 ? input.tapKeySig[64] : undefined);
+        const sighash = input.sighashType ?? signatureSighash;
+        // A key-path signature alone spends a Taproot output, whatever its script tree requires
+        const multisig = input.tapKeySig ? null : getInputMultisig(input);
+
+        return {
+            index: i,
+            txid: getInputTxId(txInput),
+            vout: txInput.index,
+            ...(txInput.sequence !== undefined ? { sequence: txInput.sequence } : {}),
+            value: inputValues[i] ?? null,
+            ...(address ? { address } : {}),
+            ...(prevScript ? { scriptType: getScriptType(prevScript, input.redeemScript) } : {}),
+            owned: address !== undefined && ownAddresses.has(address),
+            signatures: (input.partialSig?.length ?? 0) + (input.tapKeySig ? 1 : 0) + (input.tapScriptSig?.length ?? 0),
+            requiredSignatures: multisig?.threshold ?? 1,
+            finalized: Boolean(input.finalScriptSig || input.finalScriptWitness),
+            ...(sighash !== undefined ? { sighashType: getSighashName(sighash) } : {}),
+        };
+    });
+
+    const outputs = inspectOutputs(psbt.txOutputs, network, ownAddresses);
+
+    const fullyFinalized = inputs.length > 0 && inputs.every(input => input.finalized);
+    let vsize: number;
+    let vsizeExact = false;
+    if (fullyFinalized) {
+        vsize = psbt.extractTransaction(true).virtualSize();
+        vsizeExact = true;
+    } else {
+        const hasWitness = inputs.some(input => input.scriptType !== "p2pkh");
+        vsize = Math.ceil(unsignedTx.virtualSize() + (hasWitness ? 0.5 : 0) + inputs.reduce(
+            (acc, input, i) => acc + estimateInputVsize(psbt.data.inputs[i]!, input.scriptType),
+            0
+        ));
+    }
+
+    const inputTotal = inputValues.some(v => v === null)
+        ? null
+        : inputValues.reduce<number>((acc, v) => acc + v!, 0);
+    const outputTotal = outputs.reduce((acc, out) => acc + out.value, 0);
+    const fee = inputTotal === null ? null : inputTotal - outputTotal;
+
+    return {
+        txId: fullyFinalized ? psbt.extractTransaction(true).getId() : unsignedTx.getId(),
+        version: psbt.version,
+        locktime: psbt.locktime,
+        inputs,
+        outputs,
+        inputTotal,
+        outputTotal,
+        fee,
+        feeRate: fee === null ? null : Number((fee / vsize).toFixed(2)),
+        vsize,
+        vsizeExact,
+        fullySigned: inputs.length > 0 && inputs.every(input => input.finalized || input.signatures >= input.requiredSignatures),
+        fullyFinalized,
+    };
+}
+
+/**
+ * Sighash names accepted by signing tools.
+ */
+export const SIGHASH_TYPES = [
+    "DEFAULT",
+    "ALL",
+    "NONE",
+    "SINGLE",
+    "ALL|ANYONECANPAY",
+    "NONE|ANYONECANPAY",
+    "SINGLE|ANYONECANPAY",
+] as const;
+
+/**
+ * Converts a sighash name such as `ALL|ANYONECANPAY` back into its flag.
+ */
+export function parseSighashName(name: (typeof SIGHASH_TYPES)[number]): number {
+    const entry = Object.entries(SIGHASH_NAMES).find(([, n]) => n === name);
+    if (!entry) throw new Error(`Unknown sighash type: ${name}`);
+    return Number(entry[0]);
+}
+
+/**
+ * Groups the inputs to sign by the connected address that owns them, in the `signInputs` format
+ * MIDL.js expects. Without explicit indexes every owned, unfinalized input is selected.
+ * Throws when an explicit index does not exist, is finalized or is not owned.
+ */
+export function getSignInputs(
+    inspection: PsbtInspection,
+    ownAddresses: Set<string>,
+    indexes?: number[]
+): Record<string, number[]> {
+    const selected = indexes
+        ? indexes.map(index => {
+            const input = inspection.inputs[index];
+            if (!input) throw new Error(`Input ${index} does not exist (the PSBT has ${inspection.inputs.length} inputs).`);
+            if (input.finalized) throw new Error(`Input ${index} is already finalized.`);
+            if (!input.address || !ownAddresses.has(input.address)) {
+                throw new Error(`Input ${index} does not belong to a connected account${input.address ? ` (${input.address})` : " or has no UTXO data"}.`);
+            }
+            return input;
+        })
+        : inspection.inputs.filter(input => !input.finalized && input.address && ownAddresses.has(input.address));
+
+    const signInputs: Record<string, number[]> = {};
+    for (const input of selected) {
+        (signInputs[input.address!] ??= []).push(input.index);
+    }
+    return signInputs;
+}
+
+/**
+ * Merges signatures and other data from several PSBTs for the same unsigned transaction.
+ * Throws when any PSBT describes a different transaction than the first.
+ */
+export function combinePsbts(psbts: Psbt[]): Psbt {
+    const [first, ...rest] = psbts;
+    if (!first) throw new Error("At least one PSBT is required.");
+
+    const expected = getUnsignedTransaction(first).toHex();
+    rest.forEach((psbt, i) => {
+        const unsignedTx = getUnsignedTransaction(psbt);
+        if (unsignedTx.toHex() !== expected) {
+            throw new Error(
+                `PSBT #${i + 2} describes a different unsigned transaction (${unsignedTx.getId()}) than PSBT #1 (${getUnsignedTransaction(first).getId()}).`
+            );
+        }
+    });
+
+    return rest.length > 0 ? first.combine(...rest) : first;
+}
+
+/**
+ * Outcome of finalizing a PSBT input by input.
+ */
+export interface FinalizeResult {
+    finalizedInputs: number[];
+    alreadyFinalized: number[];
+    failedInputs: { index: number; reason: string }[];
+}
+
+/**
+ * Finalizes every input that can be finalized, in place, and explains why the others cannot.
+ */
+export function finalizePsbtInputs(psbt: Psbt): FinalizeResult {
+    const result: FinalizeResult = { finalizedInputs: [], alreadyFinalized: [], failedInputs: [] };
+
+    psbt.data.inputs.forEach((input, index) => {
+        if (input.finalScriptSig || input.finalScriptWitness) {
+            result.alreadyFinalized.push(index);
+            return;
+        }
+        if (!input.partialSig?.length && !input.tapKeySig && !input.tapScriptSig?.length) {
+            result.failedInputs.push({ index, reason: "Input has no signatures." });
+            return;
+        }
+        try {
+            const leaf = input.tapLeafScript?.[0];
+            if (leaf && parseMultisigScript("p2tr", leaf.script)) {
+                finalizeTaprootMultisigInput(psbt, index);
+            } else {
+                psbt.finalizeInput(index);
+            }
+            result.finalizedInputs.push(index);
+        } catch (error: any) {
+            result.failedInputs.push({ index, reason: error.message });
+        }
+    });
+
+    return result;
+}
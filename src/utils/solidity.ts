@@ -0,0 +1,155 @@
+import solc from "solc";
+import type { SolcOutput } from "solc";
+
+/**
+ * Solidity compiler settings. Anything omitted takes the value from DEFAULT_COMPILER_SETTINGS.
+ */
+export interface CompilerSettings {
+    optimizer?: boolean | undefined;
+    runs?: number | undefined;
+    evmVersion?: string | undefined;
+    viaIR?: boolean | undefined;
+    /** Import remappings such as `@openzeppelin/=lib/openzeppelin-contracts/`. */
+    remappings?: string[] | undefined;
+}
+
+/** The settings `deploy-contract-source` has always used, and Blockscout verification assumes. */
+export const DEFAULT_COMPILER_SETTINGS: Required<CompilerSettings> = {
+    optimizer: false,
+    runs: 200,
+    evmVersion: "cancun",
+    viaIR: false,
+    remappings: [],
+};
+
+export interface SourceLocation {
+    file: string;
+    start: number;
+    end: number;
+    /** 1-based line and column of `start`, when the file is among the sources. */
+    line?: number;
+    column?: number;
+}
+
+export interface CompilerDiagnostic {
+    severity: "error" | "warning" | "info";
+    /** Compiler error type, e.g. ParserError, TypeError, DeclarationError or Warning. */
+    type: string;
+    message: string;
+    formattedMessage: string;
+    location?: SourceLocation;
+}
+
+export interface CompiledContract {
+    file: string;
+    name: string;
+    abi: any[];
+    bytecode: string;
+    deployedBytecode: string;
+    metadata: string;
+    storageLayout: unknown;
+}
+
+export interface CompilationResult {
+    compilerVersion: string;
+    settings: Required<CompilerSettings>;
+    errors: CompilerDiagnostic[];
+    warnings: CompilerDiagnostic[];
+    contracts: CompiledContract[];
+}
+
+/**
+ * Version of the bundled solc, in the form Blockscout expects (e.g. `v0.8.28+commit.7893614a`).
+ */
+export function getCompilerVersion(): string {
+    return `v${solc.version().replace(".Emscripten.clang", "")}`;
+}
+
+/**
+ * 1-based line and column of a character offset.
+ */
+function getLineAndColumn(content: string, offset: number): { line: number; column: number } {
+    const before = content.slice(0, Math.max(0, offset)).split("\n");
+    return { line: before.length, column: before[before.length - 1]!.length + 1 };
+}
+
+/**
+ * Compiles Solidity sources (file name to content) with the bundled solc. Never throws on
+ * compilation errors: every error and warning is returned with its source location, along with
+ * ABI, bytecode, deployed bytecode, metadata and storage layout of every contract.
+ */
+export function compileSolidity(sources: Record<string, string>, settings: CompilerSettings = {}): CompilationResult {
+    const resolved: Required<CompilerSettings> = {
+        optimizer: settings.optimizer ?? DEFAULT_COMPILER_SETTINGS.optimizer,
+        runs: settings.runs ?? DEFAULT_COMPILER_SETTINGS.runs,
+        evmVersion: settings.evmVersion ?? DEFAULT_COMPILER_SETTINGS.evmVersion,
+        viaIR: settings.viaIR ?? DEFAULT_COMPILER_SETTINGS.viaIR,
+        remappings: settings.remappings ?? DEFAULT_COMPILER_SETTINGS.remappings,
+    };
+
+    const input = {
+        language: "Solidity",
+        sources: Object.fromEntries(Object.entries(sources).map(([file, content]) => [file, { content }])),
+        settings: {
+            optimizer: { enabled: resolved.optimizer, runs: resolved.runs },
+            evmVersion: resolved.evmVersion,
+            viaIR: resolved.viaIR,
+            remappings: resolved.remappings,
+            outputSelection: {
+                "*": {
+                    "*": ["abi", "evm.bytecode.object", "evm.deployedBytecode.object", "metadata", "storageLayout"],
+                },
+            },
+        },
+    };
+
+    const output: SolcOutput = JSON.parse(solc.compile(JSON.stringify(input)));
+
+    const diagnostics: CompilerDiagnostic[] = (output.errors ?? []).map(e => {
+        const content = e.sourceLocation ? sources[e.sourceLocation.file] : undefined;
+        return {
+            severity: e.severity,
+            type: e.type,
+            message: e.message,
+            formattedMessage: e.formattedMessage,
+            ...(e.sourceLocation ? {
+                location: {
+                    ...e.sourceLocation,
+                    ...(content !== undefined ? getLineAndColumn(content, e.sourceLocation.start) : {}),
+                },
+            } : {}),
+        };
+    });
+
+    const contracts: CompiledContract[] = Object.entries(output.contracts ?? {}).flatMap(([file, fileContracts]) =>
+        Object.entries(fileContracts).map(([name, artifact]) => ({
+            file,
+            name,
+            abi: artifact.abi,
+            bytecode: artifact.evm.bytecode.object,
+            deployedBytecode: artifact.evm.deployedBytecode?.object ?? "",
+            metadata: artifact.metadata ?? "",
+            storageLayout: artifact.storageLayout ?? null,
+        }))
+    );
+
+    return {
+        compilerVersion: getCompilerVersion(),
+        settings: resolved,
+        errors: diagnostics.filter(d => d.severity === "error"),
+        warnings: diagnostics.filter(d => d.severity !== "error"),
+        contracts,
+    };
+}
+
+/**
+ * One line per diagnostic: `file:line:column: Type: message`.
+ */
+export function formatDiagnostics(diagnostics: CompilerDiagnostic[]): string {
+    return diagnostics.map(d => {
+        const where = d.location
+            ? `${d.location.file}${d.location.line !== undefined ? `:${d.location.line}:${d.location.column}` : ""}: `
+            : "";
+        return `- ${where}${d.type}: ${d.message}`;
+    }).join("\n");
+}
@@ -0,0 +1,106 @@
+import type { EvmIntentionSummary } from "../config/intentions.js";
+import type { PsbtOutputInspection } from "./psbt.js";
+import { formatBalance } from "./formatters.js";
+
+/**
+ * What a human is asked to approve.
+ */
+export interface ApprovalSummaryInput {
+    action: "sign" | "broadcast";
+    txId: string;
+    /** Inputs not spending from the connected accounts. */
+    foreignInputs: number;
+    outputs: PsbtOutputInspection[];
+    fee: number | null;
+    feeRate: number | null;
+    vsize: number;
+    vsizeExact: boolean;
+    intentions: EvmIntentionSummary[];
+    /** Current fastest recommended fee rate, used to flag unusually high fees. */
+    fastestFeeRate?: number;
+    /** Whether the user has allow-listed or paid this address before. */
+    isKnownRecipient: (address: string) => boolean;
+}
+
+export interface ApprovalSummary {
+    text: string;
+    warnings: string[];
+}
+
+/** Fee rates above this multiple of the fastest recommended rate are flagged. */
+const HIGH_FEE_RATE_MULTIPLIER = 2;
+/** Fees above this share of the amount sent to others are flagged. */
+const HIGH_FEE_SHARE = 0.1;
+
+function describeIntention(intention: EvmIntentionSummary): string {
+    const from = intention.from ? ` from ${intention.from}` : "";
+    const size = intention.dataBytes !== undefined ? `, ${intention.dataBytes} bytes` : "";
+    if (intention.kind === "deploy") {
+        return `Deploy contract${intention.contractAddress ? ` at ${intention.contractAddress}` : ""}${from}${size}`;
+    }
+    return `Call ${intention.functionName ?? "contract"}() on ${intention.contractAddress ?? "unknown contract"}${from}${size}`;
+}
+
+/**
+ * Builds the elicitation message for a signing or broadcast confirmation: recipients, change,
+ * OP_RETURN data, MIDL EVM intentions, fee, and warnings about anything unusual.
+ */
+export function buildApprovalSummary(input: ApprovalSummaryInput): ApprovalSummary {
+    const recipients = input.outputs.filter(o => o.address && !o.owned);
+    const change = input.outputs.filter(o => o.owned);
+    const data = input.outputs.filter(o => o.opReturn);
+    const sent = recipients.reduce((acc, o) => acc + o.value, 0);
+
+    const warnings: string[] = [];
+    if (input.fee === null) {
+        warnings.push("The fee could not be determined because some input values are unknown.");
+    } else {
+        if (input.feeRate !== null && input.fastestFeeRate && input.feeRate > input.fastestFeeRate * HIGH_FEE_RATE_MULTIPLIER) {
+            warnings.push(`Fee rate ${input.feeRate} sat/vB is more than ${HIGH_FEE_RATE_MULTIPLIER}x the current fastest rate (${input.fastestFeeRate} sat/vB).`);
+        }
+        if (sent > 0 && input.fee > sent * HIGH_FEE_SHARE) {
+            warnings.push(`The fee (${input.fee} sats) is ${Math.round((input.fee / sent) * 100)}% of the amount sent.`);
+        }
+    }
+    for (const recipient of recipients) {
+        if (!input.isKnownRecipient(recipient.address!)) {
+            warnings.push(`${recipient.address} has not been paid before and is not on the allow list.`);
+        }
+    }
+    if (input.foreignInputs > 0) {
+        warnings.push(`${input.foreignInputs} input(s) do not belong to your accounts.`);
+    }
+    if (input.outputs.some(o => o.scriptType === "nonstandard")) {
+        warnings.push("The transaction has non-standard outputs.");
+    }
+
+    const lines = [
+        input.action === "sign"
+            ? "You are about to SIGN a Bitcoin transaction."
+            : "CRITICAL: You are about to BROADCAST a transaction to the Bitcoin Network. This action is irreversible.",
+        `Transaction: ${input.txId}`,
+        "",
+        "Recipients:",
+        ...(recipients.length > 0 ? recipients.map(o => `- ${o.address}: ${formatBalance(o.value)}`) : ["- (none, only your own accounts)"]),
+    ];
+    if (change.length > 0) {
+        lines.push("Change (back to your accounts):", ...change.map(o => `- ${o.address}: ${formatBalance(o.value)}`));
+    }
+    if (data.length > 0) {
+        lines.push("Embedded data (OP_RETURN):", ...data.map(o => `- ${o.opReturn!.utf8 !== undefined ? `"${o.opReturn!.utf8}"` : `0x${o.opReturn!.hex}`}`));
+    }
+    if (input.intentions.length > 0) {
+        lines.push("MIDL EVM intentions:", ...input.intentions.map(i => `- ${describeIntention(i)}`));
+    }
+    lines.push(
+        "",
+        input.fee === null
+            ? `Fee: unknown (${input.vsizeExact ? "" : "~"}${input.vsize} vB)`
+            : `Fee: ${formatBalance(input.fee)} at ${input.feeRate} sat/vB (${input.vsizeExact ? "" : "~"}${input.vsize} vB)`
+    );
+    if (warnings.length > 0) {
+        lines.push("", "⚠️ Warnings:", ...warnings.map(w => `- ${w}`));
+    }
+
+    return { text: lines.join("\n"), warnings };
+}
@@ -0,0 +1,81 @@
+import type { Config } from "@midl/core";
+import { Transaction } from "bitcoinjs-lib";
+import type { TrackerObservation } from "../config/tracker.js";
+import { getInputTxId } from "./bitcoin.js";
+import { fetchOutspend } from "./preflight.js";
+
+/**
+ * The parts of a viem public client used to follow an EVM transaction.
+ */
+export interface EvmReceiptClient {
+    getTransactionReceipt(args: { hash: `0x${string}` }): Promise<{ blockNumber: bigint; status: "success" | "reverted" }>;
+    getBlockNumber(): Promise<bigint>;
+}
+
+/**
+ * Whether a failed provider lookup means the transaction does not exist, rather than a transport
+ * error, timeout or server failure. Providers that do not say why are double-checked with Esplora.
+ */
+async function isTransactionMissing(error: any, txid: string, apiUrl?: string): Promise<boolean> {
+    if (error?.status === 404 || /not found/i.test(error?.message ?? "")) return true;
+    if (!apiUrl) return false;
+    const res = await fetch(`${apiUrl}/tx/${txid}/status`);
+    return res.status === 404;
+}
+
+/**
+ * Builds a status check for a Bitcoin transaction. The inputs are remembered while the
+ * transaction is visible so that, once it disappears, an Esplora API can tell whether another
+ * transaction spent them (a replacement) or it was simply dropped. The provider and network are
+ * captured when tracking starts, so a later `switch-network` keeps polling the transaction's own chain.
+ * A failed or timed-out outspend lookup throws, so the tracker retries rather than counting a miss.
+ */
+export function createBtcCheck(config: Config, txid: string, apiUrl?: string): () => Promise<TrackerObservation> {
+    const { provider, network } = config.getState();
+    let inputs: { txid: string; vout: number }[] | undefined;
+
+    return async () => {
+        let hex: string;
+        try {
+            hex = await provider.getTransactionHex(network, txid);
+        } catch (error) {
+            // Anything but a genuine "not found" is thrown, so the tracker retries instead of counting a miss
+            if (!(await isTransactionMissing(error, txid, apiUrl))) throw error;
+            if (!inputs || !apiUrl) return { found: false };
+            for (const input of inputs) {
+                const spender = await fetchOutspend(apiUrl, input.txid, input.vout);
+                if (spender && spender.txid !== txid) return { found: false, replacedBy: spender.txid };
+            }
+            return { found: false };
+        }
+
+        inputs ??= Transaction.fromHex(hex).ins.map(input => ({ txid: getInputTxId(input), vout: input.index }));
+        const status = await provider.getTransactionStatus(network, txid);
+        if (!status.confirmed) return { found: true, confirmations: 0 };
+        const tipHeight = await provider.getLatestBlockHeight(network);
+        return { found: true, confirmations: Math.max(0, tipHeight - status.block_height + 1), blockNumber: status.block_height };
+    };
+}
+
+/**
+ * Builds a status check for a MIDL EVM transaction. A missing receipt means the transaction
+ * has not been executed yet, which is normal until its Bitcoin anchor confirms.
+ */
+export function createEvmCheck(client: EvmReceiptClient, hash: `0x${string}`): () => Promise<TrackerObservation> {
+    return async () => {
+        let receipt;
+        try {
+            receipt = await client.getTransactionReceipt({ hash });
+        } catch (error: any) {
+            if (error?.name === "TransactionReceiptNotFoundError") return { found: true, confirmations: 0 };
+            throw error;
+        }
+        const head = await client.getBlockNumber();
+        return {
+            found: true,
+            confirmations: Math.max(0, Number(head - receipt.blockNumber) + 1),
+            blockNumber: Number(receipt.blockNumber),
+            failed: receipt.status === "reverted",
+        };
+    };
+}
@@ -0,0 +1,175 @@
+import type { Config } from "@midl/core";
+import { Transaction, address as btcAddress } from "bitcoinjs-lib";
+import type { EvmIntentionSummary } from "../config/intentions.js";
+import { getBitcoinNetwork, getInputTxId, getPrevouts } from "./bitcoin.js";
+import { getScriptType, inspectOutputs, type PsbtOutputInspection, type ScriptType } from "./psbt.js";
+import { formatBalance } from "./formatters.js";
+
+export interface TransactionInputDetails {
+    index: number;
+    txid: string;
+    vout: number;
+    sequence: number;
+    /** Previous output value, or null when the previous transaction cannot be fetched. */
+    value: number | null;
+    address?: string;
+    scriptType?: ScriptType;
+    owned: boolean;
+}
+
+/**
+ * A transaction with its prevouts, fee and confirmation status.
+ */
+export interface TransactionDetails {
+    txid: string;
+    version: number;
+    locktime: number;
+    size: number;
+    vsize: number;
+    weight: number;
+    inputs: TransactionInputDetails[];
+    outputs: PsbtOutputInspection[];
+    inputTotal: number | null;
+    outputTotal: number;
+    fee: number | null;
+    feeRate: number | null;
+    /** Whether any input opts in to BIP125 replace-by-fee. */
+    rbf: boolean;
+    confirmed: boolean;
+    confirmations: number;
+    blockHeight?: number;
+    blockHash?: string;
+    blockTime?: number;
+    /** MIDL EVM transactions anchored by this Bitcoin transaction, when prepared by this server. */
+    intentions: EvmIntentionSummary[];
+}
+
+/** Inputs with a sequence below this value signal replaceability (BIP125). */
+const RBF_SEQUENCE_LIMIT = 0xfffffffe;
+
+/**
+ * Reads the block hash and time from an Esplora API. The provider interface only reports the
+ * height, so these are left out when the API is unreachable.
+ */
+async function fetchBlockInfo(apiUrl: string, txid: string): Promise<{ blockHash?: string; blockTime?: number }> {
+    try {
+        const res = await fetch(`${apiUrl}/tx/${txid}/status`);
+        if (!res.ok) return {};
+        const status = await res.json() as { block_hash?: string; block_time?: number };
+        return {
+            ...(status.block_hash ? { blockHash: status.block_hash } : {}),
+            ...(status.block_time ? { blockTime: status.block_time } : {}),
+        };
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Looks up a transaction through the configured provider: inputs with their prevout values,
+ * outputs, fee, size, RBF signalling and confirmations.
+ */
+export async function getTransactionDetails(
+    config: Config,
+    txid: string,
+    options: { ownAddresses: Set<string>; intentions: EvmIntentionSummary[]; apiUrl?: string }
+): Promise<TransactionDetails> {
+    const { provider, network } = config.getState();
+    const btcNetwork = getBitcoinNetwork(config);
+
+    let hex: string;
+    try {
+        hex = await provider.getTransactionHex(network, txid);
+    } catch (error: any) {
+        throw new Error(`Transaction ${txid} not found: ${error.message}`);
+    }
+    const tx = Transaction.fromHex(hex);
+    const [prevouts, status, tipHeight] = await Promise.all([
+        getPrevouts(config, tx),
+        provider.getTransactionStatus(network, txid),
+        provider.getLatestBlockHeight(network),
+    ]);
+
+    const inputs = tx.ins.map((input, index): TransactionInputDetails => {
+        const prevout = prevouts[index];
+        let address: string | undefined;
+        try {
+            address = prevout ? btcAddress.fromOutputScript(prevout.script, btcNetwork) : undefined;
+        } catch {
+            address = undefined;
+        }
+        return {
+            index,
+            txid: getInputTxId(input),
+            vout: input.index,
+            sequence: input.sequence,
+            value: prevout?.value ?? null,
+            ...(address ? { address } : {}),
+            ...(prevout ? { scriptType: getScriptType(prevout.script) } : {}),
+            owned: address !== undefined && options.ownAddresses.has(address),
+        };
+    });
+    const outputs = inspectOutputs(tx.outs, btcNetwork, options.ownAddresses);
+
+    const inputTotal = inputs.some(i => i.value === null) ? null : inputs.reduce((acc, i) => acc + i.value!, 0);
+    const outputTotal = outputs.reduce((acc, o) => acc + o.value, 0);
+    const fee = inputTotal === null ? null : inputTotal - outputTotal;
+    const vsize = tx.virtualSize();
+    const blockInfo = status.confirmed && options.apiUrl ? await fetchBlockInfo(options.apiUrl, txid) : {};
+
+    return {
+        txid: tx.getId(),
+        version: tx.version,
+        locktime: tx.locktime,
+        size: tx.byteLength(),
+        vsize,
+        weight: tx.weight(),
+        inputs,
+        outputs,
+        inputTotal,
+        outputTotal,
+        fee,
+        feeRate: fee === null ? null : Number((fee / vsize).toFixed(2)),
+        rbf: tx.ins.some(input => input.sequence < RBF_SEQUENCE_LIMIT),
+        confirmed: status.confirmed,
+        confirmations: status.confirmed ? Math.max(tipHeight - status.block_height + 1, 1) : 0,
+        ...(status.confirmed ? { blockHeight: status.block_height } : {}),
+        ...blockInfo,
+        intentions: options.intentions,
+    };
+}
+
+/**
+ * Renders transaction details as a readable summary.
+ */
+export function formatTransactionDetails(details: TransactionDetails): string {
+    const status = details.confirmed
+        ? `Confirmed (${details.confirmations} confirmation${details.confirmations === 1 ? "" : "s"}, block ${details.blockHeight}` +
+            `${details.blockTime ? `, ${new Date(details.blockTime * 1000).toISOString()}` : ""})`
+        : "Unconfirmed (in mempool)";
+    const lines = [
+        `Transaction: ${details.txid}`,
+        `Status: ${status}`,
+        `Size: ${details.vsize} vB (${details.weight} WU)`,
+        details.fee === null
+            ? "Fee: unknown (previous outputs unavailable)"
+            : `Fee: ${formatBalance(details.fee)} at ${details.feeRate} sat/vB`,
+        `Replace-by-fee: ${details.rbf ? "signalled" : "not signalled"}`,
+        "",
+        "Inputs:",
+        ...details.inputs.map(i =>
+            `- ${i.txid}:${i.vout} ${i.address ?? "unknown"} ${i.value === null ? "value unknown" : formatBalance(i.value)}${i.owned ? " (yours)" : ""}`
+        ),
+        "Outputs:",
+        ...details.outputs.map(o =>
+            `- #${o.index} ${o.address ?? o.scriptType} ${formatBalance(o.value)}${o.owned ? " (yours)" : ""}` +
+            `${o.opReturn ? ` data: ${o.opReturn.utf8 !== undefined ? `"${o.opReturn.utf8}"` : `0x${o.opReturn.hex}`}` : ""}`
+        ),
+    ];
+    if (details.intentions.length > 0) {
+        lines.push("MIDL EVM intentions:", ...details.intentions.map(i =>
+            `- ${i.kind === "deploy" ? "Deploy" : `Call ${i.functionName ?? "contract"}()`}${i.contractAddress ? ` ${i.contractAddress}` : ""}`
+        ));
+    }
+    return lines.join("\n");
+}
@@ -0,0 +1,120 @@
+import type { SpendableOutput } from "./inputs.js";
+
+/**
+ * A UTXO as returned by the provider.
+ */
+export interface ProviderUtxo extends SpendableOutput {
+    status?: { confirmed: boolean };
+}
+
+export interface UtxoSizeBucket {
+    label: string;
+    count: number;
+    value: number;
+}
+
+/**
+ * Fragmentation report for one address at a given fee rate.
+ */
+export interface UtxoAnalysis {
+    count: number;
+    total: number;
+    unconfirmed: number;
+    feeRate: number;
+    /** Fee to spend a single input at `feeRate`. */
+    spendCost: number;
+    /** UTXOs worth no more than their spend cost. */
+    dust: { count: number; value: number };
+    /** Fee to spend every UTXO in one transaction with a single output. */
+    costToSpendAll: number;
+    smallest: number | null;
+    largest: number | null;
+    median: number | null;
+    distribution: UtxoSizeBucket[];
+}
+
+const BUCKETS: [string, number][] = [
+    ["< 1k sats", 1_000],
+    ["1k - 10k sats", 10_000],
+    ["10k - 100k sats", 100_000],
+    ["100k - 1M sats", 1_000_000],
+    ["1M - 10M sats", 10_000_000],
+    [">= 10M sats", Infinity],
+];
+
+/** Version, locktime, counts, the segwit marker and one P2TR-sized output. */
+const SWEEP_OVERHEAD_VSIZE = 10.5 + 43;
+
+/**
+ * Counts an address's UTXOs by size and works out which of them cost more to spend than they hold.
+ */
+export function analyzeUtxos(utxos: ProviderUtxo[], feeRate: number, inputVsize: number): UtxoAnalysis {
+    const spendCost = Math.ceil(feeRate * inputVsize);
+    const values = utxos.map(u => u.value).sort((a, b) => a - b);
+    const dust = utxos.filter(u => u.value <= spendCost);
+
+    let lower = 0;
+    const distribution = BUCKETS.map(([label, upper]) => {
+        const inBucket = values.filter(v => v >= lower && v < upper);
+        lower = upper;
+        return { label, count: inBucket.length, value: inBucket.reduce((acc, v) => acc + v, 0) };
+    });
+
+    return {
+        count: utxos.length,
+        total: values.reduce((acc, v) => acc + v, 0),
+        unconfirmed: utxos.filter(u => u.status && !u.status.confirmed).length,
+        feeRate,
+        spendCost,
+        dust: { count: dust.length, value: dust.reduce((acc, u) => acc + u.value, 0) },
+        costToSpendAll: utxos.length > 0 ? Math.ceil(feeRate * (SWEEP_OVERHEAD_VSIZE + utxos.length * inputVsize)) : 0,
+        smallest: values[0] ?? null,
+        largest: values.at(-1) ?? null,
+        median: values.length > 0 ? values[Math.floor((values.length - 1) / 2)]! : null,
+        distribution,
+    };
+}
+
+/**
+ * Picks UTXOs to merge, smallest first so fragmentation drops the most. UTXOs worth no more than
+ * their spend cost are skipped unless `includeDust` is set.
+ */
+export function pickConsolidationInputs(
+    utxos: ProviderUtxo[],
+    feeRate: number,
+    inputVsize: number,
+    options: { maxInputs: number; includeDust?: boolean | undefined; exclude?: string[] | undefined }
+): SpendableOutput[] {
+    const spendCost = Math.ceil(feeRate * inputVsize);
+    const exclude = new Set((options.exclude ?? []).map(o => o.toLowerCase()));
+    const picked = utxos
+        .filter(u => !exclude.has(`${u.txid}:${u.vout}`) && (options.includeDust || u.value > spendCost))
+        .sort((a, b) => a.value - b.value)
+        .slice(0, options.maxInputs);
+    if (picked.length < 2) {
+        throw new Error(`Nothing to consolidate: ${picked.length} UTXO${picked.length === 1 ? "" : "s"} worth spending at ${feeRate} sat/vB.`);
+    }
+    return picked.map(({ txid, vout, value }) => ({ txid, vout, value }));
+}
+
+/**
+ * Renders a UTXO analysis as a readable report.
+ */
+export function formatUtxoAnalysis(address: string, analysis: UtxoAnalysis): string {
+    const lines = [`UTXOs for ${address}: ${analysis.count} (${analysis.total} sats${analysis.unconfirmed ? `, ${analysis.unconfirmed} unconfirmed` : ""})`];
+    if (analysis.count > 0) {
+        lines.push(
+            `Smallest / median / largest: ${analysis.smallest} / ${analysis.median} / ${analysis.largest} sats`,
+            "",
+            "Size distribution:",
+            ...analysis.distribution.filter(b => b.count > 0).map(b => `- ${b.label}: ${b.count} (${b.value} sats)`)
+        );
+    }
+    lines.push(
+        "",
+        `At ${analysis.feeRate} sat/vB, spending one input costs ${analysis.spendCost} sats.`,
+        `Dust (worth no more than its spend cost): ${analysis.dust.count} UTXOs, ${analysis.dust.value} sats`,
+        `Cost to spend everything in one transaction: ${analysis.costToSpendAll} sats`
+    );
+    return lines.join("\n");
+}